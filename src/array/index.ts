@@ -2,6 +2,8 @@
  * Array utility functions for common operations
  */
 
+import { RandomSource, uniformInt } from '../crypto/random';
+
 /**
  * Removes duplicate elements from an array
  * @param arr - The array to remove duplicates from
@@ -19,17 +21,18 @@ export function unique<T>(arr: T[]): T[] {
 /**
  * Shuffles an array using Fisher-Yates algorithm
  * @param arr - The array to shuffle
+ * @param source - Random source (default: process-wide source)
  * @returns A new shuffled array
  * @example
  * shuffle([1, 2, 3, 4]) // [3, 1, 4, 2] (random order)
  */
-export function shuffle<T>(arr: T[]): T[] {
+export function shuffle<T>(arr: T[], source?: RandomSource): T[] {
   if (!Array.isArray(arr)) {
     throw new TypeError('Expected an array');
   }
   const shuffled = [...arr];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = uniformInt(i + 1, source);
     [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
   }
   return shuffled;
@@ -0,0 +1,49 @@
+/**
+ * Byte helpers shared by the crypto submodules
+ */
+
+/**
+ * Input accepted by the binary crypto functions: strings are UTF-8 encoded
+ */
+export type BinaryLike = string | Uint8Array;
+
+/**
+ * Encodes a string as UTF-8 bytes
+ */
+export function utf8Encode(str: string): Uint8Array {
+  return new TextEncoder().encode(str);
+}
+
+/**
+ * Decodes UTF-8 bytes into a string
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Converts a string or byte array into bytes
+ */
+export function toBytes(data: BinaryLike): Uint8Array {
+  if (typeof data === 'string') {
+    return utf8Encode(data);
+  }
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  throw new TypeError('Expected a string or Uint8Array');
+}
+
+/**
+ * Concatenates byte arrays into a new array
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const total = arrays.reduce((acc, arr) => acc + arr.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const arr of arrays) {
+    result.set(arr, offset);
+    offset += arr.length;
+  }
+  return result;
+}
@@ -0,0 +1,415 @@
+/**
+ * Non-cryptographic checksums and hashes: CRC32, CRC32C, Adler-32, FNV-1a and xxHash.
+ * Fast and well distributed for sharding, ETags and corruption checks, but not
+ * collision resistant; use sha256 where an attacker controls the input.
+ */
+
+import { BinaryLike, toBytes } from './bytes';
+
+/**
+ * Supported checksum algorithms
+ */
+export type ChecksumAlgorithm = 'crc32' | 'crc32c' | 'adler32' | 'fnv1a32' | 'fnv1a64' | 'xxhash32' | 'xxhash64';
+
+/**
+ * Value type produced by a checksum algorithm: 64-bit algorithms return bigint
+ */
+export type ChecksumValue<A extends ChecksumAlgorithm> = A extends 'fnv1a64' | 'xxhash64' ? bigint : number;
+
+/**
+ * Incremental checksum; digest can be called at any point and does not reset the state
+ */
+export interface Checksum<T extends number | bigint = number | bigint> {
+  update(data: BinaryLike): Checksum<T>;
+  digest(): T;
+  digest(encoding: 'hex'): string;
+}
+
+interface ChecksumState {
+  update(bytes: Uint8Array): void;
+  value(): number | bigint;
+}
+
+const MASK_64 = 0xffffffffffffffffn;
+
+function crcTable(polynomial: number): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? polynomial ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+}
+
+const CRC_TABLES: Record<string, Uint32Array> = {};
+
+function createCrc(polynomial: number): ChecksumState {
+  const key = polynomial.toString(16);
+  const table = CRC_TABLES[key] ?? (CRC_TABLES[key] = crcTable(polynomial));
+  let crc = 0xffffffff;
+  return {
+    update(bytes) {
+      for (let i = 0; i < bytes.length; i++) {
+        crc = table[(crc ^ bytes[i]!) & 0xff]! ^ (crc >>> 8);
+      }
+    },
+    value: () => (crc ^ 0xffffffff) >>> 0
+  };
+}
+
+function createAdler32(): ChecksumState {
+  const MOD = 65521;
+  // Largest block that cannot overflow before reducing (zlib's NMAX)
+  const NMAX = 5552;
+  let a = 1;
+  let b = 0;
+  return {
+    update(bytes) {
+      for (let start = 0; start < bytes.length; start += NMAX) {
+        const end = Math.min(start + NMAX, bytes.length);
+        for (let i = start; i < end; i++) {
+          a += bytes[i]!;
+          b += a;
+        }
+        a %= MOD;
+        b %= MOD;
+      }
+    },
+    value: () => ((b << 16) | a) >>> 0
+  };
+}
+
+function createFnv1a32(): ChecksumState {
+  let hash = 0x811c9dc5;
+  return {
+    update(bytes) {
+      for (let i = 0; i < bytes.length; i++) {
+        hash = Math.imul(hash ^ bytes[i]!, 0x01000193);
+      }
+    },
+    value: () => hash >>> 0
+  };
+}
+
+function createFnv1a64(): ChecksumState {
+  // Offset basis 0xcbf29ce484222325 as 16-bit limbs, least significant first;
+  // multiplying by the prime 2^40 + 0x1b3 is done limb-wise to avoid BigInt per byte
+  let h0 = 0x2325, h1 = 0x8422, h2 = 0x9ce4, h3 = 0xcbf2;
+  return {
+    update(bytes) {
+      for (let i = 0; i < bytes.length; i++) {
+        h0 ^= bytes[i]!;
+        const t0 = h0 * 0x1b3;
+        const t1 = h1 * 0x1b3 + (t0 >>> 16);
+        const t2 = h2 * 0x1b3 + (h0 << 8) + (t1 >>> 16);
+        const t3 = h3 * 0x1b3 + (h1 << 8) + (t2 >>> 16);
+        h0 = t0 & 0xffff;
+        h1 = t1 & 0xffff;
+        h2 = t2 & 0xffff;
+        h3 = t3 & 0xffff;
+      }
+    },
+    value: () => (BigInt(h3 * 0x10000 + h2) << 32n) | BigInt(h1 * 0x10000 + h0)
+  };
+}
+
+const XXH32_P1 = 0x9e3779b1;
+const XXH32_P2 = 0x85ebca77;
+const XXH32_P3 = 0xc2b2ae3d;
+const XXH32_P4 = 0x27d4eb2f;
+const XXH32_P5 = 0x165667b1;
+
+function rotl32(x: number, n: number): number {
+  return (x << n) | (x >>> (32 - n));
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset]! | (bytes[offset + 1]! << 8) | (bytes[offset + 2]! << 16) | (bytes[offset + 3]! << 24)) >>> 0;
+}
+
+function xxh32Round(acc: number, lane: number): number {
+  return Math.imul(rotl32((acc + Math.imul(lane, XXH32_P2)) | 0, 13), XXH32_P1);
+}
+
+function createXxhash32(seed: number): ChecksumState {
+  const acc = [
+    (seed + XXH32_P1 + XXH32_P2) | 0,
+    (seed + XXH32_P2) | 0,
+    seed | 0,
+    (seed - XXH32_P1) | 0
+  ];
+  const buffer = new Uint8Array(16);
+  let buffered = 0;
+  let total = 0;
+
+  const stripe = (bytes: Uint8Array, offset: number) => {
+    for (let lane = 0; lane < 4; lane++) {
+      acc[lane] = xxh32Round(acc[lane]!, readUint32LE(bytes, offset + lane * 4));
+    }
+  };
+
+  return {
+    update(bytes) {
+      total += bytes.length;
+      let offset = 0;
+      if (buffered > 0) {
+        const take = Math.min(16 - buffered, bytes.length);
+        buffer.set(bytes.subarray(0, take), buffered);
+        buffered += take;
+        offset = take;
+        if (buffered < 16) return;
+        stripe(buffer, 0);
+        buffered = 0;
+      }
+      for (; offset + 16 <= bytes.length; offset += 16) {
+        stripe(bytes, offset);
+      }
+      buffer.set(bytes.subarray(offset), 0);
+      buffered = bytes.length - offset;
+    },
+    value() {
+      let h = total >= 16
+        ? rotl32(acc[0]!, 1) + rotl32(acc[1]!, 7) + rotl32(acc[2]!, 12) + rotl32(acc[3]!, 18)
+        : seed + XXH32_P5;
+      h = (h + total) | 0;
+
+      let i = 0;
+      for (; i + 4 <= buffered; i += 4) {
+        h = Math.imul(rotl32((h + Math.imul(readUint32LE(buffer, i), XXH32_P3)) | 0, 17), XXH32_P4);
+      }
+      for (; i < buffered; i++) {
+        h = Math.imul(rotl32((h + Math.imul(buffer[i]!, XXH32_P5)) | 0, 11), XXH32_P1);
+      }
+
+      h = Math.imul(h ^ (h >>> 15), XXH32_P2);
+      h = Math.imul(h ^ (h >>> 13), XXH32_P3);
+      return (h ^ (h >>> 16)) >>> 0;
+    }
+  };
+}
+
+const XXH64_P1 = 0x9e3779b185ebca87n;
+const XXH64_P2 = 0xc2b2ae3d27d4eb4fn;
+const XXH64_P3 = 0x165667b19e3779f9n;
+const XXH64_P4 = 0x85ebca77c2b2ae63n;
+const XXH64_P5 = 0x27d4eb2f165667c5n;
+
+function rotl64(x: bigint, n: bigint): bigint {
+  return ((x << n) | (x >> (64n - n))) & MASK_64;
+}
+
+function readUint64LE(bytes: Uint8Array, offset: number): bigint {
+  return (BigInt(readUint32LE(bytes, offset + 4)) << 32n) | BigInt(readUint32LE(bytes, offset));
+}
+
+function xxh64Round(acc: bigint, lane: bigint): bigint {
+  return (rotl64((acc + lane * XXH64_P2) & MASK_64, 31n) * XXH64_P1) & MASK_64;
+}
+
+function xxh64Merge(acc: bigint, value: bigint): bigint {
+  return (((acc ^ xxh64Round(0n, value)) * XXH64_P1) + XXH64_P4) & MASK_64;
+}
+
+function createXxhash64(seed: bigint): ChecksumState {
+  const acc = [
+    (seed + XXH64_P1 + XXH64_P2) & MASK_64,
+    (seed + XXH64_P2) & MASK_64,
+    seed,
+    (seed - XXH64_P1) & MASK_64
+  ];
+  const buffer = new Uint8Array(32);
+  let buffered = 0;
+  let total = 0;
+
+  const stripe = (bytes: Uint8Array, offset: number) => {
+    for (let lane = 0; lane < 4; lane++) {
+      acc[lane] = xxh64Round(acc[lane]!, readUint64LE(bytes, offset + lane * 8));
+    }
+  };
+
+  return {
+    update(bytes) {
+      total += bytes.length;
+      let offset = 0;
+      if (buffered > 0) {
+        const take = Math.min(32 - buffered, bytes.length);
+        buffer.set(bytes.subarray(0, take), buffered);
+        buffered += take;
+        offset = take;
+        if (buffered < 32) return;
+        stripe(buffer, 0);
+        buffered = 0;
+      }
+      for (; offset + 32 <= bytes.length; offset += 32) {
+        stripe(bytes, offset);
+      }
+      buffer.set(bytes.subarray(offset), 0);
+      buffered = bytes.length - offset;
+    },
+    value() {
+      let h: bigint;
+      if (total >= 32) {
+        h = (rotl64(acc[0]!, 1n) + rotl64(acc[1]!, 7n) + rotl64(acc[2]!, 12n) + rotl64(acc[3]!, 18n)) & MASK_64;
+        for (const v of acc) {
+          h = xxh64Merge(h, v);
+        }
+      } else {
+        h = (seed + XXH64_P5) & MASK_64;
+      }
+      h = (h + BigInt(total)) & MASK_64;
+
+      let i = 0;
+      for (; i + 8 <= buffered; i += 8) {
+        h ^= xxh64Round(0n, readUint64LE(buffer, i));
+        h = (rotl64(h, 27n) * XXH64_P1 + XXH64_P4) & MASK_64;
+      }
+      if (i + 4 <= buffered) {
+        h ^= (BigInt(readUint32LE(buffer, i)) * XXH64_P1) & MASK_64;
+        h = (rotl64(h, 23n) * XXH64_P2 + XXH64_P3) & MASK_64;
+        i += 4;
+      }
+      for (; i < buffered; i++) {
+        h ^= (BigInt(buffer[i]!) * XXH64_P5) & MASK_64;
+        h = (rotl64(h, 11n) * XXH64_P1) & MASK_64;
+      }
+
+      h = ((h ^ (h >> 33n)) * XXH64_P2) & MASK_64;
+      h = ((h ^ (h >> 29n)) * XXH64_P3) & MASK_64;
+      return h ^ (h >> 32n);
+    }
+  };
+}
+
+function createState(algorithm: ChecksumAlgorithm, seed: number | bigint): ChecksumState {
+  switch (algorithm) {
+    case 'crc32':
+      return createCrc(0xedb88320);
+    case 'crc32c':
+      return createCrc(0x82f63b78);
+    case 'adler32':
+      return createAdler32();
+    case 'fnv1a32':
+      return createFnv1a32();
+    case 'fnv1a64':
+      return createFnv1a64();
+    case 'xxhash32':
+      return createXxhash32(Number(BigInt.asUintN(32, BigInt(seed))));
+    case 'xxhash64':
+      return createXxhash64(BigInt.asUintN(64, BigInt(seed)));
+    default:
+      throw new Error(`Unsupported checksum algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * Creates an incremental checksum for streamed or chunked input
+ * @param algorithm - Checksum algorithm
+ * @param options - Seed for xxHash (default: 0)
+ * @returns Checksum with chainable update and non-destructive digest
+ * @example
+ * const crc = createChecksum('crc32');
+ * for (const chunk of chunks) crc.update(chunk);
+ * crc.digest('hex') // 'cbf43926'
+ */
+export function createChecksum<A extends ChecksumAlgorithm>(
+  algorithm: A,
+  options: { seed?: number | bigint } = {}
+): Checksum<ChecksumValue<A>> {
+  const { seed = 0 } = options;
+  const state = createState(algorithm, seed);
+  const hexLength = algorithm === 'fnv1a64' || algorithm === 'xxhash64' ? 16 : 8;
+
+  const checksum = {
+    update(data: BinaryLike) {
+      state.update(toBytes(data));
+      return checksum;
+    },
+    digest(encoding?: 'hex') {
+      const value = state.value();
+      return encoding === 'hex' ? value.toString(16).padStart(hexLength, '0') : value;
+    }
+  };
+  return checksum as Checksum<ChecksumValue<A>>;
+}
+
+/**
+ * Computes a CRC-32 (IEEE 802.3, as used by zip, gzip and PNG)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Unsigned 32-bit checksum
+ * @example
+ * crc32('123456789') // 0xcbf43926
+ */
+export function crc32(data: BinaryLike): number {
+  return createChecksum('crc32').update(data).digest();
+}
+
+/**
+ * Computes a CRC-32C (Castagnoli, as used by iSCSI, ext4 and cloud storage)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Unsigned 32-bit checksum
+ * @example
+ * crc32c('123456789') // 0xe3069283
+ */
+export function crc32c(data: BinaryLike): number {
+  return createChecksum('crc32c').update(data).digest();
+}
+
+/**
+ * Computes an Adler-32 checksum (as used by zlib)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Unsigned 32-bit checksum
+ * @example
+ * adler32('Wikipedia') // 0x11e60398
+ */
+export function adler32(data: BinaryLike): number {
+  return createChecksum('adler32').update(data).digest();
+}
+
+/**
+ * Computes a 32-bit FNV-1a hash
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Unsigned 32-bit hash
+ * @example
+ * fnv1a32('a') // 0xe40c292c
+ */
+export function fnv1a32(data: BinaryLike): number {
+  return createChecksum('fnv1a32').update(data).digest();
+}
+
+/**
+ * Computes a 64-bit FNV-1a hash
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Unsigned 64-bit hash
+ * @example
+ * fnv1a64('a') // 0xaf63dc4c8601ec8cn
+ */
+export function fnv1a64(data: BinaryLike): bigint {
+  return createChecksum('fnv1a64').update(data).digest();
+}
+
+/**
+ * Computes a 32-bit xxHash (XXH32)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @param seed - Seed (default: 0)
+ * @returns Unsigned 32-bit hash
+ * @example
+ * xxhash32('abc') // 0x32d153ff
+ */
+export function xxhash32(data: BinaryLike, seed = 0): number {
+  return createChecksum('xxhash32', { seed }).update(data).digest();
+}
+
+/**
+ * Computes a 64-bit xxHash (XXH64)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @param seed - Seed (default: 0)
+ * @returns Unsigned 64-bit hash
+ * @example
+ * xxhash64('abc') // 0x44bc2cf5ad770999n
+ */
+export function xxhash64(data: BinaryLike, seed: number | bigint = 0): bigint {
+  return createChecksum('xxhash64', { seed }).update(data).digest();
+}
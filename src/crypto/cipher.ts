@@ -0,0 +1,186 @@
+/**
+ * Authenticated symmetric encryption (AES-256-GCM) with a versioned compact envelope
+ */
+
+import type { webcrypto } from 'crypto';
+import { BinaryLike, concatBytes, toBytes, utf8Decode, utf8Encode } from './bytes';
+import { decodeBase64Url, encodeBase64Url } from './encoding';
+import { pbkdf2 } from './kdf';
+import { cryptoRandomSource, randomBytes } from './random';
+import { getWebCrypto } from './webcrypto';
+
+/**
+ * Encryption key: 32 raw bytes, an AES-GCM CryptoKey, or a passphrase string
+ * (stretched with PBKDF2; salt and iteration count are stored in the envelope)
+ */
+export type EncryptionKey = Uint8Array | webcrypto.CryptoKey | string;
+
+/**
+ * Output encodings for decrypt
+ */
+export type PlaintextEncoding = 'utf8' | 'bytes';
+
+const ENVELOPE_VERSION = 'v1';
+const PASSPHRASE_VERSION = 'v1p';
+const NONCE_LENGTH = 12;
+const SALT_LENGTH = 16;
+const DEFAULT_ITERATIONS = 600000;
+
+/**
+ * Generates a random 256-bit key for encrypt/decrypt
+ * @returns 32 random bytes from crypto.getRandomValues
+ * @example
+ * const key = generateEncryptionKey();
+ */
+export function generateEncryptionKey(): Uint8Array {
+  // Key material always comes from the secure source, never a swapped-in PRNG
+  return randomBytes(32, cryptoRandomSource);
+}
+
+/**
+ * Derives a 256-bit key from a passphrase with PBKDF2-HMAC-SHA-256
+ * @param passphrase - Passphrase (UTF-8 encoded)
+ * @param salt - Unique random salt (at least 16 bytes recommended)
+ * @param options - Iteration count (default: 600000)
+ * @returns 32-byte key
+ * @example
+ * const key = await deriveKey('correct horse battery staple', salt);
+ */
+export async function deriveKey(
+  passphrase: BinaryLike,
+  salt: BinaryLike,
+  options: { iterations?: number } = {}
+): Promise<Uint8Array> {
+  const { iterations = DEFAULT_ITERATIONS } = options;
+  return pbkdf2(passphrase, salt, { iterations, keyLength: 32, hash: 'sha256' });
+}
+
+async function importAesKey(key: Uint8Array | webcrypto.CryptoKey, usage: 'encrypt' | 'decrypt'): Promise<webcrypto.CryptoKey> {
+  if (!(key instanceof Uint8Array)) {
+    return key;
+  }
+  if (key.length !== 32) {
+    throw new Error('Encryption key must be 32 bytes');
+  }
+  return getWebCrypto().subtle.importKey('raw', key, 'AES-GCM', false, [usage]);
+}
+
+function additionalData(header: string, associatedData: BinaryLike | undefined): Uint8Array {
+  // The envelope header is authenticated so its version and KDF parameters cannot be altered
+  const headerBytes = utf8Encode(`${header}.`);
+  return associatedData === undefined ? headerBytes : concatBytes(headerBytes, toBytes(associatedData));
+}
+
+/**
+ * Encrypts data with AES-256-GCM and a random 96-bit nonce
+ * @param plaintext - Data to encrypt (strings are UTF-8 encoded)
+ * @param key - 32-byte key, AES-GCM CryptoKey or passphrase
+ * @param options - Associated data authenticated but not encrypted; PBKDF2 iterations for passphrases
+ * @returns Envelope string 'v1.<nonce>.<ciphertext>' or 'v1p.<iterations>.<salt>.<nonce>.<ciphertext>'
+ * @example
+ * const envelope = await encrypt('secret message', key, { associatedData: 'user-42' });
+ */
+export async function encrypt(
+  plaintext: BinaryLike,
+  key: EncryptionKey,
+  options: { associatedData?: BinaryLike; iterations?: number } = {}
+): Promise<string> {
+  const { associatedData, iterations = DEFAULT_ITERATIONS } = options;
+
+  let header = ENVELOPE_VERSION;
+  let aesKey: Uint8Array | webcrypto.CryptoKey;
+  if (typeof key === 'string') {
+    const salt = randomBytes(SALT_LENGTH, cryptoRandomSource);
+    aesKey = await deriveKey(key, salt, { iterations });
+    header = `${PASSPHRASE_VERSION}.${iterations}.${encodeBase64Url(salt)}`;
+  } else {
+    aesKey = key;
+  }
+
+  const nonce = randomBytes(NONCE_LENGTH, cryptoRandomSource);
+  const ciphertext = await getWebCrypto().subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: additionalData(header, associatedData) },
+    await importAesKey(aesKey, 'encrypt'),
+    toBytes(plaintext)
+  );
+
+  return `${header}.${encodeBase64Url(nonce)}.${encodeBase64Url(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypts and authenticates an envelope produced by encrypt
+ * @param envelope - Envelope string
+ * @param key - The key or passphrase used for encryption
+ * @param options - Associated data given to encrypt; output encoding (default: 'utf8');
+ *   highest PBKDF2 iteration count accepted from a passphrase envelope (default: 6000000)
+ * @returns Decrypted plaintext
+ * @throws Error if the envelope is malformed, tampered with, asks for more iterations than
+ *   maxIterations, or the key is wrong
+ * @example
+ * await decrypt(envelope, key, { associatedData: 'user-42' }) // 'secret message'
+ */
+export async function decrypt<E extends PlaintextEncoding = 'utf8'>(
+  envelope: string,
+  key: EncryptionKey,
+  options: { associatedData?: BinaryLike; encoding?: E; maxIterations?: number } = {}
+): Promise<E extends 'bytes' ? Uint8Array : string> {
+  const { associatedData, encoding, maxIterations = DEFAULT_ITERATIONS * 10 } = options;
+  if (typeof envelope !== 'string') {
+    throw new TypeError('Envelope must be a string');
+  }
+
+  const parts = envelope.split('.');
+  let header: string;
+  let aesKey: Uint8Array | webcrypto.CryptoKey;
+  let nonceSegment: string;
+  let ciphertextSegment: string;
+
+  if (parts[0] === ENVELOPE_VERSION && parts.length === 3) {
+    if (typeof key === 'string') {
+      throw new Error('Envelope was encrypted with a key, not a passphrase');
+    }
+    header = ENVELOPE_VERSION;
+    aesKey = key;
+    [, nonceSegment, ciphertextSegment] = parts as [string, string, string];
+  } else if (parts[0] === PASSPHRASE_VERSION && parts.length === 5) {
+    if (typeof key !== 'string') {
+      throw new Error('Envelope was encrypted with a passphrase');
+    }
+    const [, iterationsSegment, saltSegment] = parts as [string, string, string, string, string];
+    const iterations = Number(iterationsSegment);
+    if (!/^\d+$/.test(iterationsSegment) || iterations < 1) {
+      throw new Error('Invalid encryption envelope');
+    }
+    // The count is read before the envelope is authenticated, so cap the work it can ask for
+    if (iterations > maxIterations) {
+      throw new Error(`Envelope asks for ${iterationsSegment} PBKDF2 iterations, more than the allowed ${maxIterations}`);
+    }
+    header = `${PASSPHRASE_VERSION}.${iterationsSegment}.${saltSegment}`;
+    aesKey = await deriveKey(key, decodeBase64Url(saltSegment), { iterations });
+    nonceSegment = parts[3]!;
+    ciphertextSegment = parts[4]!;
+  } else {
+    throw new Error('Invalid encryption envelope');
+  }
+
+  const nonce = decodeBase64Url(nonceSegment);
+  if (nonce.length !== NONCE_LENGTH) {
+    throw new Error('Invalid encryption envelope');
+  }
+
+  const cryptoKey = await importAesKey(aesKey, 'decrypt');
+  const ciphertext = decodeBase64Url(ciphertextSegment);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await getWebCrypto().subtle.decrypt(
+      { name: 'AES-GCM', iv: nonce, additionalData: additionalData(header, associatedData) },
+      cryptoKey,
+      ciphertext
+    );
+  } catch {
+    throw new Error('Decryption failed: wrong key, associated data or tampered envelope');
+  }
+
+  const bytes = new Uint8Array(plaintext);
+  return (encoding === 'bytes' ? bytes : utf8Decode(bytes)) as E extends 'bytes' ? Uint8Array : string;
+}
@@ -0,0 +1,644 @@
+import {
+  createHash, sha1, sha256, sha512, md5,
+  hmac, createHmac, timingSafeEqual, verifySignature,
+  RandomSource, setRandomSource, randomBytes, randomString, randomNumber, generateUUID, generatePassword,
+  withRandomSource, createPrng, createPcg32, createXoshiro128,
+  UUID_NAMESPACES, generateUUIDv1, generateUUIDv3, generateUUIDv5, generateUUIDv7,
+  generateULID, generateNanoId, parseUUID,
+  signJwt, decodeJwt, verifyJwt,
+  encrypt, decrypt, deriveKey, generateEncryptionKey,
+  scrypt, hashPassword, verifyPassword, needsRehash,
+  encodeBase64, decodeBase64, encodeBase64Url, decodeBase64Url, encodeBase32Hex, encodeCrockfordBase32, decodeCrockfordBase32,
+  encodeBase58, decodeBase58, encodeHex, decodeHex, encodeAscii85, decodeAscii85, toBase64, fromBase64,
+  generatePasswordWithEntropy, generatePassphrase, PASSPHRASE_WORDLIST, MAX_PASSWORD_LENGTH,
+  createHashRing, createRendezvousHash, measureKeyMovement, simpleHash,
+  createChecksum, crc32, crc32c, adler32, fnv1a32, fnv1a64, xxhash32, xxhash64,
+  encodeBase32, decodeBase32, generateOtpSecret, generateHOTP, verifyHOTP, generateTOTP, verifyTOTP, generateOtpAuthUri
+} from './index';
+import { isValidPassword, isValidUUID } from '../validation';
+import { shuffle } from '../array';
+import { randomInt } from '../math';
+
+function sequenceSource(values: number[]): RandomSource {
+  let index = 0;
+  return { nextUint32: () => values[index++ % values.length]! };
+}
+
+describe('Crypto utilities', () => {
+  describe('digests', () => {
+    it('should match published test vectors', () => {
+      expect(sha1('abc')).toBe('a9993e364706816aba3e25717850c26c9cd0d89d');
+      expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+      expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+      expect(sha512('abc')).toBe(
+        'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a' +
+        '2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f'
+      );
+      expect(md5('')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+      expect(md5('The quick brown fox jumps over the lazy dog')).toBe('9e107d9d372bb6826bd81d3542a419d6');
+    });
+
+    it('should hash multi-block inputs', () => {
+      const input = 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq';
+      expect(sha1(input)).toBe('84983e441c3bd26ebaae4aa1f95129e5e54670f1');
+      expect(sha256(input)).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('should encode strings as UTF-8 and accept bytes', () => {
+      expect(sha256('héllo ✓')).toBe(sha256(new TextEncoder().encode('héllo ✓')));
+    });
+
+    it('should support base64 and bytes output', () => {
+      expect(sha256('abc', 'base64')).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+      const bytes = md5('abc', 'bytes');
+      expect(bytes).toBeInstanceOf(Uint8Array);
+      expect(bytes.length).toBe(16);
+    });
+  });
+
+  describe('createHash', () => {
+    it('should produce the same digest as the one-shot form', () => {
+      const data = 'x'.repeat(1000);
+      const hash = createHash('sha512');
+      for (let i = 0; i < data.length; i += 37) {
+        hash.update(data.slice(i, i + 37));
+      }
+      expect(hash.digest()).toBe(sha512(data));
+    });
+
+    it('should throw when reused after digest', () => {
+      const hash = createHash('sha1').update('abc');
+      hash.digest();
+      expect(() => hash.digest()).toThrow('Hash digest has already been computed');
+      expect(() => hash.update('more')).toThrow();
+    });
+
+    it('should throw for unsupported algorithms', () => {
+      expect(() => createHash('sha3' as any)).toThrow('Unsupported hash algorithm: sha3');
+    });
+  });
+
+  describe('hmac', () => {
+    it('should match RFC 4231 test vectors', () => {
+      const key = new Uint8Array(20).fill(0x0b);
+      expect(hmac('sha256', key, 'Hi There')).toBe(
+        'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+      );
+      expect(hmac('sha512', 'Jefe', 'what do ya want for nothing?')).toBe(
+        '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea250554' +
+        '9758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737'
+      );
+    });
+
+    it('should support base64url output and incremental updates', () => {
+      expect(hmac('sha256', 'key', 'message', 'base64url')).toBe('bp7ym3X__Ft6uuUn1Y_a2y_kLnIZARl2kXNDBl9Y7Uo');
+      expect(createHmac('sha256', 'key').update('mess').update('age').digest()).toBe(hmac('sha256', 'key', 'message'));
+    });
+  });
+
+  describe('timingSafeEqual', () => {
+    it('should compare strings and byte arrays', () => {
+      expect(timingSafeEqual('abc', 'abc')).toBe(true);
+      expect(timingSafeEqual('abc', 'abd')).toBe(false);
+      expect(timingSafeEqual('abc', 'abcd')).toBe(false);
+      expect(timingSafeEqual('', '')).toBe(true);
+      expect(timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+    });
+  });
+
+  describe('verifySignature', () => {
+    it('should verify prefixed hex signatures', () => {
+      const signature = 'sha256=' + hmac('sha256', 'secret', '{"event":"push"}');
+      expect(verifySignature('secret', '{"event":"push"}', signature, { prefix: 'sha256=' })).toBe(true);
+      expect(verifySignature('secret', '{"event":"pull"}', signature, { prefix: 'sha256=' })).toBe(false);
+      expect(verifySignature('wrong', '{"event":"push"}', signature, { prefix: 'sha256=' })).toBe(false);
+    });
+  });
+
+  describe('random source', () => {
+    afterEach(() => setRandomSource());
+
+    it('should use a per-call source', () => {
+      expect(randomString(4, 'abcd', sequenceSource([0, 1, 2, 3]))).toBe('abcd');
+      expect(generatePassword({ length: 3, includeUppercase: false, includeNumbers: false, includeSymbols: false, source: sequenceSource([0]) })).toBe('aaa');
+    });
+
+    it('should draw numbers within the inclusive range', () => {
+      expect(randomNumber(5, 7, sequenceSource([2]))).toBe(7);
+      expect(() => randomString(4, '')).toThrow('Charset must be a non-empty string');
+      expect(randomString(0, 'a')).toBe('');
+      expect(randomNumber(3, 3)).toBe(3);
+      expect(() => randomNumber(10, 1)).toThrow('min must be less than or equal to max');
+      expect(() => randomNumber(0, Infinity)).toThrow('min and max must be finite numbers');
+      expect(() => randomNumber(NaN, 1)).toThrow('min and max must be finite numbers');
+      expect(() => randomNumber(-Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER)).toThrow('Range must not span more than 2^53 values');
+    });
+
+    it('should reject values that would bias the result', () => {
+      // 0xffffffff falls in the rejected tail for a charset of 3
+      expect(randomString(1, 'abc', sequenceSource([0xffffffff, 4]))).toBe('b');
+    });
+
+    it('should swap the source process-wide', () => {
+      setRandomSource(sequenceSource([0x01020304]));
+      expect(Array.from(randomBytes(4))).toEqual([4, 3, 2, 1]);
+      setRandomSource();
+      expect(randomBytes(32)).not.toEqual(randomBytes(32));
+    });
+
+    it('should generate RFC 4122 version 4 UUIDs', () => {
+      expect(generateUUID()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+  });
+
+  describe('seedable PRNGs', () => {
+    it('should match the PCG32 reference output', () => {
+      const rng = createPcg32(42, 54);
+      expect([rng.nextUint32(), rng.nextUint32(), rng.nextUint32()]).toEqual([0xa15c02b7, 0x7b47f409, 0xba1d3330]);
+    });
+
+    it('should be reproducible for the same seed', () => {
+      for (const algorithm of ['xoshiro128**', 'mulberry32', 'pcg32'] as const) {
+        const a = createPrng('fixture', algorithm);
+        const b = createPrng('fixture', algorithm);
+        expect([a.next(), a.int(1, 100), a.float(5, 6)]).toEqual([b.next(), b.int(1, 100), b.float(5, 6)]);
+        expect(a.shuffle([1, 2, 3, 4, 5])).toEqual(b.shuffle([1, 2, 3, 4, 5]));
+        expect(a.pick(['x', 'y', 'z'])).toBe(b.pick(['x', 'y', 'z']));
+      }
+    });
+
+    it('should fork independent generators deterministically', () => {
+      const a = createXoshiro128(7).fork();
+      const b = createXoshiro128(7).fork();
+      expect(a.nextUint32()).toBe(b.nextUint32());
+      expect(createXoshiro128(7).nextUint32()).not.toBe(createXoshiro128(7).fork().nextUint32());
+    });
+
+    it('should drive module-level helpers inside a scope', () => {
+      const run = () => withRandomSource(createPrng(1), () => [randomInt(1, 1000), shuffle([1, 2, 3, 4, 5])]);
+      expect(run()).toEqual(run());
+    });
+
+    it('should validate arguments', () => {
+      const rng = createPrng(1);
+      expect(() => rng.pick([])).toThrow('Expected a non-empty array');
+      expect(() => rng.int(5, 1)).toThrow('min cannot be greater than max');
+      expect(() => createPrng(1.5)).toThrow(TypeError);
+    });
+  });
+
+  describe('UUIDs and IDs', () => {
+    it('should generate name-based v3 and v5 UUIDs', () => {
+      expect(generateUUIDv3(UUID_NAMESPACES.DNS, 'www.example.com')).toBe('5df41881-3aed-3515-88a7-2f4a814cf09e');
+      expect(generateUUIDv5(UUID_NAMESPACES.DNS, 'www.example.com')).toBe('2ed6657d-e927-568b-95e1-2665a8aea6a2');
+      expect(() => generateUUIDv5('not-a-uuid', 'x')).toThrow('Namespace must be a valid UUID');
+    });
+
+    it('should embed the timestamp in v1 and v7 UUIDs', () => {
+      const timestamp = new Date('2024-05-01T12:00:00.000Z');
+      expect(parseUUID(generateUUIDv1({ timestamp }))).toMatchObject({ version: 1, variant: 'RFC9562', timestamp });
+      expect(parseUUID(generateUUIDv7({ timestamp }))).toEqual({ version: 7, variant: 'RFC9562', timestamp });
+    });
+
+    it('should reject timestamps beyond 48 bits', () => {
+      expect(parseUUID(generateUUIDv7({ timestamp: 0xffffffffffff }))?.timestamp?.getTime()).toBe(0xffffffffffff);
+      expect(() => generateUUIDv7({ timestamp: 2 ** 49 })).toThrow('Timestamp exceeds the UUID v7 range');
+      expect(() => generateULID({ timestamp: 2 ** 48 })).toThrow('Timestamp exceeds the ULID range');
+    });
+
+    it('should keep v7 UUIDs and ULIDs monotonic within a millisecond', () => {
+      const uuids = Array.from({ length: 500 }, () => generateUUIDv7({ timestamp: 1700000000000 }));
+      expect([...uuids].sort()).toEqual(uuids);
+      const ulids = Array.from({ length: 500 }, () => generateULID({ timestamp: 1700000000000 }));
+      expect([...ulids].sort()).toEqual(ulids);
+      expect(new Set(ulids).size).toBe(500);
+    });
+
+    it('should encode the ULID timestamp in Crockford base32', () => {
+      expect(generateULID({ timestamp: 1469918176385 })).toMatch(/^01ARYZ6S41[0-9A-HJKMNP-TV-Z]{16}$/);
+    });
+
+    it('should generate nanoid-style IDs with custom alphabets', () => {
+      expect(generateNanoId()).toMatch(/^[A-Za-z0-9_-]{21}$/);
+      expect(generateNanoId(10, 'ab')).toMatch(/^[ab]{10}$/);
+    });
+
+    it('should parse v6 UUIDs and reject invalid input', () => {
+      expect(parseUUID('1ec9414c-232a-6b00-b3c8-9f6bdeced846')).toEqual({
+        version: 6,
+        variant: 'RFC9562',
+        timestamp: new Date('2022-02-22T19:22:22.000Z'),
+        clockSeq: 0x33c8,
+        node: '9f6bdeced846'
+      });
+      expect(parseUUID('not-a-uuid')).toBeNull();
+    });
+
+    it('should be accepted by isValidUUID for every version', () => {
+      expect(isValidUUID(generateUUIDv1())).toBe(true);
+      expect(isValidUUID(generateUUIDv7())).toBe(true);
+      expect(isValidUUID('1ec9414c-232a-6b00-b3c8-9f6bdeced846')).toBe(true);
+      expect(isValidUUID('320c3d4d-cc00-875b-8ec9-32d5f69181c0')).toBe(true);
+      expect(isValidUUID('00000000-0000-0000-0000-000000000000')).toBe(true);
+      expect(isValidUUID('1ec9414c-232a-9b00-b3c8-9f6bdeced846')).toBe(false);
+    });
+  });
+
+  describe('JWT', () => {
+    const issuedAt = 1700000000;
+
+    it('should verify tokens signed by other implementations', async () => {
+      // Signed with HS256 and the secret 'your-256-bit-secret'
+      const token = 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.' +
+        'eyJzdWIiOiIxMjM0NTY3ODkwIiwibmFtZSI6IkpvaG4gRG9lIiwiaWF0IjoxNTE2MjM5MDIyfQ.' +
+        'SflKxwRJSMeKKF2QT4fwpMeJf36POk6yJV_adQssw5c';
+      const result = await verifyJwt(token, 'your-256-bit-secret');
+      expect(result).toEqual({
+        ok: true,
+        header: { alg: 'HS256', typ: 'JWT' },
+        claims: { sub: '1234567890', name: 'John Doe', iat: 1516239022 }
+      });
+    });
+
+    it('should round-trip registered claims', async () => {
+      const token = await signJwt({ role: 'admin' }, 'secret', {
+        algorithm: 'HS512',
+        expiresIn: 60,
+        issuer: 'auth',
+        audience: 'api',
+        timestamp: issuedAt * 1000
+      });
+      expect(decodeJwt(token).claims).toEqual({ iat: issuedAt, exp: issuedAt + 60, iss: 'auth', aud: 'api', role: 'admin' });
+      const result = await verifyJwt<{ role: string }>(token, 'secret', {
+        algorithms: ['HS512'],
+        issuer: 'auth',
+        audience: 'api',
+        currentTime: issuedAt * 1000
+      });
+      expect(result.ok && result.claims.role).toBe('admin');
+    });
+
+    it('should report which check failed', async () => {
+      const token = await signJwt({}, 'secret', { expiresIn: 60, notBefore: 10, issuer: 'auth', timestamp: issuedAt * 1000 });
+      const verify = async (options: Parameters<typeof verifyJwt>[2], key = 'secret') => {
+        const result = await verifyJwt(token, key, { currentTime: (issuedAt + 30) * 1000, ...options });
+        return result.ok ? 'ok' : result.error.code;
+      };
+
+      expect(await verify({})).toBe('ok');
+      expect(await verify({}, 'other')).toBe('invalid_signature');
+      expect(await verify({ algorithms: ['HS384'] })).toBe('algorithm_not_allowed');
+      expect(await verify({ currentTime: (issuedAt + 60) * 1000 })).toBe('expired');
+      expect(await verify({ currentTime: (issuedAt + 60) * 1000, clockTolerance: 5 })).toBe('ok');
+      expect(await verify({ currentTime: (issuedAt + 5) * 1000 })).toBe('not_yet_valid');
+      expect(await verify({ issuer: 'other' })).toBe('invalid_issuer');
+      expect(await verify({ audience: 'api' })).toBe('invalid_audience');
+      expect(await verify({ maxAge: 10 })).toBe('max_age_exceeded');
+      expect(await verify({ requiredClaims: ['sub'] })).toBe('missing_claim');
+      expect((await verifyJwt('not.a.jwt', 'secret')).ok).toBe(false);
+    });
+
+    it('should sign and verify ES256 with Web Crypto keys', async () => {
+      const { subtle } = globalThis.crypto;
+      const keys = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+      const token = await signJwt({ sub: 'device' }, keys.privateKey, { algorithm: 'ES256' });
+      expect((await verifyJwt(token, keys.publicKey, { algorithms: ['ES256'] })).ok).toBe(true);
+
+      const jwk = await subtle.exportKey('jwk', keys.publicKey);
+      expect((await verifyJwt(token, jwk, { algorithms: ['ES256'] })).ok).toBe(true);
+    });
+
+    it('should reject HS256 tokens forged with an RSA public key as the secret', async () => {
+      const { subtle } = globalThis.crypto;
+      const keys = await subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+      );
+      const spki = encodeBase64(new Uint8Array(await subtle.exportKey('spki', keys.publicKey)));
+      const publicPem = `-----BEGIN PUBLIC KEY-----\n${spki.match(/.{1,64}/g)!.join('\n')}\n-----END PUBLIC KEY-----\n`;
+
+      const header = encodeBase64Url(new TextEncoder().encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+      const payload = encodeBase64Url(new TextEncoder().encode(JSON.stringify({ sub: 'admin' })));
+      const forged = `${header}.${payload}.${encodeBase64Url(hmac('sha256', publicPem, `${header}.${payload}`, 'bytes'))}`;
+      const result = await verifyJwt(forged, publicPem, { algorithms: ['HS256', 'RS256'] });
+      expect(result.ok ? 'ok' : result.error.code).toBe('algorithm_not_allowed');
+
+      await expect(signJwt({}, publicPem)).rejects.toThrow('HS256 requires a string or Uint8Array secret');
+      const rsToken = await signJwt({ sub: 'admin' }, keys.privateKey, { algorithm: 'RS256' });
+      expect((await verifyJwt(rsToken, publicPem, { algorithms: ['HS256', 'RS256'] })).ok).toBe(true);
+      const withSecret = await verifyJwt(rsToken, 'secret', { algorithms: ['RS256'] });
+      expect(withSecret.ok ? 'ok' : withSecret.error.code).toBe('algorithm_not_allowed');
+    });
+
+    it('should report unusable keys instead of throwing', async () => {
+      const { subtle } = globalThis.crypto;
+      const p256 = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+      const p384 = await subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-384' }, true, ['sign', 'verify']);
+      const token = await signJwt({}, p256.privateKey, { algorithm: 'ES256' });
+      const code = async (key: Parameters<typeof verifyJwt>[1]) => {
+        const result = await verifyJwt(token, key, { algorithms: ['ES256'] });
+        return result.ok ? 'ok' : result.error.code;
+      };
+      expect(await code(await subtle.exportKey('jwk', p384.publicKey))).toBe('invalid_key');
+      expect(await code('-----BEGIN PUBLIC KEY-----\nbm90IGEga2V5\n-----END PUBLIC KEY-----')).toBe('invalid_key');
+      expect(await code({ kty: 'EC', crv: 'P-256', x: 'AA', y: 'AA' })).toBe('invalid_key');
+    });
+  });
+
+  describe('encrypt / decrypt', () => {
+    it('should round-trip strings and bytes with associated data', async () => {
+      const key = generateEncryptionKey();
+      const envelope = await encrypt('héllo ✓', key, { associatedData: 'user-42' });
+      expect(envelope).toMatch(/^v1\.[A-Za-z0-9_-]{16}\.[A-Za-z0-9_-]+$/);
+      expect(await decrypt(envelope, key, { associatedData: 'user-42' })).toBe('héllo ✓');
+
+      const bytes = await decrypt(await encrypt(new Uint8Array([1, 2, 3]), key), key, { encoding: 'bytes' });
+      expect(Array.from(bytes)).toEqual([1, 2, 3]);
+    });
+
+    it('should use a fresh nonce for every message', async () => {
+      const key = generateEncryptionKey();
+      expect(await encrypt('same', key)).not.toBe(await encrypt('same', key));
+    });
+
+    it('should reject tampering, wrong keys and wrong associated data', async () => {
+      const key = generateEncryptionKey();
+      const envelope = await encrypt('secret', key, { associatedData: 'a' });
+      const failure = 'Decryption failed: wrong key, associated data or tampered envelope';
+      await expect(decrypt(envelope, key, { associatedData: 'b' })).rejects.toThrow(failure);
+      await expect(decrypt(envelope, generateEncryptionKey(), { associatedData: 'a' })).rejects.toThrow(failure);
+      await expect(decrypt(envelope.slice(0, -2) + 'AA', key, { associatedData: 'a' })).rejects.toThrow(failure);
+      await expect(decrypt('v2.abc.def', key)).rejects.toThrow('Invalid encryption envelope');
+    });
+
+    it('should encrypt with a passphrase', async () => {
+      const envelope = await encrypt('secret', 'correct horse', { iterations: 1000 });
+      expect(envelope.startsWith('v1p.1000.')).toBe(true);
+      expect(await decrypt(envelope, 'correct horse')).toBe('secret');
+      await expect(decrypt(envelope, 'wrong horse')).rejects.toThrow('Decryption failed');
+    });
+
+    it('should refuse envelopes asking for excessive PBKDF2 work before deriving', async () => {
+      const [, , salt, nonce, ciphertext] = (await encrypt('secret', 'correct horse', { iterations: 1000 })).split('.');
+      const hostile = ['v1p', '99999999999', salt, nonce, ciphertext].join('.');
+      await expect(decrypt(hostile, 'correct horse')).rejects.toThrow('more than the allowed 6000000');
+      const envelope = await encrypt('secret', 'correct horse', { iterations: 2000 });
+      await expect(decrypt(envelope, 'correct horse', { maxIterations: 1000 })).rejects.toThrow('PBKDF2 iterations');
+    });
+
+    it('should derive keys with PBKDF2-HMAC-SHA-256', async () => {
+      const key = await deriveKey('password', 'salt', { iterations: 1 });
+      expect(Buffer.from(key).toString('hex')).toBe('120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b');
+    });
+  });
+
+  describe('password hashing', () => {
+    it('should derive scrypt keys matching RFC 7914', async () => {
+      const key = await scrypt('password', 'NaCl', { N: 1024, r: 8, p: 16, keyLength: 64 });
+      expect(Buffer.from(key).toString('hex')).toBe(
+        'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b3731622eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640'
+      );
+    });
+
+    it('should hash and verify passwords in PHC format', async () => {
+      const pbkdf2Hash = await hashPassword('hunter2', { iterations: 1000 });
+      expect(pbkdf2Hash).toMatch(/^\$pbkdf2-sha256\$i=1000\$[A-Za-z0-9+/]{22}\$[A-Za-z0-9+/]{43}$/);
+      expect(await verifyPassword('hunter2', pbkdf2Hash)).toBe(true);
+      expect(await verifyPassword('hunter3', pbkdf2Hash)).toBe(false);
+
+      const scryptHash = await hashPassword('hunter2', { algorithm: 'scrypt', cost: 4, blockSize: 1 });
+      expect(scryptHash.startsWith('$scrypt$ln=4,r=1,p=1$')).toBe(true);
+      expect(await verifyPassword('hunter2', scryptHash)).toBe(true);
+      expect(await verifyPassword('hunter2', '$md5$x$y')).toBe(false);
+    });
+
+    it('should reject short salts and costly stored parameters', async () => {
+      await expect(hashPassword('hunter2', { iterations: 1000, saltLength: 0 })).rejects.toThrow('Salt length must be an integer of at least 8 bytes');
+      const stored = await hashPassword('hunter2', { iterations: 1000 });
+      const tampered = stored.replace('i=1000', 'i=4000000000');
+      expect(await verifyPassword('hunter2', tampered)).toBe(false);
+      expect(await verifyPassword('hunter2', stored, { maxIterations: 999 })).toBe(false);
+      const scryptHash = await hashPassword('hunter2', { algorithm: 'scrypt', cost: 4, blockSize: 1, parallelism: 2 });
+      expect(await verifyPassword('hunter2', scryptHash.replace('p=2', 'p=1000000'))).toBe(false);
+      expect(await verifyPassword('hunter2', scryptHash, { maxParallelism: 1 })).toBe(false);
+      expect(await verifyPassword('hunter2', scryptHash)).toBe(true);
+    });
+
+    it('should flag hashes that need rehashing', async () => {
+      const stored = await hashPassword('hunter2', { iterations: 1000 });
+      expect(needsRehash(stored, { iterations: 1000 })).toBe(false);
+      expect(needsRehash(stored, { iterations: 2000 })).toBe(true);
+      expect(needsRehash(stored, { algorithm: 'scrypt' })).toBe(true);
+      expect(needsRehash('not a hash')).toBe(true);
+    });
+  });
+
+
+  describe('encodings', () => {
+    const text = (bytes: Uint8Array) => Buffer.from(bytes).toString();
+
+    it('should round-trip UTF-8 text through toBase64/fromBase64', () => {
+      expect(toBase64('héllo ✓')).toBe('aMOpbGxvIOKckw==');
+      expect(fromBase64('aMOpbGxvIOKckw==')).toBe('héllo ✓');
+    });
+
+    it('should encode base64 and base64url with optional padding', () => {
+      expect(encodeBase64('foob')).toBe('Zm9vYg==');
+      expect(encodeBase64('foob', { padding: false })).toBe('Zm9vYg');
+      expect(encodeBase64Url(new Uint8Array([251, 255]))).toBe('-_8');
+      expect(text(decodeBase64('Zm9vYg'))).toBe('foob');
+      expect(Array.from(decodeBase64Url('-_8='))).toEqual([251, 255]);
+    });
+
+    it('should encode the base32 variants', () => {
+      expect(encodeBase32Hex('foobar')).toBe('CPNMUOJ1E8======');
+      expect(encodeCrockfordBase32('foobar')).toBe('CSQPYRK1E8');
+      expect(text(decodeCrockfordBase32('csqp-yrkl-e8'))).toBe('foobar');
+    });
+
+    it('should encode base58, hex and ascii85', () => {
+      expect(encodeBase58('hello world')).toBe('StV1DL6CwTryKyV');
+      expect(encodeBase58(new Uint8Array([0, 0, 1]))).toBe('112');
+      expect(Array.from(decodeBase58('112'))).toEqual([0, 0, 1]);
+      expect(encodeHex(new Uint8Array([222, 173, 190, 239]))).toBe('deadbeef');
+      expect(Array.from(decodeHex('DEADbeef'))).toEqual([222, 173, 190, 239]);
+      expect(encodeAscii85('hello', { delimiters: true })).toBe('<~BOu!rDZ~>');
+      expect(encodeAscii85(new Uint8Array(4))).toBe('z');
+      expect(text(decodeAscii85('<~BOu!rDZ~>'))).toBe('hello');
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => decodeBase64('Zm9vYg=')).toThrow('Invalid base64 string');
+      expect(() => decodeBase64('Zm9vYh==')).toThrow('Invalid base64 string');
+      expect(() => decodeBase64('Zm9v Yg==')).toThrow('Invalid base64 string');
+      expect(() => decodeBase64Url('Zm9v+g')).toThrow('Invalid base64url string');
+      expect(() => decodeHex('abc')).toThrow('Invalid hex string');
+      expect(() => decodeBase58('0OIl')).toThrow('Invalid base58 string');
+      expect(() => decodeAscii85('s8W-"')).toThrow('Invalid ascii85 string');
+      expect(() => fromBase64('not base64!')).toThrow('Invalid base64 string');
+    });
+  });
+
+
+  describe('password generation', () => {
+    it('should guarantee every included class', () => {
+      for (let i = 0; i < 50; i++) {
+        const password = generatePassword({ length: 8 });
+        expect(password).toHaveLength(8);
+        expect(isValidPassword(password, { requireSpecialChars: true })).toBe(true);
+      }
+    });
+
+    it('should honour minimums and exclusions', () => {
+      const { password } = generatePasswordWithEntropy({ length: 10, minNumbers: 4, includeSymbols: false, excludeAmbiguous: true });
+      expect(password.replace(/\D/g, '').length).toBeGreaterThanOrEqual(4);
+      expect(password).not.toMatch(/[0O1lI|]/);
+      expect(() => generatePassword({ length: 4, minSymbols: 3 })).toThrow('Minimum character counts exceed the password length');
+      expect(() => generatePassword({ includeSymbols: false, minSymbols: 1 })).toThrow('Cannot require symbol characters');
+      // Every included class requires one character by default
+      expect(() => generatePassword({ length: 3 })).toThrow('Minimum character counts exceed the password length');
+    });
+
+    it('should generate long passwords quickly', () => {
+      const password = generatePassword({ length: 1000 });
+      expect(password).toHaveLength(1000);
+      expect(isValidPassword(password, { requireSpecialChars: true })).toBe(true);
+      const { password: numeric } = generatePasswordWithEntropy({ length: 256, minNumbers: 150 });
+      expect(numeric.replace(/\D/g, '').length).toBeGreaterThanOrEqual(150);
+    });
+
+    it('should bound the work a policy can ask for', () => {
+      expect(generatePassword({ length: MAX_PASSWORD_LENGTH })).toHaveLength(1024);
+      expect(() => generatePassword({ length: MAX_PASSWORD_LENGTH + 1 })).toThrow(RangeError);
+      expect(() => generatePassword({ length: 800, minNumbers: 400 })).toThrow('Minimum character counts are too large');
+      expect(() => generatePassword({ length: 2000, minNumbers: 1000 })).toThrow('Length must be at most 1024');
+    });
+
+    it('should report entropy for the constrained set', () => {
+      // 36^12 strings without constraints; requiring a digit and a letter removes 26^12 + 10^12
+      const { entropy } = generatePasswordWithEntropy({ length: 12, includeUppercase: false, includeSymbols: false });
+      expect(entropy).toBeCloseTo(Math.log2(36 ** 12 - 26 ** 12 - 10 ** 12), 2);
+    });
+
+    it('should generate passphrases from the embedded wordlist', () => {
+      expect(new Set(PASSPHRASE_WORDLIST).size).toBe(1296);
+      const { passphrase, words, entropy } = generatePassphrase({ words: 5, separator: ' ' });
+      expect(words).toHaveLength(5);
+      expect(passphrase).toBe(words.join(' '));
+      words.forEach(word => expect(PASSPHRASE_WORDLIST).toContain(word));
+      expect(entropy).toBeCloseTo(5 * Math.log2(1296), 2);
+      expect(generatePassphrase({ words: 3, capitalize: true, includeNumber: true }).passphrase).toMatch(/^([A-Z][a-z]+\d?-){2}[A-Z][a-z]+\d?$/);
+    });
+  });
+  describe('checksums', () => {
+    it('should match published test vectors', () => {
+      expect(crc32('123456789')).toBe(0xcbf43926);
+      expect(crc32c('123456789')).toBe(0xe3069283);
+      expect(adler32('Wikipedia')).toBe(0x11e60398);
+      expect(fnv1a32('foobar')).toBe(0xbf9cf968);
+      expect(fnv1a64('foobar')).toBe(0x85944171f73967e8n);
+      expect(xxhash32('Nobody inspects the spammish repetition')).toBe(0xe2293b2f);
+      expect(xxhash64('Nobody inspects the spammish repetition')).toBe(0xfbcea83c8a378bf1n);
+      expect(xxhash64('')).toBe(0xef46db3751d8e999n);
+    });
+
+    it('should produce the same result incrementally', () => {
+      const text = 'The quick brown fox jumps over the lazy dog, twice: the quick brown fox';
+      for (const algorithm of ['crc32', 'adler32', 'fnv1a64', 'xxhash32', 'xxhash64'] as const) {
+        const checksum = createChecksum(algorithm, { seed: 42 });
+        for (let i = 0; i < text.length; i += 5) {
+          checksum.update(text.slice(i, i + 5));
+        }
+        expect(checksum.digest('hex')).toBe(createChecksum(algorithm, { seed: 42 }).update(text).digest('hex'));
+      }
+    });
+
+    it('should zero-pad hex output', () => {
+      expect(createChecksum('crc32').update('').digest('hex')).toBe('00000000');
+      expect(createChecksum('adler32').update('').digest('hex')).toBe('00000001');
+    });
+  });
+
+  describe('sharding', () => {
+    const keys = Array.from({ length: 2000 }, (_, i) => `user:${i}`);
+    const countByNode = (map: { getNode(key: string): string | undefined }) => {
+      const counts: Record<string, number> = {};
+      keys.forEach(key => { const node = map.getNode(key)!; counts[node] = (counts[node] ?? 0) + 1; });
+      return counts;
+    };
+
+    it('should move only the keys claimed by a new ring node', () => {
+      const ring = createHashRing(['a', 'b', 'c']);
+      const next = ring.clone().addNode('d');
+      const movement = measureKeyMovement(keys, ring, next);
+      expect(movement.ratio).toBeGreaterThan(0.15);
+      expect(movement.ratio).toBeLessThan(0.35);
+      keys.forEach(key => {
+        if (ring.getNode(key) !== next.getNode(key)) expect(next.getNode(key)).toBe('d');
+      });
+      expect(measureKeyMovement(keys, key => `n${simpleHash(key) % 3}`, key => `n${simpleHash(key) % 4}`).ratio).toBeGreaterThan(0.6);
+    });
+
+    it('should spread ring keys according to weight', () => {
+      const ring = createHashRing(['a', { node: 'b', weight: 3 }]);
+      expect(ring.size).toBe(640);
+      const counts = countByNode(ring);
+      expect(counts['b']! / keys.length).toBeCloseTo(0.75, 1);
+      expect(ring.getNodes('user:1', 5).sort()).toEqual(['a', 'b']);
+      expect(ring.removeNode('b')).toBe(true);
+      expect(ring.getNode('user:1')).toBe('a');
+      expect(createHashRing().getNode('x')).toBeUndefined();
+    });
+
+    it('should assign keys with rendezvous hashing', () => {
+      const hrw = createRendezvousHash(['a', 'b', { node: 'c', weight: 2 }]);
+      const counts = countByNode(hrw);
+      expect(counts['c']! / keys.length).toBeCloseTo(0.5, 1);
+      expect(hrw.getNodes('user:7', 3)[0]).toBe(hrw.getNode('user:7'));
+
+      const smaller = hrw.clone();
+      smaller.removeNode('a');
+      keys.forEach(key => {
+        if (hrw.getNode(key) !== 'a') expect(smaller.getNode(key)).toBe(hrw.getNode(key));
+      });
+    });
+  });
+  describe('one-time passwords', () => {
+    const secret = encodeBase32('12345678901234567890');
+
+    it('should encode and decode base32', () => {
+      expect(encodeBase32('foobar')).toBe('MZXW6YTBOI======');
+      expect(encodeBase32('foobar', { padding: false })).toBe('MZXW6YTBOI');
+      expect(Buffer.from(decodeBase32('mzxw6ytboi')).toString()).toBe('foobar');
+      expect(() => decodeBase32('MZXW1')).toThrow('Invalid base32 string');
+      expect(generateOtpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+    });
+
+    it('should generate HOTP codes matching RFC 4226', () => {
+      const codes = [0, 1, 2, 3, 9].map(counter => generateHOTP(secret, counter));
+      expect(codes).toEqual(['755224', '287082', '359152', '969429', '520489']);
+    });
+
+    it('should generate TOTP codes matching RFC 6238', () => {
+      expect(generateTOTP(secret, { timestamp: 59000, digits: 8 })).toBe('94287082');
+      expect(generateTOTP(secret, { timestamp: 1111111109000, digits: 8 })).toBe('07081804');
+      const secret256 = encodeBase32('12345678901234567890123456789012');
+      expect(generateTOTP(secret256, { timestamp: 59000, digits: 8, algorithm: 'sha256' })).toBe('46119246');
+    });
+
+    it('should verify codes within the drift window', () => {
+      expect(verifyTOTP('94287082', secret, { timestamp: 89000, digits: 8 })).toEqual({ ok: true, counter: 1, delta: -1 });
+      expect(verifyTOTP('94287082', secret, { timestamp: 119000, digits: 8 })).toEqual({ ok: false });
+      expect(verifyHOTP('359152', secret, 0, { window: 2 })).toEqual({ ok: true, counter: 2, delta: 2 });
+      expect(verifyHOTP('359152', secret, 0)).toEqual({ ok: false });
+    });
+
+    it('should build otpauth URIs', () => {
+      expect(generateOtpAuthUri({ secret: 'JBSWY3DPEHPK3PXP', accountName: 'alice@example.com', issuer: 'Acme' }))
+        .toBe('otpauth://totp/Acme:alice%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Acme&algorithm=SHA1&digits=6&period=30');
+      expect(generateOtpAuthUri({ secret: 'JBSWY3DPEHPK3PXP', accountName: 'bob', type: 'hotp', counter: 3 }))
+        .toBe('otpauth://hotp/bob?secret=JBSWY3DPEHPK3PXP&algorithm=SHA1&digits=6&counter=3');
+    });
+  });
+});
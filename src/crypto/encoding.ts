@@ -0,0 +1,425 @@
+/**
+ * Binary-to-text encodings that operate on bytes and UTF-8 strings.
+ * Decoders are strict: they throw on characters outside the alphabet,
+ * impossible lengths, misplaced padding and non-zero trailing bits.
+ */
+
+import { BinaryLike, toBytes } from './bytes';
+
+interface BitCodec {
+  name: string;
+  alphabet: string;
+  /** Bits per character */
+  bits: number;
+  /** Characters per padded block, 0 if the encoding has no padding */
+  block: number;
+  lookup: Int16Array;
+}
+
+function buildLookup(alphabet: string, caseInsensitive: boolean): Int16Array {
+  const lookup = new Int16Array(128).fill(-1);
+  for (let i = 0; i < alphabet.length; i++) {
+    const char = alphabet.charAt(i);
+    lookup[char.charCodeAt(0)] = i;
+    if (caseInsensitive) {
+      lookup[char.toLowerCase().charCodeAt(0)] = i;
+      lookup[char.toUpperCase().charCodeAt(0)] = i;
+    }
+  }
+  return lookup;
+}
+
+function createCodec(name: string, alphabet: string, bits: number, block: number, caseInsensitive = false): BitCodec {
+  return { name, alphabet, bits, block, lookup: buildLookup(alphabet, caseInsensitive) };
+}
+
+const BASE64 = createCodec('base64', 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/', 6, 4);
+const BASE64URL = createCodec('base64url', 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_', 6, 4);
+const BASE32 = createCodec('base32', 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567', 5, 8, true);
+const BASE32HEX = createCodec('base32hex', '0123456789ABCDEFGHIJKLMNOPQRSTUV', 5, 8, true);
+const CROCKFORD = createCodec('Crockford base32', '0123456789ABCDEFGHJKMNPQRSTVWXYZ', 5, 0, true);
+const HEX = createCodec('hex', '0123456789abcdef', 4, 0, true);
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BASE58_LOOKUP = buildLookup(BASE58_ALPHABET, false);
+
+function encodeBits(data: BinaryLike, codec: BitCodec, padding: boolean): string {
+  const bytes = toBytes(data);
+  const mask = (1 << codec.bits) - 1;
+
+  let result = '';
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    buffer = (buffer << 8) | bytes[i]!;
+    bits += 8;
+    while (bits >= codec.bits) {
+      bits -= codec.bits;
+      result += codec.alphabet.charAt((buffer >> bits) & mask);
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    result += codec.alphabet.charAt((buffer << (codec.bits - bits)) & mask);
+  }
+  if (padding && codec.block > 0) {
+    result += '='.repeat((codec.block - (result.length % codec.block)) % codec.block);
+  }
+  return result;
+}
+
+function decodeBits(str: string, codec: BitCodec): Uint8Array {
+  if (typeof str !== 'string') {
+    throw new TypeError('Expected a string');
+  }
+  const invalid = () => new Error(`Invalid ${codec.name} string`);
+
+  let end = str.length;
+  if (codec.block > 0) {
+    while (end > 0 && str.charAt(end - 1) === '=') end--;
+  }
+  const paddingLength = str.length - end;
+  // A trailing group must carry at least one full byte
+  if ((end * codec.bits) % 8 >= codec.bits) {
+    throw invalid();
+  }
+  if (paddingLength > 0 && paddingLength !== (codec.block - (end % codec.block)) % codec.block) {
+    throw invalid();
+  }
+
+  const bytes = new Uint8Array(Math.floor(end * codec.bits / 8));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (let i = 0; i < end; i++) {
+    const code = str.charCodeAt(i);
+    const value = code < 128 ? codec.lookup[code]! : -1;
+    if (value < 0) {
+      throw invalid();
+    }
+    buffer = (buffer << codec.bits) | value;
+    bits += codec.bits;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (buffer !== 0) {
+    throw invalid();
+  }
+  return bytes;
+}
+
+/**
+ * Encodes data as base64 (RFC 4648 section 4)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @param options - Whether to append '=' padding (default: true)
+ * @returns Base64 string
+ * @example
+ * encodeBase64('héllo ✓') // 'aMOpbGxvIOKckw=='
+ */
+export function encodeBase64(data: BinaryLike, options: { padding?: boolean } = {}): string {
+  const { padding = true } = options;
+  return encodeBits(data, BASE64, padding);
+}
+
+/**
+ * Decodes a base64 string (padding optional)
+ * @param str - Base64 string without whitespace
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base64
+ * @example
+ * decodeBase64('aGVsbG8=') // Uint8Array [104, 101, 108, 108, 111]
+ */
+export function decodeBase64(str: string): Uint8Array {
+  return decodeBits(str, BASE64);
+}
+
+/**
+ * Encodes data as URL-safe base64 (RFC 4648 section 5)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @param options - Whether to append '=' padding (default: false)
+ * @returns Base64url string
+ * @example
+ * encodeBase64Url(new Uint8Array([251, 255])) // '-_8'
+ */
+export function encodeBase64Url(data: BinaryLike, options: { padding?: boolean } = {}): string {
+  const { padding = false } = options;
+  return encodeBits(data, BASE64URL, padding);
+}
+
+/**
+ * Decodes a URL-safe base64 string (padding optional)
+ * @param str - Base64url string
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base64url
+ * @example
+ * decodeBase64Url('-_8') // Uint8Array [251, 255]
+ */
+export function decodeBase64Url(str: string): Uint8Array {
+  return decodeBits(str, BASE64URL);
+}
+
+/**
+ * Encodes data as RFC 4648 base32
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @param options - Whether to append '=' padding (default: true)
+ * @returns Base32 string
+ * @example
+ * encodeBase32('foobar') // 'MZXW6YTBOI======'
+ * encodeBase32('foobar', { padding: false }) // 'MZXW6YTBOI'
+ */
+export function encodeBase32(data: BinaryLike, options: { padding?: boolean } = {}): string {
+  const { padding = true } = options;
+  return encodeBits(data, BASE32, padding);
+}
+
+/**
+ * Decodes an RFC 4648 base32 string (case-insensitive, padding optional)
+ * @param str - Base32 string
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base32
+ * @example
+ * decodeBase32('MZXW6YTBOI======') // Uint8Array of 'foobar'
+ */
+export function decodeBase32(str: string): Uint8Array {
+  return decodeBits(str, BASE32);
+}
+
+/**
+ * Encodes data as RFC 4648 base32hex, which preserves sort order
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @param options - Whether to append '=' padding (default: true)
+ * @returns Base32hex string
+ * @example
+ * encodeBase32Hex('foobar') // 'CPNMUOJ1E8======'
+ */
+export function encodeBase32Hex(data: BinaryLike, options: { padding?: boolean } = {}): string {
+  const { padding = true } = options;
+  return encodeBits(data, BASE32HEX, padding);
+}
+
+/**
+ * Decodes an RFC 4648 base32hex string (case-insensitive, padding optional)
+ * @param str - Base32hex string
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base32hex
+ * @example
+ * decodeBase32Hex('CPNMUOJ1E8======') // Uint8Array of 'foobar'
+ */
+export function decodeBase32Hex(str: string): Uint8Array {
+  return decodeBits(str, BASE32HEX);
+}
+
+/**
+ * Encodes data as Crockford base32 (no padding, no I/L/O/U)
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Uppercase Crockford base32 string
+ * @example
+ * encodeCrockfordBase32('foobar') // 'CSQPYRK1E8'
+ */
+export function encodeCrockfordBase32(data: BinaryLike): string {
+  return encodeBits(data, CROCKFORD, false);
+}
+
+/**
+ * Decodes Crockford base32, ignoring hyphens and case and reading O as 0 and I/L as 1
+ * @param str - Crockford base32 string
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid Crockford base32
+ * @example
+ * decodeCrockfordBase32('csqp-yrk1-e8') // Uint8Array of 'foobar'
+ */
+export function decodeCrockfordBase32(str: string): Uint8Array {
+  if (typeof str !== 'string') {
+    throw new TypeError('Expected a string');
+  }
+  return decodeBits(str.replace(/-/g, '').replace(/[oO]/g, '0').replace(/[iIlL]/g, '1'), CROCKFORD);
+}
+
+/**
+ * Encodes data as base58 with the Bitcoin alphabet; leading zero bytes become '1'
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Base58 string
+ * @example
+ * encodeBase58('hello world') // 'StV1DL6CwTryKyV'
+ */
+export function encodeBase58(data: BinaryLike): string {
+  const bytes = toBytes(data);
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  // Base-58 digits, least significant first
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i]!;
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j]! * 256;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let result = '1'.repeat(zeros);
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET.charAt(digits[i]!);
+  }
+  return result;
+}
+
+/**
+ * Decodes a base58 string (Bitcoin alphabet)
+ * @param str - Base58 string
+ * @returns Decoded bytes
+ * @throws Error if the input contains characters outside the alphabet
+ * @example
+ * decodeBase58('StV1DL6CwTryKyV') // Uint8Array of 'hello world'
+ */
+export function decodeBase58(str: string): Uint8Array {
+  if (typeof str !== 'string') {
+    throw new TypeError('Expected a string');
+  }
+  let zeros = 0;
+  while (zeros < str.length && str.charAt(zeros) === '1') zeros++;
+
+  // Byte values, least significant first
+  const bytes: number[] = [];
+  for (let i = zeros; i < str.length; i++) {
+    const code = str.charCodeAt(i);
+    let carry = code < 128 ? BASE58_LOOKUP[code]! : -1;
+    if (carry < 0) {
+      throw new Error('Invalid base58 string');
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j]! * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const result = new Uint8Array(zeros + bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    result[result.length - 1 - i] = bytes[i]!;
+  }
+  return result;
+}
+
+/**
+ * Encodes data as lowercase hex
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @returns Hex string
+ * @example
+ * encodeHex(new Uint8Array([222, 173, 190, 239])) // 'deadbeef'
+ */
+export function encodeHex(data: BinaryLike): string {
+  return encodeBits(data, HEX, false);
+}
+
+/**
+ * Decodes a hex string (case-insensitive, even length)
+ * @param str - Hex string without prefix or separators
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid hex
+ * @example
+ * decodeHex('DEADbeef') // Uint8Array [222, 173, 190, 239]
+ */
+export function decodeHex(str: string): Uint8Array {
+  return decodeBits(str, HEX);
+}
+
+/**
+ * Encodes data as Ascii85, abbreviating all-zero groups as 'z'
+ * @param data - Bytes or string (UTF-8 encoded)
+ * @param options - Whether to wrap the output in '<~' and '~>' (default: false)
+ * @returns Ascii85 string
+ * @example
+ * encodeAscii85('hello') // 'BOu!rDZ'
+ * encodeAscii85('hello', { delimiters: true }) // '<~BOu!rDZ~>'
+ */
+export function encodeAscii85(data: BinaryLike, options: { delimiters?: boolean } = {}): string {
+  const { delimiters = false } = options;
+  const bytes = toBytes(data);
+
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 4) {
+    const length = Math.min(4, bytes.length - i);
+    let value = 0;
+    for (let j = 0; j < 4; j++) {
+      value = value * 256 + (j < length ? bytes[i + j]! : 0);
+    }
+    if (value === 0 && length === 4) {
+      result += 'z';
+      continue;
+    }
+
+    let group = '';
+    for (let j = 0; j < 5; j++) {
+      group = String.fromCharCode(33 + (value % 85)) + group;
+      value = Math.floor(value / 85);
+    }
+    result += group.slice(0, length + 1);
+  }
+  return delimiters ? `<~${result}~>` : result;
+}
+
+/**
+ * Decodes Ascii85, with or without '<~' '~>' delimiters; whitespace is ignored
+ * @param str - Ascii85 string
+ * @returns Decoded bytes
+ * @throws Error if the input has characters outside '!'..'u', a misplaced 'z',
+ *   a group that overflows 32 bits or a single-character final group
+ * @example
+ * decodeAscii85('<~BOu!rDZ~>') // Uint8Array of 'hello'
+ */
+export function decodeAscii85(str: string): Uint8Array {
+  if (typeof str !== 'string') {
+    throw new TypeError('Expected a string');
+  }
+  const invalid = () => new Error('Invalid ascii85 string');
+
+  let body = str.replace(/\s+/g, '');
+  if (body.startsWith('<~')) {
+    if (!body.endsWith('~>')) throw invalid();
+    body = body.slice(2, -2);
+  }
+
+  const output: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    let value = 0;
+    for (let j = 0; j < 5; j++) {
+      value = value * 85 + (j < group.length ? group[j]! : 84);
+    }
+    if (value > 0xffffffff) throw invalid();
+    for (let j = 0; j < count; j++) {
+      output.push(Math.floor(value / 256 ** (3 - j)) & 0xff);
+    }
+    group = [];
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const code = body.charCodeAt(i);
+    if (code === 0x7a) {
+      if (group.length > 0) throw invalid();
+      output.push(0, 0, 0, 0);
+    } else if (code >= 33 && code <= 117) {
+      group.push(code - 33);
+      if (group.length === 5) flush(4);
+    } else {
+      throw invalid();
+    }
+  }
+  if (group.length === 1) throw invalid();
+  if (group.length > 0) flush(group.length - 1);
+
+  return new Uint8Array(output);
+}
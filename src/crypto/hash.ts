@@ -0,0 +1,540 @@
+/**
+ * Cryptographic digests (SHA-1, SHA-256, SHA-384, SHA-512, MD5) implemented in pure
+ * TypeScript so they produce identical results in Node and browsers
+ */
+
+import { BinaryLike, toBytes } from './bytes';
+import { encodeBase64, encodeBase64Url, encodeHex } from './encoding';
+
+/**
+ * Supported digest algorithms
+ */
+export type HashAlgorithm = 'sha1' | 'sha256' | 'sha384' | 'sha512' | 'md5';
+
+/**
+ * Output encodings for digests
+ */
+export type DigestEncoding = 'hex' | 'base64' | 'base64url' | 'bytes';
+
+/**
+ * Digest output type for a given encoding
+ */
+export type DigestOutput<E extends DigestEncoding> = E extends 'bytes' ? Uint8Array : string;
+
+/**
+ * Incremental hash returned by createHash
+ */
+export interface Hash {
+  update(data: BinaryLike): Hash;
+  digest<E extends DigestEncoding = 'hex'>(encoding?: E): DigestOutput<E>;
+}
+
+/**
+ * Block-level description of a Merkle-Damgard hash function
+ */
+export interface HashSpec {
+  blockSize: number;
+  outputSize: number;
+  lengthSize: number;
+  littleEndian: boolean;
+  init(): Uint32Array;
+  compress(state: Uint32Array, block: DataView): void;
+}
+
+const K256 = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const K512 = new Uint32Array([
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc,
+  0x3956c25b, 0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118,
+  0xd807aa98, 0xa3030242, 0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2,
+  0x72be5d74, 0xf27b896f, 0x80deb1fe, 0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694,
+  0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3, 0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65,
+  0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc, 0xbd41fbd4, 0x76f988da, 0x831153b5,
+  0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f, 0xbf597fc7, 0xbeef0ee4,
+  0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967, 0x0a0e6e70,
+  0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b,
+  0xa2bfe8a1, 0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30,
+  0xd192e819, 0xd6ef5218, 0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8,
+  0x19a4c116, 0xb8d2d0c8, 0x1e376c08, 0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8,
+  0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb, 0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3,
+  0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814, 0xa1f0ab72, 0x8cc70208, 0x1a6439ec,
+  0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915, 0xc67178f2, 0xe372532b,
+  0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f, 0xee6ed178,
+  0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c,
+  0x4cc5d4be, 0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817
+]);
+
+const MD5_K = new Uint32Array([
+  0xd76aa478, 0xe8c7b756, 0x242070db, 0xc1bdceee, 0xf57c0faf, 0x4787c62a, 0xa8304613, 0xfd469501,
+  0x698098d8, 0x8b44f7af, 0xffff5bb1, 0x895cd7be, 0x6b901122, 0xfd987193, 0xa679438e, 0x49b40821,
+  0xf61e2562, 0xc040b340, 0x265e5a51, 0xe9b6c7aa, 0xd62f105d, 0x02441453, 0xd8a1e681, 0xe7d3fbc8,
+  0x21e1cde6, 0xc33707d6, 0xf4d50d87, 0x455a14ed, 0xa9e3e905, 0xfcefa3f8, 0x676f02d9, 0x8d2a4c8a,
+  0xfffa3942, 0x8771f681, 0x6d9d6122, 0xfde5380c, 0xa4beea44, 0x4bdecfa9, 0xf6bb4b60, 0xbebfbc70,
+  0x289b7ec6, 0xeaa127fa, 0xd4ef3085, 0x04881d05, 0xd9d4d039, 0xe6db99e5, 0x1fa27cf8, 0xc4ac5665,
+  0xf4292244, 0x432aff97, 0xab9423a7, 0xfc93a039, 0x655b59c3, 0x8f0ccc92, 0xffeff47d, 0x85845dd1,
+  0x6fa87e4f, 0xfe2ce6e0, 0xa3014314, 0x4e0811a1, 0xf7537e82, 0xbd3af235, 0x2ad7d2bb, 0xeb86d391
+]);
+
+const MD5_S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const W32 = new Uint32Array(80);
+const W64 = new Uint32Array(160);
+
+function rotl(x: number, n: number): number {
+  return (x << n) | (x >>> (32 - n));
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+// 64-bit rotate/shift helpers operating on (hi, lo) 32-bit halves
+function rotrHi(hi: number, lo: number, n: number): number {
+  return n < 32 ? (hi >>> n) | (lo << (32 - n)) : (lo >>> (n - 32)) | (hi << (64 - n));
+}
+
+function rotrLo(hi: number, lo: number, n: number): number {
+  return n < 32 ? (lo >>> n) | (hi << (32 - n)) : (hi >>> (n - 32)) | (lo << (64 - n));
+}
+
+function shrLo(hi: number, lo: number, n: number): number {
+  return (lo >>> n) | (hi << (32 - n));
+}
+
+const SHA1: HashSpec = {
+  blockSize: 64,
+  outputSize: 20,
+  lengthSize: 8,
+  littleEndian: false,
+  init: () => new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]),
+  compress(state, block) {
+    const w = W32;
+    for (let i = 0; i < 16; i++) {
+      w[i] = block.getUint32(i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      w[i] = rotl(w[i - 3]! ^ w[i - 8]! ^ w[i - 14]! ^ w[i - 16]!, 1);
+    }
+
+    let a = state[0]!, b = state[1]!, c = state[2]!, d = state[3]!, e = state[4]!;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+      const temp = (rotl(a, 5) + f + e + k + w[i]!) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = temp;
+    }
+
+    state[0] = state[0]! + a;
+    state[1] = state[1]! + b;
+    state[2] = state[2]! + c;
+    state[3] = state[3]! + d;
+    state[4] = state[4]! + e;
+  }
+};
+
+const SHA256: HashSpec = {
+  blockSize: 64,
+  outputSize: 32,
+  lengthSize: 8,
+  littleEndian: false,
+  init: () => new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]),
+  compress(state, block) {
+    const w = W32;
+    for (let i = 0; i < 16; i++) {
+      w[i] = block.getUint32(i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15]!;
+      const w2 = w[i - 2]!;
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      w[i] = w[i - 16]! + s0 + w[i - 7]! + s1;
+    }
+
+    let a = state[0]!, b = state[1]!, c = state[2]!, d = state[3]!;
+    let e = state[4]!, f = state[5]!, g = state[6]!, h = state[7]!;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + K256[i]! + w[i]!) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] = state[0]! + a;
+    state[1] = state[1]! + b;
+    state[2] = state[2]! + c;
+    state[3] = state[3]! + d;
+    state[4] = state[4]! + e;
+    state[5] = state[5]! + f;
+    state[6] = state[6]! + g;
+    state[7] = state[7]! + h;
+  }
+};
+
+function compress512(state: Uint32Array, block: DataView): void {
+  const w = W64;
+  for (let i = 0; i < 32; i++) {
+    w[i] = block.getUint32(i * 4);
+  }
+  for (let i = 16; i < 80; i++) {
+    const h15 = w[(i - 15) * 2]!, l15 = w[(i - 15) * 2 + 1]!;
+    const h2 = w[(i - 2) * 2]!, l2 = w[(i - 2) * 2 + 1]!;
+    const s0h = rotrHi(h15, l15, 1) ^ rotrHi(h15, l15, 8) ^ (h15 >>> 7);
+    const s0l = rotrLo(h15, l15, 1) ^ rotrLo(h15, l15, 8) ^ shrLo(h15, l15, 7);
+    const s1h = rotrHi(h2, l2, 19) ^ rotrHi(h2, l2, 61) ^ (h2 >>> 6);
+    const s1l = rotrLo(h2, l2, 19) ^ rotrLo(h2, l2, 61) ^ shrLo(h2, l2, 6);
+
+    const lo = (s0l >>> 0) + (s1l >>> 0) + w[(i - 7) * 2 + 1]! + w[(i - 16) * 2 + 1]!;
+    w[i * 2] = s0h + s1h + w[(i - 7) * 2]! + w[(i - 16) * 2]! + Math.floor(lo / 0x100000000);
+    w[i * 2 + 1] = lo;
+  }
+
+  let ah = state[0]!, al = state[1]!, bh = state[2]!, bl = state[3]!;
+  let ch = state[4]!, cl = state[5]!, dh = state[6]!, dl = state[7]!;
+  let eh = state[8]!, el = state[9]!, fh = state[10]!, fl = state[11]!;
+  let gh = state[12]!, gl = state[13]!, hh = state[14]!, hl = state[15]!;
+
+  for (let i = 0; i < 80; i++) {
+    const sig1h = rotrHi(eh, el, 14) ^ rotrHi(eh, el, 18) ^ rotrHi(eh, el, 41);
+    const sig1l = rotrLo(eh, el, 14) ^ rotrLo(eh, el, 18) ^ rotrLo(eh, el, 41);
+    const chh = (eh & fh) ^ (~eh & gh);
+    const chl = (el & fl) ^ (~el & gl);
+
+    const t1l = hl + (sig1l >>> 0) + (chl >>> 0) + K512[i * 2 + 1]! + w[i * 2 + 1]!;
+    const t1h = hh + sig1h + chh + K512[i * 2]! + w[i * 2]! + Math.floor(t1l / 0x100000000);
+
+    const sig0h = rotrHi(ah, al, 28) ^ rotrHi(ah, al, 34) ^ rotrHi(ah, al, 39);
+    const sig0l = rotrLo(ah, al, 28) ^ rotrLo(ah, al, 34) ^ rotrLo(ah, al, 39);
+    const majh = (ah & bh) ^ (ah & ch) ^ (bh & ch);
+    const majl = (al & bl) ^ (al & cl) ^ (bl & cl);
+
+    const t2l = (sig0l >>> 0) + (majl >>> 0);
+    const t2h = sig0h + majh + Math.floor(t2l / 0x100000000);
+
+    hh = gh;
+    hl = gl;
+    gh = fh;
+    gl = fl;
+    fh = eh;
+    fl = el;
+    const el2 = dl + (t1l >>> 0);
+    eh = (dh + t1h + Math.floor(el2 / 0x100000000)) >>> 0;
+    el = el2 >>> 0;
+    dh = ch;
+    dl = cl;
+    ch = bh;
+    cl = bl;
+    bh = ah;
+    bl = al;
+    const al2 = (t1l >>> 0) + (t2l >>> 0);
+    ah = (t1h + t2h + Math.floor(al2 / 0x100000000)) >>> 0;
+    al = al2 >>> 0;
+  }
+
+  const add = (index: number, hi: number, lo: number) => {
+    const sum = state[index + 1]! + lo;
+    state[index] = state[index]! + hi + Math.floor(sum / 0x100000000);
+    state[index + 1] = sum;
+  };
+  add(0, ah, al);
+  add(2, bh, bl);
+  add(4, ch, cl);
+  add(6, dh, dl);
+  add(8, eh, el);
+  add(10, fh, fl);
+  add(12, gh, gl);
+  add(14, hh, hl);
+}
+
+const SHA512: HashSpec = {
+  blockSize: 128,
+  outputSize: 64,
+  lengthSize: 16,
+  littleEndian: false,
+  init: () => new Uint32Array([
+    0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b, 0xa54ff53a, 0x5f1d36f1,
+    0x510e527f, 0xade682d1, 0x9b05688c, 0x2b3e6c1f, 0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179
+  ]),
+  compress: compress512
+};
+
+const SHA384: HashSpec = {
+  blockSize: 128,
+  outputSize: 48,
+  lengthSize: 16,
+  littleEndian: false,
+  init: () => new Uint32Array([
+    0xcbbb9d5d, 0xc1059ed8, 0x629a292a, 0x367cd507, 0x9159015a, 0x3070dd17, 0x152fecd8, 0xf70e5939,
+    0x67332667, 0xffc00b31, 0x8eb44a87, 0x68581511, 0xdb0c2e0d, 0x64f98fa7, 0x47b5481d, 0xbefa4fa4
+  ]),
+  compress: compress512
+};
+
+const MD5: HashSpec = {
+  blockSize: 64,
+  outputSize: 16,
+  lengthSize: 8,
+  littleEndian: true,
+  init: () => new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]),
+  compress(state, block) {
+    const m = W32;
+    for (let i = 0; i < 16; i++) {
+      m[i] = block.getUint32(i * 4, true);
+    }
+
+    let a = state[0]!, b = state[1]!, c = state[2]!, d = state[3]!;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const temp = d;
+      d = c;
+      c = b;
+      b = (b + rotl((a + f + MD5_K[i]! + m[g]!) | 0, MD5_S[i]!)) | 0;
+      a = temp;
+    }
+
+    state[0] = state[0]! + a;
+    state[1] = state[1]! + b;
+    state[2] = state[2]! + c;
+    state[3] = state[3]! + d;
+  }
+};
+
+const HASH_SPECS: Record<HashAlgorithm, HashSpec> = {
+  sha1: SHA1,
+  sha256: SHA256,
+  sha384: SHA384,
+  sha512: SHA512,
+  md5: MD5
+};
+
+/**
+ * Looks up the block-level description of a digest algorithm
+ */
+export function getHashSpec(algorithm: HashAlgorithm): HashSpec {
+  const spec = HASH_SPECS[algorithm];
+  if (!spec) {
+    throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+  return spec;
+}
+
+/**
+ * Encodes raw digest bytes in the requested output encoding
+ */
+export function encodeDigest<E extends DigestEncoding>(bytes: Uint8Array, encoding: E): DigestOutput<E> {
+  switch (encoding) {
+    case 'hex':
+      return encodeHex(bytes) as DigestOutput<E>;
+    case 'base64':
+      return encodeBase64(bytes) as DigestOutput<E>;
+    case 'base64url':
+      return encodeBase64Url(bytes) as DigestOutput<E>;
+    case 'bytes':
+      return bytes as DigestOutput<E>;
+    default:
+      throw new Error(`Unsupported digest encoding: ${encoding}`);
+  }
+}
+
+/**
+ * Creates an incremental hash for large or chunked inputs
+ * @param algorithm - Digest algorithm to use
+ * @returns Hash object with chainable update and a one-time digest
+ * @example
+ * createHash('sha256').update('hello ').update('world').digest()
+ * // 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9'
+ */
+export function createHash(algorithm: HashAlgorithm): Hash {
+  const spec = getHashSpec(algorithm);
+  const state = spec.init();
+  const buffer = new Uint8Array(spec.blockSize);
+  const bufferView = new DataView(buffer.buffer);
+  let bufferLength = 0;
+  let totalLength = 0;
+  let finished = false;
+
+  const hash: Hash = {
+    update(data: BinaryLike): Hash {
+      if (finished) {
+        throw new Error('Hash digest has already been computed');
+      }
+      const bytes = toBytes(data);
+      totalLength += bytes.length;
+
+      let offset = 0;
+      while (offset < bytes.length) {
+        if (bufferLength === 0 && bytes.length - offset >= spec.blockSize) {
+          const view = new DataView(bytes.buffer, bytes.byteOffset + offset, spec.blockSize);
+          spec.compress(state, view);
+          offset += spec.blockSize;
+          continue;
+        }
+        const take = Math.min(spec.blockSize - bufferLength, bytes.length - offset);
+        buffer.set(bytes.subarray(offset, offset + take), bufferLength);
+        bufferLength += take;
+        offset += take;
+        if (bufferLength === spec.blockSize) {
+          spec.compress(state, bufferView);
+          bufferLength = 0;
+        }
+      }
+      return hash;
+    },
+
+    digest<E extends DigestEncoding = 'hex'>(encoding?: E): DigestOutput<E> {
+      if (finished) {
+        throw new Error('Hash digest has already been computed');
+      }
+      finished = true;
+
+      buffer[bufferLength++] = 0x80;
+      if (bufferLength > spec.blockSize - spec.lengthSize) {
+        buffer.fill(0, bufferLength);
+        spec.compress(state, bufferView);
+        bufferLength = 0;
+      }
+      buffer.fill(0, bufferLength);
+
+      const bitsHigh = Math.floor(totalLength / 0x20000000);
+      const bitsLow = (totalLength * 8) >>> 0;
+      if (spec.littleEndian) {
+        bufferView.setUint32(spec.blockSize - 8, bitsLow, true);
+        bufferView.setUint32(spec.blockSize - 4, bitsHigh, true);
+      } else {
+        bufferView.setUint32(spec.blockSize - 8, bitsHigh);
+        bufferView.setUint32(spec.blockSize - 4, bitsLow);
+      }
+      spec.compress(state, bufferView);
+
+      const output = new Uint8Array(spec.outputSize);
+      const outputView = new DataView(output.buffer);
+      for (let i = 0; i < spec.outputSize / 4; i++) {
+        outputView.setUint32(i * 4, state[i]!, spec.littleEndian);
+      }
+      return encodeDigest(output, encoding ?? 'hex' as E);
+    }
+  };
+
+  return hash;
+}
+
+/**
+ * Computes the SHA-1 digest of a string or byte array
+ * @param data - Input data (strings are UTF-8 encoded)
+ * @param encoding - Output encoding (default: 'hex')
+ * @returns Digest in the requested encoding
+ * @example
+ * sha1('abc') // 'a9993e364706816aba3e25717850c26c9cd0d89d'
+ */
+export function sha1<E extends DigestEncoding = 'hex'>(data: BinaryLike, encoding?: E): DigestOutput<E> {
+  return createHash('sha1').update(data).digest(encoding);
+}
+
+/**
+ * Computes the SHA-256 digest of a string or byte array
+ * @param data - Input data (strings are UTF-8 encoded)
+ * @param encoding - Output encoding (default: 'hex')
+ * @returns Digest in the requested encoding
+ * @example
+ * sha256('abc') // 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+ * sha256('abc', 'base64') // 'ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0='
+ */
+export function sha256<E extends DigestEncoding = 'hex'>(data: BinaryLike, encoding?: E): DigestOutput<E> {
+  return createHash('sha256').update(data).digest(encoding);
+}
+
+/**
+ * Computes the SHA-384 digest of a string or byte array
+ * @param data - Input data (strings are UTF-8 encoded)
+ * @param encoding - Output encoding (default: 'hex')
+ * @returns Digest in the requested encoding
+ * @example
+ * sha384('abc') // 'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7'
+ */
+export function sha384<E extends DigestEncoding = 'hex'>(data: BinaryLike, encoding?: E): DigestOutput<E> {
+  return createHash('sha384').update(data).digest(encoding);
+}
+
+/**
+ * Computes the SHA-512 digest of a string or byte array
+ * @param data - Input data (strings are UTF-8 encoded)
+ * @param encoding - Output encoding (default: 'hex')
+ * @returns Digest in the requested encoding
+ * @example
+ * sha512('abc', 'bytes') // Uint8Array(64) [221, 175, 53, ...]
+ */
+export function sha512<E extends DigestEncoding = 'hex'>(data: BinaryLike, encoding?: E): DigestOutput<E> {
+  return createHash('sha512').update(data).digest(encoding);
+}
+
+/**
+ * Computes the MD5 digest of a string or byte array (not collision resistant;
+ * use only for legacy interop and non-security checksums)
+ * @param data - Input data (strings are UTF-8 encoded)
+ * @param encoding - Output encoding (default: 'hex')
+ * @returns Digest in the requested encoding
+ * @example
+ * md5('abc') // '900150983cd24fb0d6963f7d28e17f72'
+ */
+export function md5<E extends DigestEncoding = 'hex'>(data: BinaryLike, encoding?: E): DigestOutput<E> {
+  return createHash('md5').update(data).digest(encoding);
+}
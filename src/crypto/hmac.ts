@@ -0,0 +1,134 @@
+/**
+ * HMAC signing and constant-time comparison built on the pure TypeScript digests
+ */
+
+import { BinaryLike, toBytes } from './bytes';
+import {
+  createHash,
+  DigestEncoding,
+  DigestOutput,
+  encodeDigest,
+  getHashSpec,
+  Hash,
+  HashAlgorithm
+} from './hash';
+
+/**
+ * Creates an incremental HMAC
+ * @param algorithm - Digest algorithm to use
+ * @param key - Secret key (strings are UTF-8 encoded)
+ * @returns Hash object with chainable update and a one-time digest
+ * @example
+ * createHmac('sha256', 'secret').update('part 1').update('part 2').digest('base64url')
+ */
+export function createHmac(algorithm: HashAlgorithm, key: BinaryLike): Hash {
+  const spec = getHashSpec(algorithm);
+  let keyBytes = toBytes(key);
+  if (keyBytes.length > spec.blockSize) {
+    keyBytes = createHash(algorithm).update(keyBytes).digest('bytes');
+  }
+
+  const innerPad = new Uint8Array(spec.blockSize).fill(0x36);
+  const outerPad = new Uint8Array(spec.blockSize).fill(0x5c);
+  for (let i = 0; i < keyBytes.length; i++) {
+    innerPad[i] = innerPad[i]! ^ keyBytes[i]!;
+    outerPad[i] = outerPad[i]! ^ keyBytes[i]!;
+  }
+
+  const inner = createHash(algorithm).update(innerPad);
+  const hmacHash: Hash = {
+    update(data: BinaryLike): Hash {
+      inner.update(data);
+      return hmacHash;
+    },
+
+    digest<E extends DigestEncoding = 'hex'>(encoding?: E): DigestOutput<E> {
+      const mac = createHash(algorithm)
+        .update(outerPad)
+        .update(inner.digest('bytes'))
+        .digest('bytes');
+      return encodeDigest(mac, encoding ?? 'hex' as E);
+    }
+  };
+
+  return hmacHash;
+}
+
+/**
+ * Computes an HMAC of a message
+ * @param algorithm - Digest algorithm to use
+ * @param key - Secret key (strings are UTF-8 encoded)
+ * @param message - Message to sign (strings are UTF-8 encoded)
+ * @param encoding - Output encoding (default: 'hex')
+ * @returns HMAC in the requested encoding
+ * @example
+ * hmac('sha256', 'key', 'The quick brown fox jumps over the lazy dog')
+ * // 'f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8'
+ */
+export function hmac<E extends DigestEncoding = 'hex'>(
+  algorithm: HashAlgorithm,
+  key: BinaryLike,
+  message: BinaryLike,
+  encoding?: E
+): DigestOutput<E> {
+  return createHmac(algorithm, key).update(message).digest(encoding);
+}
+
+/**
+ * Compares two strings or byte arrays in constant time for equal-length inputs
+ * @param a - First value (strings are UTF-8 encoded)
+ * @param b - Second value (strings are UTF-8 encoded)
+ * @returns True if both values contain the same bytes
+ * @example
+ * timingSafeEqual('abc', 'abc') // true
+ * timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3])) // false
+ */
+export function timingSafeEqual(a: BinaryLike, b: BinaryLike): boolean {
+  const left = toBytes(a);
+  const right = toBytes(b);
+
+  // Only the length is revealed; the loop below always touches every byte
+  let diff = left.length ^ right.length;
+  const length = Math.max(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (left[i % (left.length || 1)] ?? 0) ^ (right[i % (right.length || 1)] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verifies an HMAC signature (e.g. from a webhook header) without leaking timing information
+ * @param key - Shared secret (strings are UTF-8 encoded)
+ * @param message - Signed payload (strings are UTF-8 encoded)
+ * @param signature - Received signature
+ * @param options - Algorithm, signature encoding and optional prefix such as 'sha256='
+ * @returns True if the signature matches
+ * @example
+ * verifySignature(secret, rawBody, request.headers['x-hub-signature-256'], { prefix: 'sha256=' })
+ */
+export function verifySignature(
+  key: BinaryLike,
+  message: BinaryLike,
+  signature: string,
+  options: {
+    algorithm?: HashAlgorithm;
+    encoding?: Exclude<DigestEncoding, 'bytes'>;
+    prefix?: string;
+  } = {}
+): boolean {
+  const {
+    algorithm = 'sha256',
+    encoding = 'hex',
+    prefix = ''
+  } = options;
+
+  if (typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = prefix + hmac(algorithm, key, message, encoding);
+  if (encoding === 'hex') {
+    return timingSafeEqual(expected.toLowerCase(), signature.toLowerCase());
+  }
+  return timingSafeEqual(expected, signature);
+}
@@ -2,37 +2,126 @@
  * Crypto utility functions for common cryptographic operations
  */
 
+import { utf8Decode } from './bytes';
+import { decodeBase64, decodeBase64Url, encodeBase64, encodeBase64Url } from './encoding';
+import { generatePasswordWithEntropy, PasswordPolicy } from './passgen';
+import { RandomSource, randomBytes, randomChars, uniformInt } from './random';
+import { bytesToUUID } from './uuid';
+
+export type { BinaryLike } from './bytes';
+export { createHash, sha1, sha256, sha384, sha512, md5 } from './hash';
+export type { Hash, HashAlgorithm, DigestEncoding, DigestOutput } from './hash';
+export { createHmac, hmac, timingSafeEqual, verifySignature } from './hmac';
+export { cryptoRandomSource, getRandomSource, setRandomSource, withRandomSource, randomBytes } from './random';
+export type { RandomSource } from './random';
+export { createPrng, createXoshiro128, createMulberry32, createPcg32 } from './prng';
+export type { Prng, PrngAlgorithm, Seed } from './prng';
+export {
+  UUID_NAMESPACES,
+  NIL_UUID,
+  MAX_UUID,
+  NANOID_ALPHABET,
+  generateUUIDv1,
+  generateUUIDv3,
+  generateUUIDv5,
+  generateUUIDv7,
+  generateULID,
+  generateNanoId,
+  parseUUID
+} from './uuid';
+export type { ParsedUUID, UUIDVariant } from './uuid';
+export { signJwt, decodeJwt, verifyJwt } from './jwt';
+export { encrypt, decrypt, deriveKey, generateEncryptionKey } from './cipher';
+export type { EncryptionKey, PlaintextEncoding } from './cipher';
+export { pbkdf2, scrypt } from './kdf';
+export type { Pbkdf2Hash } from './kdf';
+export { hashPassword, verifyPassword, needsRehash } from './password';
+export type { PasswordHashAlgorithm, PasswordHashOptions, PasswordVerifyLimits } from './password';
+export {
+  encodeBase64,
+  decodeBase64,
+  encodeBase64Url,
+  decodeBase64Url,
+  encodeBase32,
+  decodeBase32,
+  encodeBase32Hex,
+  decodeBase32Hex,
+  encodeCrockfordBase32,
+  decodeCrockfordBase32,
+  encodeBase58,
+  decodeBase58,
+  encodeHex,
+  decodeHex,
+  encodeAscii85,
+  decodeAscii85
+} from './encoding';
+export { createChecksum, crc32, crc32c, adler32, fnv1a32, fnv1a64, xxhash32, xxhash64 } from './checksums';
+export type { Checksum, ChecksumAlgorithm, ChecksumValue } from './checksums';
+export { AMBIGUOUS_CHARACTERS, MAX_PASSWORD_LENGTH, generatePasswordWithEntropy, generatePassphrase } from './passgen';
+export type { PasswordPolicy, GeneratedPassword, GeneratedPassphrase } from './passgen';
+export { PASSPHRASE_WORDLIST } from './wordlist';
+export { createHashRing, createRendezvousHash, measureKeyMovement } from './sharding';
+export type { ShardNode, KeyAssigner, HashRing, RendezvousHash, KeyMovement } from './sharding';
+export { generateOtpSecret, generateHOTP, verifyHOTP, generateTOTP, verifyTOTP, generateOtpAuthUri } from './otp';
+export type { OtpAlgorithm, OtpSecret, HotpOptions, TotpOptions, OtpVerifyResult } from './otp';
+export type {
+  JwtAlgorithm,
+  JwtHeader,
+  JwtClaims,
+  JwtKey,
+  JwtErrorCode,
+  JwtVerifyError,
+  JwtVerifyResult,
+  DecodedJwt
+} from './jwt';
+
 /**
  * Generates a random string of specified length
+ * @throws If the charset is empty
  */
-export function randomString(length: number, charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'): string {
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += charset.charAt(Math.floor(Math.random() * charset.length));
+export function randomString(
+  length: number,
+  charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789',
+  source?: RandomSource
+): string {
+  if (typeof charset !== 'string' || charset.length === 0) {
+    throw new Error('Charset must be a non-empty string');
   }
-  return result;
+  return randomChars(length, charset, source);
 }
 
 /**
  * Generates a random number between min and max (inclusive)
+ * @throws If min or max is not finite, min is greater than max, or the range spans more
+ *   than 2^53 values
  */
-export function randomNumber(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function randomNumber(min: number, max: number, source?: RandomSource): number {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    throw new Error('min and max must be finite numbers');
+  }
+  if (min > max) {
+    throw new Error('min must be less than or equal to max');
+  }
+  const span = Math.floor(max - min) + 1;
+  if (span > Number.MAX_SAFE_INTEGER + 1) {
+    throw new Error('Range must not span more than 2^53 values');
+  }
+  return uniformInt(span, source) + min;
 }
 
 /**
  * Generates a random UUID v4
  */
-export function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
+export function generateUUID(source?: RandomSource): string {
+  const bytes = randomBytes(16, source);
+  bytes[6] = (bytes[6]! & 0x0f) | 0x40;
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+  return bytesToUUID(bytes);
 }
 
 /**
- * Creates a simple hash from a string
+ * Creates a simple hash from a string (32-bit, not a cryptographic digest;
+ * use sha256 for cache keys or integrity checks)
  */
 export function simpleHash(str: string): number {
   let hash = 0;
@@ -48,54 +137,38 @@ export function simpleHash(str: string): number {
 }
 
 /**
- * Encodes a string to base64
+ * Encodes a string to base64 (UTF-8, so any Unicode text is supported)
  */
 export function toBase64(str: string): string {
-  if (typeof btoa !== 'undefined') {
-    return btoa(str);
-  }
-  
-  // Fallback for Node.js
-  return Buffer.from(str).toString('base64');
+  return encodeBase64(str);
 }
 
 /**
- * Decodes a base64 string
+ * Decodes a base64 string into UTF-8 text
+ * @throws Error if the input is not valid base64
  */
 export function fromBase64(str: string): string {
-  if (typeof atob !== 'undefined') {
-    return atob(str);
-  }
-  
-  // Fallback for Node.js
-  return Buffer.from(str, 'base64').toString();
+  return utf8Decode(decodeBase64(str));
 }
 
 /**
- * Encodes a string to URL-safe base64
+ * Encodes a string to URL-safe base64 without padding
  */
 export function toBase64Url(str: string): string {
-  return toBase64(str)
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
+  return encodeBase64Url(str);
 }
 
 /**
- * Decodes a URL-safe base64 string
+ * Decodes a URL-safe base64 string (padding optional) into UTF-8 text
+ * @throws Error if the input is not valid base64url
  */
 export function fromBase64Url(str: string): string {
-  // Add padding back
-  while (str.length % 4) {
-    str += '=';
-  }
-  
-  str = str.replace(/-/g, '+').replace(/_/g, '/');
-  return fromBase64(str);
+  return utf8Decode(decodeBase64Url(str));
 }
 
 /**
- * Creates a checksum hash from a string
+ * Creates a checksum hash from a string (32-bit, not a cryptographic digest;
+ * use sha256 for cache keys or integrity checks)
  */
 export function checksum(str: string): string {
   let hash = 0;
@@ -113,71 +186,29 @@ export function checksum(str: string): string {
 /**
  * Generates a random hex string
  */
-export function randomHex(length: number): string {
-  const chars = '0123456789abcdef';
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+export function randomHex(length: number, source?: RandomSource): string {
+  return randomChars(length, '0123456789abcdef', source);
 }
 
 /**
  * Generates a random alphanumeric string
  */
-export function randomAlphanumeric(length: number): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+export function randomAlphanumeric(length: number, source?: RandomSource): string {
+  return randomChars(length, 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789', source);
 }
 
 /**
  * Generates a random numeric string
  */
-export function randomNumeric(length: number): string {
-  const chars = '0123456789';
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return result;
+export function randomNumeric(length: number, source?: RandomSource): string {
+  return randomChars(length, '0123456789', source);
 }
 
 /**
- * Generates a random password with specified requirements
+ * Generates a random password with at least one character from every included class
+ * (see generatePasswordWithEntropy for per-class minimums, exclusions and entropy)
+ * @throws If the length is shorter than the number of included classes (or their minimums)
  */
-export function generatePassword(options: {
-  length?: number;
-  includeUppercase?: boolean;
-  includeLowercase?: boolean;
-  includeNumbers?: boolean;
-  includeSymbols?: boolean;
-} = {}): string {
-  const {
-    length = 12,
-    includeUppercase = true,
-    includeLowercase = true,
-    includeNumbers = true,
-    includeSymbols = true
-  } = options;
-  
-  let chars = '';
-  if (includeUppercase) chars += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  if (includeLowercase) chars += 'abcdefghijklmnopqrstuvwxyz';
-  if (includeNumbers) chars += '0123456789';
-  if (includeSymbols) chars += '!@#$%^&*()_+-=[]{}|;:,.<>?';
-  
-  if (chars.length === 0) {
-    throw new Error('At least one character type must be included');
-  }
-  
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  
-  return result;
-} 
\ No newline at end of file
+export function generatePassword(options: PasswordPolicy = {}): string {
+  return generatePasswordWithEntropy(options).password;
+}
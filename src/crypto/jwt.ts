@@ -0,0 +1,437 @@
+/**
+ * JSON Web Token (RFC 7519) signing, decoding and verification
+ */
+
+import type { webcrypto } from 'crypto';
+import { BinaryLike, utf8Decode, utf8Encode } from './bytes';
+import { decodeBase64, decodeBase64Url, encodeBase64Url } from './encoding';
+import { HashAlgorithm } from './hash';
+import { hmac, timingSafeEqual } from './hmac';
+import { getWebCrypto } from './webcrypto';
+
+/**
+ * Supported JWS algorithms
+ */
+export type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'ES256';
+
+/**
+ * JOSE header of a token
+ */
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Registered and custom claims of a token
+ */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Key material: a shared secret for HS*, or a CryptoKey, JWK or PEM string
+ * (PKCS#8 private key for signing, SPKI public key for verification) for RS256/ES256
+ */
+export type JwtKey = BinaryLike | webcrypto.CryptoKey | webcrypto.JsonWebKey;
+
+/**
+ * Identifies which verification check failed
+ */
+export type JwtErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'algorithm_not_allowed'
+  | 'invalid_signature'
+  | 'invalid_key'
+  | 'invalid_claim'
+  | 'missing_claim'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'issued_in_future'
+  | 'max_age_exceeded'
+  | 'invalid_issuer'
+  | 'invalid_audience';
+
+/**
+ * Structured verification failure
+ */
+export interface JwtVerifyError {
+  code: JwtErrorCode;
+  message: string;
+  claim?: string;
+}
+
+/**
+ * Result of verifyJwt: typed claims on success, the failed check otherwise
+ */
+export type JwtVerifyResult<T extends JwtClaims = JwtClaims> =
+  | { ok: true; header: JwtHeader; claims: T }
+  | { ok: false; error: JwtVerifyError };
+
+/**
+ * Decoded but unverified token parts
+ */
+export interface DecodedJwt<T extends JwtClaims = JwtClaims> {
+  header: JwtHeader;
+  claims: T;
+  signature: Uint8Array;
+  signingInput: string;
+}
+
+const HMAC_HASHES: Record<string, HashAlgorithm> = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512'
+};
+
+const ASYMMETRIC_PARAMS: Record<string, {
+  importParams: webcrypto.RsaHashedImportParams | webcrypto.EcKeyImportParams;
+  signParams: webcrypto.AlgorithmIdentifier | webcrypto.EcdsaParams;
+}> = {
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    signParams: 'RSASSA-PKCS1-v1_5'
+  },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    signParams: { name: 'ECDSA', hash: 'SHA-256' }
+  }
+};
+
+const PRIVATE_JWK_FIELDS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'];
+
+function isSupportedAlgorithm(alg: unknown): alg is JwtAlgorithm {
+  return typeof alg === 'string' && (alg in HMAC_HASHES || alg in ASYMMETRIC_PARAMS);
+}
+
+function encodeSegment(value: unknown): string {
+  return encodeBase64Url(utf8Encode(JSON.stringify(value)));
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(utf8Decode(decodeBase64Url(segment)));
+}
+
+function isCryptoKey(key: unknown): key is webcrypto.CryptoKey {
+  return typeof key === 'object' && key !== null && 'algorithm' in key && 'usages' in key && 'type' in key;
+}
+
+function isPemKey(key: unknown): boolean {
+  return typeof key === 'string' && /-----BEGIN [A-Z0-9 ]*KEY-----/.test(key);
+}
+
+/**
+ * Whether the key material fits the algorithm family: HS* takes only raw secrets and RS/ES
+ * only PEM, JWK or CryptoKey keys. Otherwise a public key could be used as an HMAC secret
+ * to forge tokens (algorithm confusion).
+ */
+function keyMatchesAlgorithm(alg: JwtAlgorithm, key: JwtKey): boolean {
+  const secret = (typeof key === 'string' && !isPemKey(key)) || key instanceof Uint8Array;
+  return alg in HMAC_HASHES ? secret : !secret;
+}
+
+async function importAsymmetricKey(
+  alg: JwtAlgorithm,
+  key: JwtKey,
+  usage: 'sign' | 'verify'
+): Promise<webcrypto.CryptoKey> {
+  if (isCryptoKey(key)) {
+    return key;
+  }
+
+  const { importParams } = ASYMMETRIC_PARAMS[alg]!;
+  const subtle = getWebCrypto().subtle;
+
+  if (typeof key === 'string') {
+    const match = /-----BEGIN (PRIVATE|PUBLIC) KEY-----([\s\S]+?)-----END \1 KEY-----/.exec(key);
+    if (!match) {
+      throw new Error('Key must be a PEM-encoded PKCS#8 private key or SPKI public key');
+    }
+    const format = match[1] === 'PRIVATE' ? 'pkcs8' : 'spki';
+    const der = decodeBase64(match[2]!.replace(/\s+/g, ''));
+    return subtle.importKey(format, der, importParams, false, [usage]);
+  }
+
+  if (key instanceof Uint8Array) {
+    throw new Error(`${alg} requires a CryptoKey, JWK or PEM key`);
+  }
+
+  const jwk: webcrypto.JsonWebKey = { ...key };
+  if (usage === 'verify') {
+    for (const field of PRIVATE_JWK_FIELDS) {
+      delete (jwk as Record<string, unknown>)[field];
+    }
+  }
+  return subtle.importKey('jwk', jwk, importParams, false, [usage]);
+}
+
+function hmacKey(alg: JwtAlgorithm, key: JwtKey): BinaryLike {
+  if (!keyMatchesAlgorithm(alg, key)) {
+    throw new Error(`${alg} requires a string or Uint8Array secret, not a PEM, JWK or CryptoKey key`);
+  }
+  return key as BinaryLike;
+}
+
+async function createSignature(alg: JwtAlgorithm, key: JwtKey, signingInput: string): Promise<Uint8Array> {
+  const hash = HMAC_HASHES[alg];
+  if (hash) {
+    return hmac(hash, hmacKey(alg, key), signingInput, 'bytes');
+  }
+  const cryptoKey = await importAsymmetricKey(alg, key, 'sign');
+  const signature = await getWebCrypto().subtle.sign(
+    ASYMMETRIC_PARAMS[alg]!.signParams,
+    cryptoKey,
+    utf8Encode(signingInput)
+  );
+  return new Uint8Array(signature);
+}
+
+async function checkSignature(
+  alg: JwtAlgorithm,
+  key: JwtKey,
+  signingInput: string,
+  signature: Uint8Array
+): Promise<boolean> {
+  const hash = HMAC_HASHES[alg];
+  if (hash) {
+    return timingSafeEqual(hmac(hash, hmacKey(alg, key), signingInput, 'bytes'), signature);
+  }
+  const cryptoKey = await importAsymmetricKey(alg, key, 'verify');
+  return getWebCrypto().subtle.verify(
+    ASYMMETRIC_PARAMS[alg]!.signParams,
+    cryptoKey,
+    signature,
+    utf8Encode(signingInput)
+  );
+}
+
+/**
+ * Signs claims into a compact JWT
+ * @param claims - Payload claims
+ * @param key - Shared secret (HS*) or private key (RS256/ES256)
+ * @param options - Algorithm, header fields and registered claims to add
+ * @returns Compact JWS string
+ * @example
+ * await signJwt({ sub: 'user-1' }, secret, { expiresIn: 3600, issuer: 'auth.example.com' })
+ */
+export async function signJwt(
+  claims: JwtClaims,
+  key: JwtKey,
+  options: {
+    algorithm?: JwtAlgorithm;
+    keyId?: string;
+    header?: Record<string, unknown>;
+    expiresIn?: number;
+    notBefore?: number;
+    issuer?: string;
+    subject?: string;
+    audience?: string | string[];
+    jwtId?: string;
+    timestamp?: number | Date;
+  } = {}
+): Promise<string> {
+  const {
+    algorithm = 'HS256',
+    keyId,
+    header = {},
+    expiresIn,
+    notBefore,
+    issuer,
+    subject,
+    audience,
+    jwtId,
+    timestamp = Date.now()
+  } = options;
+
+  if (!isSupportedAlgorithm(algorithm)) {
+    throw new Error(`Unsupported JWT algorithm: ${algorithm}`);
+  }
+  if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+    throw new TypeError('Claims must be an object');
+  }
+
+  const now = Math.floor((timestamp instanceof Date ? timestamp.getTime() : timestamp) / 1000);
+  const payload: JwtClaims = { iat: now, ...claims };
+  if (expiresIn !== undefined) payload.exp = now + expiresIn;
+  if (notBefore !== undefined) payload.nbf = now + notBefore;
+  if (issuer !== undefined) payload.iss = issuer;
+  if (subject !== undefined) payload.sub = subject;
+  if (audience !== undefined) payload.aud = audience;
+  if (jwtId !== undefined) payload.jti = jwtId;
+
+  const fullHeader: JwtHeader = { ...header, alg: algorithm, typ: 'JWT' };
+  if (keyId !== undefined) fullHeader.kid = keyId;
+
+  const signingInput = `${encodeSegment(fullHeader)}.${encodeSegment(payload)}`;
+  const signature = await createSignature(algorithm, key, signingInput);
+  return `${signingInput}.${encodeBase64Url(signature)}`;
+}
+
+/**
+ * Decodes a JWT without verifying its signature or claims
+ * @param token - Compact JWS string
+ * @returns Header, claims and raw signature
+ * @throws Error if the token is not a well-formed JWS
+ * @example
+ * decodeJwt(token).claims.sub // 'user-1'
+ */
+export function decodeJwt<T extends JwtClaims = JwtClaims>(token: string): DecodedJwt<T> {
+  if (typeof token !== 'string') {
+    throw new TypeError('Token must be a string');
+  }
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Token must have three dot-separated segments');
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = parts as [string, string, string];
+  let header: unknown;
+  let claims: unknown;
+  let signature: Uint8Array;
+  try {
+    header = decodeSegment(headerSegment);
+    claims = decodeSegment(payloadSegment);
+    signature = decodeBase64Url(signatureSegment);
+  } catch {
+    throw new Error('Token segments are not valid base64url-encoded JSON');
+  }
+
+  if (typeof header !== 'object' || header === null || typeof (header as JwtHeader).alg !== 'string') {
+    throw new Error('Token header must be an object with an alg field');
+  }
+  if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+    throw new Error('Token payload must be a JSON object');
+  }
+
+  return {
+    header: header as JwtHeader,
+    claims: claims as T,
+    signature,
+    signingInput: `${headerSegment}.${payloadSegment}`
+  };
+}
+
+function fail(code: JwtErrorCode, message: string, claim?: string): { ok: false; error: JwtVerifyError } {
+  return { ok: false, error: claim === undefined ? { code, message } : { code, message, claim } };
+}
+
+/**
+ * Verifies a JWT's signature and registered claims
+ * @param token - Compact JWS string
+ * @param key - Shared secret (HS*) or public key (RS256/ES256); a token whose algorithm does
+ *   not fit the kind of key fails with 'algorithm_not_allowed'
+ * @param options - Allowed algorithms, expected issuer/audience, clock tolerance and max age
+ * @returns Typed claims, or a structured error naming the failed check ('invalid_key' when
+ *   the key cannot be imported or does not fit the algorithm, e.g. a P-384 key for ES256)
+ * @example
+ * const result = await verifyJwt<{ sub: string }>(token, secret, { issuer: 'auth.example.com', clockTolerance: 30 });
+ * if (result.ok) result.claims.sub
+ * else result.error.code // e.g. 'expired'
+ */
+export async function verifyJwt<T extends JwtClaims = JwtClaims>(
+  token: string,
+  key: JwtKey,
+  options: {
+    algorithms?: JwtAlgorithm[];
+    issuer?: string | string[];
+    audience?: string | string[];
+    subject?: string;
+    clockTolerance?: number;
+    maxAge?: number;
+    requiredClaims?: string[];
+    currentTime?: number | Date;
+  } = {}
+): Promise<JwtVerifyResult<T>> {
+  const {
+    algorithms = ['HS256'],
+    issuer,
+    audience,
+    subject,
+    clockTolerance = 0,
+    maxAge,
+    requiredClaims = [],
+    currentTime = Date.now()
+  } = options;
+
+  let decoded: DecodedJwt<T>;
+  try {
+    decoded = decodeJwt<T>(token);
+  } catch (error) {
+    return fail('malformed', (error as Error).message);
+  }
+
+  const { header, claims, signature, signingInput } = decoded;
+  if (!isSupportedAlgorithm(header.alg)) {
+    return fail('unsupported_algorithm', `Unsupported JWT algorithm: ${header.alg}`);
+  }
+  if (!algorithms.includes(header.alg)) {
+    return fail('algorithm_not_allowed', `Algorithm ${header.alg} is not allowed`);
+  }
+  if (!keyMatchesAlgorithm(header.alg, key)) {
+    return fail('algorithm_not_allowed', `Algorithm ${header.alg} cannot be used with this kind of key`);
+  }
+  let valid: boolean;
+  try {
+    valid = await checkSignature(header.alg, key, signingInput, signature);
+  } catch (error) {
+    return fail('invalid_key', `Key cannot verify ${header.alg} signatures: ${(error as Error).message}`);
+  }
+  if (!valid) {
+    return fail('invalid_signature', 'Signature verification failed');
+  }
+
+  for (const claim of ['exp', 'nbf', 'iat'] as const) {
+    if (claims[claim] !== undefined && typeof claims[claim] !== 'number') {
+      return fail('invalid_claim', `Claim ${claim} must be a number`, claim);
+    }
+  }
+  const required = maxAge !== undefined ? [...requiredClaims, 'iat'] : requiredClaims;
+  for (const claim of required) {
+    if (claims[claim] === undefined) {
+      return fail('missing_claim', `Claim ${claim} is required`, claim);
+    }
+  }
+
+  const now = Math.floor((currentTime instanceof Date ? currentTime.getTime() : currentTime) / 1000);
+  if (claims.exp !== undefined && now >= claims.exp + clockTolerance) {
+    return fail('expired', 'Token has expired', 'exp');
+  }
+  if (claims.nbf !== undefined && now + clockTolerance < claims.nbf) {
+    return fail('not_yet_valid', 'Token is not yet valid', 'nbf');
+  }
+  if (claims.iat !== undefined && claims.iat > now + clockTolerance) {
+    return fail('issued_in_future', 'Token was issued in the future', 'iat');
+  }
+  if (maxAge !== undefined && now - claims.iat! > maxAge + clockTolerance) {
+    return fail('max_age_exceeded', 'Token is older than the allowed maximum age', 'iat');
+  }
+
+  if (issuer !== undefined) {
+    const issuers = Array.isArray(issuer) ? issuer : [issuer];
+    if (typeof claims.iss !== 'string' || !issuers.includes(claims.iss)) {
+      return fail('invalid_issuer', 'Token issuer is not accepted', 'iss');
+    }
+  }
+  if (audience !== undefined) {
+    const expected = Array.isArray(audience) ? audience : [audience];
+    const actual = Array.isArray(claims.aud) ? claims.aud : claims.aud === undefined ? [] : [claims.aud];
+    if (!actual.some(aud => expected.includes(aud))) {
+      return fail('invalid_audience', 'Token audience is not accepted', 'aud');
+    }
+  }
+  if (subject !== undefined && claims.sub !== subject) {
+    return fail('invalid_claim', 'Token subject does not match', 'sub');
+  }
+
+  return { ok: true, header, claims };
+}
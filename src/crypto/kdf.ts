@@ -0,0 +1,164 @@
+/**
+ * Key derivation functions: PBKDF2 (via Web Crypto) and scrypt (pure TypeScript)
+ */
+
+import { BinaryLike, toBytes } from './bytes';
+import { getWebCrypto } from './webcrypto';
+
+/**
+ * Hash functions supported by pbkdf2
+ */
+export type Pbkdf2Hash = 'sha1' | 'sha256' | 'sha384' | 'sha512';
+
+const WEB_CRYPTO_HASHES: Record<Pbkdf2Hash, string> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512'
+};
+
+// Upper bound on scrypt's working memory (128 * N * r bytes)
+const SCRYPT_MAX_MEMORY = 256 * 1024 * 1024;
+
+/**
+ * Derives key material with PBKDF2-HMAC
+ * @param password - Password (strings are UTF-8 encoded)
+ * @param salt - Salt (strings are UTF-8 encoded)
+ * @param options - Iteration count, output length in bytes (default: 32) and hash (default: 'sha256')
+ * @returns Derived bytes
+ * @example
+ * await pbkdf2('password', salt, { iterations: 600000 }) // Uint8Array(32)
+ */
+export async function pbkdf2(
+  password: BinaryLike,
+  salt: BinaryLike,
+  options: { iterations: number; keyLength?: number; hash?: Pbkdf2Hash }
+): Promise<Uint8Array> {
+  const { iterations, keyLength = 32, hash = 'sha256' } = options;
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error('Iterations must be a positive integer');
+  }
+  if (!Number.isInteger(keyLength) || keyLength < 1) {
+    throw new Error('Key length must be a positive integer');
+  }
+  if (!WEB_CRYPTO_HASHES[hash]) {
+    throw new Error(`Unsupported hash algorithm: ${hash}`);
+  }
+
+  const subtle = getWebCrypto().subtle;
+  const baseKey = await subtle.importKey('raw', toBytes(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle.deriveBits(
+    { name: 'PBKDF2', hash: WEB_CRYPTO_HASHES[hash], salt: toBytes(salt), iterations },
+    baseKey,
+    keyLength * 8
+  );
+  return new Uint8Array(bits);
+}
+
+function salsa20_8(b: Uint32Array): void {
+  let x0 = b[0]!, x1 = b[1]!, x2 = b[2]!, x3 = b[3]!;
+  let x4 = b[4]!, x5 = b[5]!, x6 = b[6]!, x7 = b[7]!;
+  let x8 = b[8]!, x9 = b[9]!, x10 = b[10]!, x11 = b[11]!;
+  let x12 = b[12]!, x13 = b[13]!, x14 = b[14]!, x15 = b[15]!;
+  const r = (a: number, n: number) => (a << n) | (a >>> (32 - n));
+
+  for (let i = 0; i < 8; i += 2) {
+    x4 ^= r(x0 + x12, 7); x8 ^= r(x4 + x0, 9); x12 ^= r(x8 + x4, 13); x0 ^= r(x12 + x8, 18);
+    x9 ^= r(x5 + x1, 7); x13 ^= r(x9 + x5, 9); x1 ^= r(x13 + x9, 13); x5 ^= r(x1 + x13, 18);
+    x14 ^= r(x10 + x6, 7); x2 ^= r(x14 + x10, 9); x6 ^= r(x2 + x14, 13); x10 ^= r(x6 + x2, 18);
+    x3 ^= r(x15 + x11, 7); x7 ^= r(x3 + x15, 9); x11 ^= r(x7 + x3, 13); x15 ^= r(x11 + x7, 18);
+    x1 ^= r(x0 + x3, 7); x2 ^= r(x1 + x0, 9); x3 ^= r(x2 + x1, 13); x0 ^= r(x3 + x2, 18);
+    x6 ^= r(x5 + x4, 7); x7 ^= r(x6 + x5, 9); x4 ^= r(x7 + x6, 13); x5 ^= r(x4 + x7, 18);
+    x11 ^= r(x10 + x9, 7); x8 ^= r(x11 + x10, 9); x9 ^= r(x8 + x11, 13); x10 ^= r(x9 + x8, 18);
+    x12 ^= r(x15 + x14, 7); x13 ^= r(x12 + x15, 9); x14 ^= r(x13 + x12, 13); x15 ^= r(x14 + x13, 18);
+  }
+
+  b[0] = b[0]! + x0; b[1] = b[1]! + x1; b[2] = b[2]! + x2; b[3] = b[3]! + x3;
+  b[4] = b[4]! + x4; b[5] = b[5]! + x5; b[6] = b[6]! + x6; b[7] = b[7]! + x7;
+  b[8] = b[8]! + x8; b[9] = b[9]! + x9; b[10] = b[10]! + x10; b[11] = b[11]! + x11;
+  b[12] = b[12]! + x12; b[13] = b[13]! + x13; b[14] = b[14]! + x14; b[15] = b[15]! + x15;
+}
+
+function blockMix(input: Uint32Array, output: Uint32Array, r: number, t: Uint32Array): void {
+  t.set(input.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) {
+      t[j] = t[j]! ^ input[i * 16 + j]!;
+    }
+    salsa20_8(t);
+    // Even blocks go to the first half of the output, odd blocks to the second
+    output.set(t, ((i & 1) * r + (i >> 1)) * 16);
+  }
+}
+
+function roMix(block: Uint32Array, n: number, r: number): void {
+  const words = 32 * r;
+  const v = new Uint32Array(words * n);
+  const y = new Uint32Array(words);
+  const t = new Uint32Array(16);
+  let current: Uint32Array = block;
+  let other: Uint32Array = y;
+
+  for (let i = 0; i < n; i++) {
+    v.set(current, i * words);
+    blockMix(current, other, r, t);
+    [current, other] = [other, current];
+  }
+  for (let i = 0; i < n; i++) {
+    const j = current[(2 * r - 1) * 16]! & (n - 1);
+    for (let k = 0; k < words; k++) {
+      current[k] = current[k]! ^ v[j * words + k]!;
+    }
+    blockMix(current, other, r, t);
+    [current, other] = [other, current];
+  }
+
+  if (current !== block) {
+    block.set(current);
+  }
+}
+
+/**
+ * Derives key material with scrypt (RFC 7914)
+ * @param password - Password (strings are UTF-8 encoded)
+ * @param salt - Salt (strings are UTF-8 encoded)
+ * @param options - Cost N (power of two, default: 2^15), block size r (default: 8),
+ *   parallelism p (default: 1) and output length in bytes (default: 32)
+ * @returns Derived bytes
+ * @example
+ * await scrypt('password', salt, { N: 32768, r: 8, p: 1 }) // Uint8Array(32)
+ */
+export async function scrypt(
+  password: BinaryLike,
+  salt: BinaryLike,
+  options: { N?: number; r?: number; p?: number; keyLength?: number } = {}
+): Promise<Uint8Array> {
+  const { N = 32768, r = 8, p = 1, keyLength = 32 } = options;
+  if (!Number.isInteger(N) || N < 2 || (N & (N - 1)) !== 0) {
+    throw new Error('N must be a power of two greater than 1');
+  }
+  if (!Number.isInteger(r) || r < 1 || !Number.isInteger(p) || p < 1) {
+    throw new Error('r and p must be positive integers');
+  }
+  if (128 * N * r > SCRYPT_MAX_MEMORY) {
+    throw new Error('scrypt parameters exceed the memory limit');
+  }
+
+  const passwordBytes = toBytes(password);
+  const blockBytes = await pbkdf2(passwordBytes, salt, { iterations: 1, keyLength: p * 128 * r });
+  const view = new DataView(blockBytes.buffer, blockBytes.byteOffset, blockBytes.byteLength);
+  const words = 32 * r;
+  const block = new Uint32Array(words);
+
+  for (let i = 0; i < p; i++) {
+    for (let k = 0; k < words; k++) {
+      block[k] = view.getUint32((i * words + k) * 4, true);
+    }
+    roMix(block, N, r);
+    for (let k = 0; k < words; k++) {
+      view.setUint32((i * words + k) * 4, block[k]!, true);
+    }
+  }
+
+  return pbkdf2(passwordBytes, blockBytes, { iterations: 1, keyLength });
+}
@@ -0,0 +1,237 @@
+/**
+ * One-time passwords: HOTP (RFC 4226), TOTP (RFC 6238) and otpauth:// provisioning URIs
+ */
+
+import { decodeBase32, encodeBase32 } from './encoding';
+import { hmac, timingSafeEqual } from './hmac';
+import { cryptoRandomSource, randomBytes } from './random';
+
+/**
+ * HMAC hash functions allowed for one-time passwords
+ */
+export type OtpAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+/**
+ * Shared secret: a base32 string (case, spaces and padding ignored) or raw bytes
+ */
+export type OtpSecret = string | Uint8Array;
+
+/**
+ * Code parameters shared by HOTP and TOTP
+ */
+export interface HotpOptions {
+  /** Number of digits, 6 to 10 (default: 6) */
+  digits?: number;
+  /** HMAC hash (default: 'sha1') */
+  algorithm?: OtpAlgorithm;
+}
+
+/**
+ * TOTP parameters
+ */
+export interface TotpOptions extends HotpOptions {
+  /** Time step in seconds (default: 30) */
+  period?: number;
+  /** Time in milliseconds to generate or verify for (default: Date.now()) */
+  timestamp?: number;
+}
+
+/**
+ * Result of verifyHOTP/verifyTOTP; `counter` is the matched counter or time step,
+ * `delta` its offset from the expected one
+ */
+export type OtpVerifyResult =
+  | { ok: true; counter: number; delta: number }
+  | { ok: false };
+
+function secretBytes(secret: OtpSecret): Uint8Array {
+  if (secret instanceof Uint8Array) {
+    return secret;
+  }
+  if (typeof secret !== 'string') {
+    throw new TypeError('Secret must be a base32 string or Uint8Array');
+  }
+  return decodeBase32(secret.replace(/[\s-]/g, '').replace(/=+$/, ''));
+}
+
+function resolveHotpOptions(options: HotpOptions): Required<HotpOptions> {
+  const { digits = 6, algorithm = 'sha1' } = options;
+  if (!Number.isInteger(digits) || digits < 6 || digits > 10) {
+    throw new Error('Digits must be an integer between 6 and 10');
+  }
+  if (!['sha1', 'sha256', 'sha512'].includes(algorithm)) {
+    throw new Error(`Unsupported OTP algorithm: ${algorithm}`);
+  }
+  return { digits, algorithm };
+}
+
+function computeCode(key: Uint8Array, counter: number, digits: number, algorithm: OtpAlgorithm): string {
+  if (!Number.isSafeInteger(counter) || counter < 0) {
+    throw new Error('Counter must be a non-negative safe integer');
+  }
+
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const mac = hmac(algorithm, key, message, 'bytes');
+  const offset = mac[mac.length - 1]! & 0x0f;
+  const binary =
+    ((mac[offset]! & 0x7f) * 2 ** 24) +
+    (mac[offset + 1]! << 16) +
+    (mac[offset + 2]! << 8) +
+    mac[offset + 3]!;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+function timeStep(options: TotpOptions): { step: number; period: number } {
+  const { period = 30, timestamp = Date.now() } = options;
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error('Period must be a positive integer');
+  }
+  return { step: Math.floor(timestamp / 1000 / period), period };
+}
+
+/**
+ * Generates a random shared secret for a new authenticator
+ * @param length - Secret length in bytes (default: 20, the HMAC-SHA-1 block recommendation)
+ * @returns Unpadded base32 secret
+ * @example
+ * generateOtpSecret() // 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP'
+ */
+export function generateOtpSecret(length = 20): string {
+  return encodeBase32(randomBytes(length, cryptoRandomSource), { padding: false });
+}
+
+/**
+ * Generates an HMAC-based one-time password (RFC 4226)
+ * @param secret - Shared secret
+ * @param counter - Moving factor
+ * @param options - Digits and hash algorithm
+ * @returns Zero-padded numeric code
+ * @example
+ * generateHOTP(secret, 0) // '755224'
+ */
+export function generateHOTP(secret: OtpSecret, counter: number, options: HotpOptions = {}): string {
+  const { digits, algorithm } = resolveHotpOptions(options);
+  return computeCode(secretBytes(secret), counter, digits, algorithm);
+}
+
+/**
+ * Verifies an HOTP code, looking ahead up to `window` counters to resynchronize
+ * @param token - Code entered by the user
+ * @param secret - Shared secret
+ * @param counter - Next expected counter
+ * @param options - Look-ahead window (default: 0), digits and hash algorithm
+ * @returns Result with the matched counter; store `counter + 1` as the next expected value
+ * @example
+ * const result = verifyHOTP('287082', secret, 0, { window: 5 });
+ * if (result.ok) user.hotpCounter = result.counter + 1;
+ */
+export function verifyHOTP(
+  token: string,
+  secret: OtpSecret,
+  counter: number,
+  options: HotpOptions & { window?: number } = {}
+): OtpVerifyResult {
+  const { window = 0 } = options;
+  const { digits, algorithm } = resolveHotpOptions(options);
+  if (typeof token !== 'string' || token.length !== digits || !/^\d+$/.test(token)) {
+    return { ok: false };
+  }
+
+  const key = secretBytes(secret);
+  for (let delta = 0; delta <= window; delta++) {
+    if (timingSafeEqual(computeCode(key, counter + delta, digits, algorithm), token)) {
+      return { ok: true, counter: counter + delta, delta };
+    }
+  }
+  return { ok: false };
+}
+
+/**
+ * Generates a time-based one-time password (RFC 6238)
+ * @param secret - Shared secret
+ * @param options - Period, timestamp, digits and hash algorithm
+ * @returns Zero-padded numeric code
+ * @example
+ * generateTOTP('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', { timestamp: 59000, digits: 8 }) // '94287082'
+ */
+export function generateTOTP(secret: OtpSecret, options: TotpOptions = {}): string {
+  return generateHOTP(secret, timeStep(options).step, options);
+}
+
+/**
+ * Verifies a TOTP code, accepting up to `window` time steps of clock drift in either direction
+ * @param token - Code entered by the user
+ * @param secret - Shared secret
+ * @param options - Drift window in steps (default: 1), period, timestamp, digits and hash algorithm
+ * @returns Result with the matched time step; reject steps at or below the last accepted one to prevent replay
+ * @example
+ * verifyTOTP(code, secret, { window: 1 }) // { ok: true, counter: 56666666, delta: 0 }
+ */
+export function verifyTOTP(
+  token: string,
+  secret: OtpSecret,
+  options: TotpOptions & { window?: number } = {}
+): OtpVerifyResult {
+  const { window = 1 } = options;
+  const { step } = timeStep(options);
+  const result = verifyHOTP(token, secret, Math.max(0, step - window), {
+    ...options,
+    window: Math.min(step, window) + window
+  });
+  return result.ok ? { ...result, delta: result.counter - step } : result;
+}
+
+/**
+ * Builds an otpauth:// URI for provisioning authenticator apps (usually shown as a QR code)
+ * @param options - Account label, secret and code parameters; `type` defaults to 'totp'
+ *   and HOTP URIs require `counter`
+ * @returns Provisioning URI
+ * @example
+ * generateOtpAuthUri({ secret: 'JBSWY3DPEHPK3PXP', accountName: 'alice@example.com', issuer: 'Acme' })
+ * // 'otpauth://totp/Acme:alice%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Acme&algorithm=SHA1&digits=6&period=30'
+ */
+export function generateOtpAuthUri(options: {
+  secret: OtpSecret;
+  accountName: string;
+  issuer?: string;
+  type?: 'totp' | 'hotp';
+  algorithm?: OtpAlgorithm;
+  digits?: number;
+  period?: number;
+  counter?: number;
+}): string {
+  const { secret, accountName, issuer, type = 'totp', period = 30, counter } = options;
+  const { digits, algorithm } = resolveHotpOptions(options);
+  if (!accountName) {
+    throw new Error('Account name is required');
+  }
+  if (issuer?.includes(':') || accountName.includes(':')) {
+    throw new Error('Issuer and account name must not contain ":"');
+  }
+
+  const label = issuer
+    ? `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+    : encodeURIComponent(accountName);
+  const params = [`secret=${encodeBase32(secretBytes(secret), { padding: false })}`];
+  if (issuer) {
+    params.push(`issuer=${encodeURIComponent(issuer)}`);
+  }
+  params.push(`algorithm=${algorithm.toUpperCase()}`, `digits=${digits}`);
+
+  if (type === 'hotp') {
+    if (counter === undefined || !Number.isSafeInteger(counter) || counter < 0) {
+      throw new Error('HOTP URIs require a non-negative counter');
+    }
+    params.push(`counter=${counter}`);
+  } else {
+    params.push(`period=${period}`);
+  }
+
+  return `otpauth://${type}/${label}?${params.join('&')}`;
+}
@@ -0,0 +1,368 @@
+/**
+ * Policy-guaranteed password and Diceware-style passphrase generation with entropy reporting
+ */
+
+import { shuffle } from '../array';
+import { getRandomSource, RandomSource, uniformBigInt, uniformInt } from './random';
+import { PASSPHRASE_WORDLIST } from './wordlist';
+
+/**
+ * Characters that are easily confused in many fonts: 0/O, 1/l/I and |
+ */
+export const AMBIGUOUS_CHARACTERS = '0O1lI|';
+
+const DEFAULT_SYMBOLS = '!@#$%^&*()_+-=[]{}|;:,.<>?';
+
+/**
+ * Character-class requirements for generated passwords. Every included class
+ * defaults to a minimum of one character.
+ */
+export interface PasswordPolicy {
+  length?: number;
+  includeUppercase?: boolean;
+  includeLowercase?: boolean;
+  includeNumbers?: boolean;
+  includeSymbols?: boolean;
+  minUppercase?: number;
+  minLowercase?: number;
+  minNumbers?: number;
+  minSymbols?: number;
+  /** Symbol set (default: '!@#$%^&*()_+-=[]{}|;:,.<>?') */
+  symbols?: string;
+  /** Leave out AMBIGUOUS_CHARACTERS (default: false) */
+  excludeAmbiguous?: boolean;
+  /** Additional characters to leave out */
+  exclude?: string;
+  source?: RandomSource;
+}
+
+/**
+ * Generated password with its entropy in bits
+ */
+export interface GeneratedPassword {
+  password: string;
+  entropy: number;
+}
+
+/**
+ * Generated passphrase with its words and entropy in bits
+ */
+export interface GeneratedPassphrase {
+  passphrase: string;
+  words: string[];
+  entropy: number;
+}
+
+interface CharacterClass {
+  name: string;
+  chars: string[];
+  min: number;
+}
+
+function log2BigInt(n: bigint): number {
+  const bits = n.toString(2).length;
+  if (bits <= 53) {
+    return Math.log2(Number(n));
+  }
+  return Math.log2(Number(n >> BigInt(bits - 53))) + bits - 53;
+}
+
+function roundEntropy(bits: number): number {
+  return Math.round(bits * 100) / 100;
+}
+
+function resolveClasses(policy: PasswordPolicy): CharacterClass[] {
+  const {
+    includeUppercase = true,
+    includeLowercase = true,
+    includeNumbers = true,
+    includeSymbols = true,
+    symbols = DEFAULT_SYMBOLS,
+    excludeAmbiguous = false,
+    exclude = ''
+  } = policy;
+
+  const excluded = new Set(Array.from(exclude + (excludeAmbiguous ? AMBIGUOUS_CHARACTERS : '')));
+  const seen = new Set<string>();
+  const definitions: [string, boolean, string, number | undefined][] = [
+    ['uppercase', includeUppercase, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', policy.minUppercase],
+    ['lowercase', includeLowercase, 'abcdefghijklmnopqrstuvwxyz', policy.minLowercase],
+    ['number', includeNumbers, '0123456789', policy.minNumbers],
+    ['symbol', includeSymbols, symbols, policy.minSymbols]
+  ];
+
+  const classes: CharacterClass[] = [];
+  for (const [name, included, charset, min] of definitions) {
+    if (!included) {
+      if (min) {
+        throw new Error(`Cannot require ${name} characters when they are not included`);
+      }
+      continue;
+    }
+    if (min !== undefined && (!Number.isInteger(min) || min < 0)) {
+      throw new Error('Minimum character counts must be non-negative integers');
+    }
+    // Classes must be disjoint for the count (and so the entropy) to be exact
+    const chars = Array.from(charset).filter(char => !excluded.has(char) && !seen.has(char));
+    chars.forEach(char => seen.add(char));
+    if (chars.length === 0) {
+      throw new Error(`No ${name} characters are left after exclusions`);
+    }
+    classes.push({ name, chars, min: min ?? 1 });
+  }
+
+  if (classes.length === 0) {
+    throw new Error('At least one character type must be included');
+  }
+  return classes;
+}
+
+/**
+ * Largest number of inclusion-exclusion terms (the product of min + 1 over the classes)
+ * evaluated before falling back to the counting table
+ */
+const MAX_EXCLUSION_TERMS = 4096;
+
+/**
+ * Draws to attempt while sampling by rejection before falling back to the counting table
+ */
+const MAX_REJECTION_DRAWS = 256;
+
+/**
+ * Longest password generated, by rejection sampling above MAX_TABLE_LENGTH
+ */
+export const MAX_PASSWORD_LENGTH = 1024;
+
+/**
+ * Longest password the quadratic counting table is built for
+ */
+const MAX_TABLE_LENGTH = 256;
+
+/**
+ * counts[k][n]: number of n-character strings over the first k classes that meet their minimums.
+ * Quadratic in the length, so only built when the cheaper paths do not apply.
+ */
+function countValidStrings(classes: CharacterClass[], length: number): bigint[][] {
+  const counts: bigint[][] = [[1n, ...new Array<bigint>(length).fill(0n)]];
+  for (let k = 0; k < classes.length; k++) {
+    const { chars, min } = classes[k]!;
+    const size = BigInt(chars.length);
+    const previous = counts[k]!;
+    const row: bigint[] = [];
+    for (let n = 0; n <= length; n++) {
+      let total = 0n;
+      let binomial = 1n;
+      let power = 1n;
+      for (let c = 0; c <= n; c++) {
+        if (c >= min) {
+          total += binomial * power * previous[n - c]!;
+        }
+        binomial = binomial * BigInt(n - c) / BigInt(c + 1);
+        power *= size;
+      }
+      row.push(total);
+    }
+    counts.push(row);
+  }
+  return counts;
+}
+
+/**
+ * Number of strings over all classes that meet every minimum, by inclusion-exclusion: all
+ * strings, minus those where one class has exactly c < min characters, and so on
+ * @returns The count, or null when the minimums produce more than MAX_EXCLUSION_TERMS terms
+ */
+function countByInclusionExclusion(classes: CharacterClass[], length: number): bigint | null {
+  if (classes.reduce((acc, cls) => acc * (cls.min + 1), 1) > MAX_EXCLUSION_TERMS) {
+    return null;
+  }
+
+  let total = 0n;
+  // coefficient: ways to place and fill the c characters of each short class chosen so far
+  const visit = (k: number, used: number, free: bigint, coefficient: bigint, negative: boolean): void => {
+    if (k === classes.length) {
+      const term = coefficient * free ** BigInt(length - used);
+      total += negative ? -term : term;
+      return;
+    }
+    const { chars, min } = classes[k]!;
+    const size = BigInt(chars.length);
+    visit(k + 1, used, free + size, coefficient, negative);
+    let binomial = 1n;
+    let power = 1n;
+    for (let c = 0; c < min && used + c <= length; c++) {
+      visit(k + 1, used + c, free, coefficient * binomial * power, !negative);
+      binomial = binomial * BigInt(length - used - c) / BigInt(c + 1);
+      power *= size;
+    }
+  };
+  visit(0, 0, 0n, 1n, false);
+  return total;
+}
+
+/**
+ * Draws characters uniformly from every class together until the result meets the minimums
+ * @returns The password, or null if none of MAX_REJECTION_DRAWS draws met them
+ */
+function drawByRejection(classes: CharacterClass[], length: number, source: RandomSource): string | null {
+  const alphabet = classes.flatMap(cls => cls.chars);
+  const owners = classes.flatMap((cls, k) => cls.chars.map(() => k));
+  for (let attempt = 0; attempt < MAX_REJECTION_DRAWS; attempt++) {
+    const tally = new Array<number>(classes.length).fill(0);
+    let password = '';
+    for (let i = 0; i < length; i++) {
+      const index = uniformInt(alphabet.length, source);
+      const owner = owners[index]!;
+      tally[owner] = tally[owner]! + 1;
+      password += alphabet[index]!;
+    }
+    if (classes.every((cls, k) => tally[k]! >= cls.min)) {
+      return password;
+    }
+  }
+  return null;
+}
+
+/**
+ * Picks how many characters each class contributes, weighted by the number of valid
+ * passwords with that split, then places and fills them uniformly
+ */
+function drawFromCounts(classes: CharacterClass[], counts: bigint[][], length: number, source: RandomSource): string {
+  let remaining = length;
+  const labels: number[] = [];
+  for (let k = classes.length - 1; k >= 0; k--) {
+    const { chars, min } = classes[k]!;
+    let r = uniformBigInt(counts[k + 1]![remaining]!, source);
+    const size = BigInt(chars.length);
+    let binomial = 1n;
+    let power = 1n;
+    let chosen = remaining;
+    for (let c = 0; c <= remaining; c++) {
+      if (c >= min) {
+        const weight = binomial * power * counts[k]![remaining - c]!;
+        if (r < weight) {
+          chosen = c;
+          break;
+        }
+        r -= weight;
+      }
+      binomial = binomial * BigInt(remaining - c) / BigInt(c + 1);
+      power *= size;
+    }
+    for (let i = 0; i < chosen; i++) labels.push(k);
+    remaining -= chosen;
+  }
+
+  return shuffle(labels, source)
+    .map(k => {
+      const { chars } = classes[k]!;
+      return chars[uniformInt(chars.length, source)]!;
+    })
+    .join('');
+}
+
+/**
+ * Generates a password drawn uniformly from all strings that satisfy the policy,
+ * so class minimums are guaranteed without weakening the result. Passwords longer than 256
+ * characters are drawn by retrying random strings, so their minimums must be met by at
+ * least one in eight of them.
+ * @param policy - Length (default: 12, at most MAX_PASSWORD_LENGTH), included classes,
+ *   per-class minimums and exclusions
+ * @returns Password and its entropy in bits (log2 of the number of possible passwords)
+ * @throws If the length is not a positive integer, or is shorter than the sum of the
+ *   class minimums (each included class requires one character unless its minimum is set,
+ *   so the default policy needs a length of at least 4)
+ * @throws RangeError if the length exceeds MAX_PASSWORD_LENGTH, or exceeds 256 with
+ *   minimums too large to meet by chance
+ * @example
+ * generatePasswordWithEntropy({ length: 16, minNumbers: 2, excludeAmbiguous: true })
+ * // { password: 'q7T#vN4e!Rk2xWm@', entropy: 101.7 }
+ */
+export function generatePasswordWithEntropy(policy: PasswordPolicy = {}): GeneratedPassword {
+  const { length = 12, source = getRandomSource() } = policy;
+  if (!Number.isInteger(length) || length < 1) {
+    throw new Error('Length must be a positive integer');
+  }
+  if (length > MAX_PASSWORD_LENGTH) {
+    throw new RangeError(`Length must be at most ${MAX_PASSWORD_LENGTH}`);
+  }
+
+  const classes = resolveClasses(policy);
+  if (classes.reduce((acc, cls) => acc + cls.min, 0) > length) {
+    throw new Error('Minimum character counts exceed the password length');
+  }
+
+  // Retrying unconstrained draws is just as uniform, and cheap while at least one in
+  // eight of them meets the minimums
+  const alphabetSize = BigInt(classes.reduce((acc, cls) => acc + cls.chars.length, 0));
+  const exclusionTotal = countByInclusionExclusion(classes, length);
+  const byRejection = exclusionTotal !== null && exclusionTotal * 8n >= alphabetSize ** BigInt(length);
+  if (!byRejection && length > MAX_TABLE_LENGTH) {
+    throw new RangeError(
+      `Minimum character counts are too large for a ${length}-character password; ` +
+      `lower them or use at most ${MAX_TABLE_LENGTH} characters`
+    );
+  }
+
+  let counts: bigint[][] | null = null;
+  let total = exclusionTotal;
+  if (total === null) {
+    counts = countValidStrings(classes, length);
+    total = counts[classes.length]![length]!;
+  }
+  const password = (byRejection ? drawByRejection(classes, length, source) : null)
+    ?? drawFromCounts(classes, counts ?? countValidStrings(classes, length), length, source);
+
+  return { password, entropy: roundEntropy(log2BigInt(total)) };
+}
+
+/**
+ * Generates a Diceware-style passphrase from the embedded 1296-word list
+ * (about 10.3 bits per word)
+ * @param options - Number of words (default: 6), separator (default: '-'), whether to
+ *   capitalize each word, whether to append a digit to one random word, and a custom wordlist
+ * @returns Passphrase, its words and its entropy in bits
+ * @example
+ * generatePassphrase({ words: 5 })
+ * // { passphrase: 'otter-glacier-ribbon-fudge-lantern', words: [...], entropy: 51.7 }
+ */
+export function generatePassphrase(options: {
+  words?: number;
+  separator?: string;
+  capitalize?: boolean;
+  includeNumber?: boolean;
+  wordlist?: readonly string[];
+  source?: RandomSource;
+} = {}): GeneratedPassphrase {
+  const {
+    words: count = 6,
+    separator = '-',
+    capitalize = false,
+    includeNumber = false,
+    wordlist = PASSPHRASE_WORDLIST,
+    source = getRandomSource()
+  } = options;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('Word count must be a positive integer');
+  }
+
+  const unique = Array.from(new Set(wordlist));
+  if (unique.length < 2) {
+    throw new Error('Wordlist must contain at least two distinct words');
+  }
+
+  const words: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const word = unique[uniformInt(unique.length, source)]!;
+    words.push(capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word);
+  }
+
+  let entropy = count * Math.log2(unique.length);
+  if (includeNumber) {
+    const index = uniformInt(count, source);
+    words[index] += String(uniformInt(10, source));
+    entropy += Math.log2(10 * count);
+  }
+
+  return { passphrase: words.join(separator), words, entropy: roundEntropy(entropy) };
+}
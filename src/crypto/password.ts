@@ -0,0 +1,218 @@
+/**
+ * Password hashing and verification with self-describing PHC-style strings
+ */
+
+import { decodeBase64, encodeBase64 } from './encoding';
+import { timingSafeEqual } from './hmac';
+import { pbkdf2, scrypt } from './kdf';
+import { cryptoRandomSource, randomBytes } from './random';
+
+/**
+ * Supported password hashing schemes
+ */
+export type PasswordHashAlgorithm = 'pbkdf2-sha256' | 'pbkdf2-sha512' | 'scrypt';
+
+/**
+ * Cost parameters for hashPassword and needsRehash
+ */
+export interface PasswordHashOptions {
+  algorithm?: PasswordHashAlgorithm;
+  /** PBKDF2 iterations (default: 600000 for SHA-256, 210000 for SHA-512) */
+  iterations?: number;
+  /** scrypt cost as log2(N) (default: 15) */
+  cost?: number;
+  /** scrypt block size r (default: 8) */
+  blockSize?: number;
+  /** scrypt parallelism p (default: 1) */
+  parallelism?: number;
+  /** Salt length in bytes, at least 8 (default: 16) */
+  saltLength?: number;
+  /** Hash length in bytes (default: 32) */
+  keyLength?: number;
+}
+
+/**
+ * Upper bounds on the cost parameters verifyPassword accepts from a stored hash
+ */
+export interface PasswordVerifyLimits {
+  /** PBKDF2 iterations (default: 10 times the algorithm's default) */
+  maxIterations?: number;
+  /** scrypt block size r (default: 64) */
+  maxBlockSize?: number;
+  /** scrypt parallelism p (default: 16) */
+  maxParallelism?: number;
+}
+
+interface ParsedPasswordHash {
+  algorithm: PasswordHashAlgorithm;
+  params: Record<string, number>;
+  salt: Uint8Array;
+  hash: Uint8Array;
+}
+
+const DEFAULT_ITERATIONS: Record<string, number> = {
+  'pbkdf2-sha256': 600000,
+  'pbkdf2-sha512': 210000
+};
+
+function resolveOptions(options: PasswordHashOptions) {
+  const algorithm = options.algorithm ?? 'pbkdf2-sha256';
+  if (!['pbkdf2-sha256', 'pbkdf2-sha512', 'scrypt'].includes(algorithm)) {
+    throw new Error(`Unsupported password hash algorithm: ${algorithm}`);
+  }
+  const saltLength = options.saltLength ?? 16;
+  if (!Number.isInteger(saltLength) || saltLength < 8) {
+    throw new Error('Salt length must be an integer of at least 8 bytes');
+  }
+  return {
+    algorithm,
+    iterations: options.iterations ?? DEFAULT_ITERATIONS[algorithm] ?? 0,
+    cost: options.cost ?? 15,
+    blockSize: options.blockSize ?? 8,
+    parallelism: options.parallelism ?? 1,
+    saltLength,
+    keyLength: options.keyLength ?? 32
+  };
+}
+
+function parsePasswordHash(stored: string): ParsedPasswordHash | null {
+  if (typeof stored !== 'string') return null;
+  const match = /^\$(pbkdf2-sha256|pbkdf2-sha512|scrypt)\$([a-z]+=\d+(?:,[a-z]+=\d+)*)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/.exec(stored);
+  if (!match) return null;
+
+  const params: Record<string, number> = {};
+  for (const pair of match[2]!.split(',')) {
+    const [name, value] = pair.split('=') as [string, string];
+    params[name] = Number(value);
+  }
+
+  try {
+    return {
+      algorithm: match[1] as PasswordHashAlgorithm,
+      params,
+      salt: decodeBase64(match[3]!),
+      hash: decodeBase64(match[4]!)
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function derive(
+  password: string,
+  algorithm: PasswordHashAlgorithm,
+  params: Record<string, number>,
+  salt: Uint8Array,
+  keyLength: number
+): Promise<Uint8Array> {
+  if (algorithm === 'scrypt') {
+    const { ln, r, p } = params;
+    if (ln === undefined || r === undefined || p === undefined || ln < 1 || ln > 30) {
+      throw new Error('Invalid scrypt parameters');
+    }
+    return scrypt(password, salt, { N: 2 ** ln, r, p, keyLength });
+  }
+
+  const iterations = params['i'];
+  if (iterations === undefined) {
+    throw new Error('Invalid PBKDF2 parameters');
+  }
+  return pbkdf2(password, salt, {
+    iterations,
+    keyLength,
+    hash: algorithm === 'pbkdf2-sha512' ? 'sha512' : 'sha256'
+  });
+}
+
+/**
+ * Hashes a password for storage
+ * @param password - Plain-text password (UTF-8 encoded)
+ * @param options - Algorithm and cost parameters
+ * @returns PHC-style string with algorithm, parameters, salt and hash
+ * @example
+ * await hashPassword(generatePassword())
+ * // '$pbkdf2-sha256$i=600000$Jm9o2Y0S8Yt1m7p0Zb0n1A$9Yf...'
+ * await hashPassword('hunter2', { algorithm: 'scrypt' })
+ * // '$scrypt$ln=15,r=8,p=1$...$...'
+ */
+export async function hashPassword(password: string, options: PasswordHashOptions = {}): Promise<string> {
+  if (typeof password !== 'string') {
+    throw new TypeError('Password must be a string');
+  }
+
+  const resolved = resolveOptions(options);
+  const params: Record<string, number> = resolved.algorithm === 'scrypt'
+    ? { ln: resolved.cost, r: resolved.blockSize, p: resolved.parallelism }
+    : { i: resolved.iterations };
+  const salt = randomBytes(resolved.saltLength, cryptoRandomSource);
+  const hash = await derive(password, resolved.algorithm, params, salt, resolved.keyLength);
+
+  const paramString = Object.entries(params).map(([name, value]) => `${name}=${value}`).join(',');
+  return `$${resolved.algorithm}$${paramString}$${encodeBase64(salt, { padding: false })}$${encodeBase64(hash, { padding: false })}`;
+}
+
+/**
+ * Whether a stored hash asks for more work than the limits allow; the parameters are read
+ * before anything is verified, so a tampered hash could otherwise pin the CPU
+ */
+function exceedsLimits({ algorithm, params }: ParsedPasswordHash, limits: PasswordVerifyLimits): boolean {
+  if (algorithm === 'scrypt') {
+    const { maxBlockSize = 64, maxParallelism = 16 } = limits;
+    return (params['r'] ?? 0) > maxBlockSize || (params['p'] ?? 0) > maxParallelism;
+  }
+  const { maxIterations = DEFAULT_ITERATIONS[algorithm]! * 10 } = limits;
+  return (params['i'] ?? 0) > maxIterations;
+}
+
+/**
+ * Verifies a password against a stored hash in constant time
+ * @param password - Plain-text password to check
+ * @param stored - String produced by hashPassword
+ * @param limits - Largest PBKDF2 iteration count and scrypt r and p accepted from the hash
+ * @returns True if the password matches; false for wrong passwords, unrecognized hashes
+ *   and hashes whose parameters exceed the limits
+ * @example
+ * await verifyPassword('hunter2', user.passwordHash) // true
+ */
+export async function verifyPassword(password: string, stored: string, limits: PasswordVerifyLimits = {}): Promise<boolean> {
+  const parsed = parsePasswordHash(stored);
+  if (!parsed || typeof password !== 'string' || exceedsLimits(parsed, limits)) {
+    return false;
+  }
+
+  let hash: Uint8Array;
+  try {
+    hash = await derive(password, parsed.algorithm, parsed.params, parsed.salt, parsed.hash.length);
+  } catch {
+    return false;
+  }
+  return timingSafeEqual(hash, parsed.hash);
+}
+
+/**
+ * Checks whether a stored hash was made with a different algorithm or weaker
+ * parameters than currently configured, so it can be upgraded after a successful login
+ * @param stored - String produced by hashPassword
+ * @param options - Current algorithm and cost parameters
+ * @returns True if the hash should be recomputed
+ * @example
+ * if (await verifyPassword(input, stored) && needsRehash(stored, { iterations: 800000 })) {
+ *   stored = await hashPassword(input, { iterations: 800000 });
+ * }
+ */
+export function needsRehash(stored: string, options: PasswordHashOptions = {}): boolean {
+  const parsed = parsePasswordHash(stored);
+  if (!parsed) return true;
+
+  const resolved = resolveOptions(options);
+  if (parsed.algorithm !== resolved.algorithm) return true;
+  if (parsed.hash.length < resolved.keyLength || parsed.salt.length < resolved.saltLength) return true;
+
+  const { params } = parsed;
+  if (resolved.algorithm === 'scrypt') {
+    return (params['ln'] ?? 0) < resolved.cost ||
+      (params['r'] ?? 0) < resolved.blockSize ||
+      (params['p'] ?? 0) < resolved.parallelism;
+  }
+  return (params['i'] ?? 0) < resolved.iterations;
+}
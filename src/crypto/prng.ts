@@ -0,0 +1,216 @@
+/**
+ * Seedable deterministic pseudo-random generators for reproducible tests and
+ * simulations (not suitable for secrets; use the default crypto source instead)
+ */
+
+import { shuffle } from '../array';
+import { sha256 } from './hash';
+import { RandomSource, uniformFloat, uniformInt } from './random';
+
+/**
+ * Seed accepted by the generators; strings are hashed into a 32-bit seed
+ */
+export type Seed = number | string;
+
+/**
+ * Supported generator algorithms
+ */
+export type PrngAlgorithm = 'xoshiro128**' | 'mulberry32' | 'pcg32';
+
+/**
+ * Seeded generator; also usable anywhere a RandomSource is accepted
+ */
+export interface Prng extends RandomSource {
+  /** Returns a float in [0, 1), like Math.random */
+  next(): number;
+  /** Returns an integer between min and max (inclusive) */
+  int(min: number, max: number): number;
+  /** Returns a float between min (inclusive) and max (exclusive) */
+  float(min?: number, max?: number): number;
+  /** Returns a random element of a non-empty array */
+  pick<T>(arr: readonly T[]): T;
+  /** Returns a new shuffled copy of an array */
+  shuffle<T>(arr: T[]): T[];
+  /** Returns an independent generator of the same algorithm seeded from this one */
+  fork(): Prng;
+}
+
+function seedToUint32(seed: Seed): number {
+  if (typeof seed === 'string') {
+    return new DataView(sha256(seed, 'bytes').buffer).getUint32(0);
+  }
+  if (typeof seed !== 'number' || !Number.isInteger(seed)) {
+    throw new TypeError('Seed must be an integer or a string');
+  }
+  const low = seed >>> 0;
+  const high = Math.floor(seed / 0x100000000) >>> 0;
+  return (low ^ Math.imul(high, 0x9e3779b1)) >>> 0;
+}
+
+function splitmix32(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    return (z ^ (z >>> 15)) >>> 0;
+  };
+}
+
+function buildPrng(nextUint32: () => number, fork: () => Prng): Prng {
+  const prng: Prng = {
+    nextUint32,
+
+    next(): number {
+      return uniformFloat(prng);
+    },
+
+    int(min: number, max: number): number {
+      if (!Number.isInteger(min) || !Number.isInteger(max)) {
+        throw new Error('Arguments must be integers');
+      }
+      if (min > max) {
+        throw new Error('min cannot be greater than max');
+      }
+      return uniformInt(max - min + 1, prng) + min;
+    },
+
+    float(min = 0, max = 1): number {
+      if (min >= max) {
+        throw new Error('min must be less than max');
+      }
+      return uniformFloat(prng) * (max - min) + min;
+    },
+
+    pick<T>(arr: readonly T[]): T {
+      if (!Array.isArray(arr) || arr.length === 0) {
+        throw new Error('Expected a non-empty array');
+      }
+      return arr[uniformInt(arr.length, prng)] as T;
+    },
+
+    shuffle<T>(arr: T[]): T[] {
+      return shuffle(arr, prng);
+    },
+
+    fork
+  };
+
+  return prng;
+}
+
+function rotl(x: number, n: number): number {
+  return (x << n) | (x >>> (32 - n));
+}
+
+/**
+ * Creates a xoshiro128** generator (fast, 128-bit state, good statistical quality)
+ * @param seed - Integer or string seed
+ * @returns Seeded generator
+ * @example
+ * const rng = createXoshiro128(42);
+ * rng.int(1, 6) // same value on every run
+ */
+export function createXoshiro128(seed: Seed): Prng {
+  const expand = splitmix32(seedToUint32(seed));
+  return xoshiro128FromState([expand(), expand(), expand(), expand()]);
+}
+
+function xoshiro128FromState(words: number[]): Prng {
+  let s0 = words[0]! | 0, s1 = words[1]! | 0, s2 = words[2]! | 0, s3 = words[3]! | 0;
+  if ((s0 | s1 | s2 | s3) === 0) {
+    s0 = 1;
+  }
+
+  const nextUint32 = (): number => {
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+    const t = s1 << 9;
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+    return result;
+  };
+
+  return buildPrng(nextUint32, () => xoshiro128FromState([nextUint32(), nextUint32(), nextUint32(), nextUint32()]));
+}
+
+/**
+ * Creates a mulberry32 generator (tiny 32-bit state, compatible with the common JS snippet)
+ * @param seed - Integer or string seed
+ * @returns Seeded generator
+ * @example
+ * createMulberry32(1).nextUint32() / 2 ** 32 // 0.6270739405881613
+ */
+export function createMulberry32(seed: Seed): Prng {
+  let state = seedToUint32(seed) | 0;
+
+  const nextUint32 = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+
+  return buildPrng(nextUint32, () => createMulberry32(nextUint32()));
+}
+
+const PCG_MULTIPLIER = 6364136223846793005n;
+const MASK_64 = 0xffffffffffffffffn;
+
+/**
+ * Creates a PCG32 (XSH RR) generator with selectable stream
+ * @param seed - Integer or string seed
+ * @param stream - Stream selector; generators with different streams never overlap (default: 0)
+ * @returns Seeded generator
+ * @example
+ * createPcg32(42, 54).nextUint32() // 0xa15c02b7, matching the reference implementation
+ */
+export function createPcg32(seed: Seed, stream = 0): Prng {
+  if (!Number.isInteger(stream) || stream < 0) {
+    throw new Error('Stream must be a non-negative integer');
+  }
+
+  const increment = ((BigInt(stream) << 1n) | 1n) & MASK_64;
+  let state = 0n;
+
+  const nextUint32 = (): number => {
+    const old = state;
+    state = (old * PCG_MULTIPLIER + increment) & MASK_64;
+    const xorShifted = Number((((old >> 18n) ^ old) >> 27n) & 0xffffffffn);
+    const rot = Number(old >> 59n);
+    return ((xorShifted >>> rot) | (xorShifted << ((32 - rot) & 31))) >>> 0;
+  };
+
+  nextUint32();
+  state = (state + BigInt(seedToUint32(seed))) & MASK_64;
+  nextUint32();
+
+  return buildPrng(nextUint32, () => createPcg32(nextUint32(), nextUint32() >>> 1));
+}
+
+/**
+ * Creates a seeded generator
+ * @param seed - Integer or string seed
+ * @param algorithm - Generator algorithm (default: 'xoshiro128**')
+ * @returns Seeded generator
+ * @example
+ * const rng = createPrng('snapshot-test');
+ * rng.shuffle([1, 2, 3, 4]) // same order on every run
+ * randomInt(1, 10, rng) // any random helper accepts the generator as its source
+ */
+export function createPrng(seed: Seed, algorithm: PrngAlgorithm = 'xoshiro128**'): Prng {
+  switch (algorithm) {
+    case 'xoshiro128**':
+      return createXoshiro128(seed);
+    case 'mulberry32':
+      return createMulberry32(seed);
+    case 'pcg32':
+      return createPcg32(seed);
+    default:
+      throw new Error(`Unsupported PRNG algorithm: ${algorithm}`);
+  }
+}
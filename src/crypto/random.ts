@@ -0,0 +1,176 @@
+/**
+ * Random source abstraction used by every random helper in the library
+ */
+
+import { getWebCrypto } from './webcrypto';
+
+/**
+ * Source of uniformly distributed random 32-bit integers
+ */
+export interface RandomSource {
+  nextUint32(): number;
+}
+
+const POOL_SIZE = 256;
+const pool = new Uint32Array(POOL_SIZE);
+let poolIndex = POOL_SIZE;
+
+/**
+ * Cryptographically secure source backed by crypto.getRandomValues
+ */
+export const cryptoRandomSource: RandomSource = {
+  nextUint32(): number {
+    if (poolIndex >= POOL_SIZE) {
+      getWebCrypto().getRandomValues(pool);
+      poolIndex = 0;
+    }
+    return pool[poolIndex++]!;
+  }
+};
+
+let currentSource: RandomSource = cryptoRandomSource;
+
+/**
+ * Returns the process-wide random source
+ */
+export function getRandomSource(): RandomSource {
+  return currentSource;
+}
+
+/**
+ * Replaces the process-wide random source used by all random helpers
+ * @param source - New source, or undefined to restore the secure default
+ * @example
+ * setRandomSource({ nextUint32: () => myGenerator.next() })
+ * setRandomSource() // back to crypto.getRandomValues
+ */
+export function setRandomSource(source?: RandomSource): void {
+  if (source !== undefined && typeof source.nextUint32 !== 'function') {
+    throw new TypeError('Random source must implement nextUint32()');
+  }
+  currentSource = source ?? cryptoRandomSource;
+}
+
+/**
+ * Runs a synchronous callback with a different process-wide random source
+ * @param source - Source to use while the callback runs
+ * @param fn - Callback; the previous source is restored when it returns or throws
+ * @returns The callback's return value
+ * @example
+ * withRandomSource(createPrng(42), () => shuffle([1, 2, 3, 4])) // same order on every run
+ */
+export function withRandomSource<T>(source: RandomSource, fn: () => T): T {
+  const previous = currentSource;
+  setRandomSource(source);
+  try {
+    return fn();
+  } finally {
+    currentSource = previous;
+  }
+}
+
+const TWO_32 = 0x100000000;
+const TWO_53 = 0x20000000000000;
+
+/**
+ * Returns an unbiased integer in [0, n) using rejection sampling
+ * @param n - Exclusive upper bound (positive integer up to 2^53)
+ * @param source - Random source (default: process-wide source)
+ */
+export function uniformInt(n: number, source: RandomSource = currentSource): number {
+  if (!Number.isInteger(n) || n <= 0 || n > TWO_53) {
+    throw new RangeError('Bound must be a positive integer no greater than 2^53');
+  }
+
+  if (n <= TWO_32) {
+    const limit = TWO_32 - (TWO_32 % n);
+    let value: number;
+    do {
+      value = source.nextUint32() >>> 0;
+    } while (value >= limit);
+    return value % n;
+  }
+
+  const limit = TWO_53 - (TWO_53 % n);
+  let value: number;
+  do {
+    value = (source.nextUint32() >>> 11) * TWO_32 + (source.nextUint32() >>> 0);
+  } while (value >= limit);
+  return value % n;
+}
+
+/**
+ * Returns an unbiased bigint in [0, n) using rejection sampling, for bounds beyond 2^53
+ * @param n - Exclusive upper bound (positive bigint)
+ * @param source - Random source (default: process-wide source)
+ */
+export function uniformBigInt(n: bigint, source: RandomSource = currentSource): bigint {
+  if (n <= 0n) {
+    throw new RangeError('Bound must be a positive integer');
+  }
+  if (n <= BigInt(TWO_53)) {
+    return BigInt(uniformInt(Number(n), source));
+  }
+
+  const bits = (n - 1n).toString(2).length;
+  const words = Math.ceil(bits / 32);
+  const excess = BigInt(words * 32 - bits);
+  let value: bigint;
+  do {
+    value = 0n;
+    for (let i = 0; i < words; i++) {
+      value = (value << 32n) | BigInt(source.nextUint32() >>> 0);
+    }
+    value >>= excess;
+  } while (value >= n);
+  return value;
+}
+
+/**
+ * Returns a float in [0, 1) with 53 bits of randomness
+ * @param source - Random source (default: process-wide source)
+ */
+export function uniformFloat(source: RandomSource = currentSource): number {
+  const high = source.nextUint32() >>> 5;
+  const low = source.nextUint32() >>> 6;
+  return (high * 0x4000000 + low) / TWO_53;
+}
+
+/**
+ * Generates random bytes
+ * @param length - Number of bytes to generate
+ * @param source - Random source (default: process-wide source)
+ * @returns Array of random bytes
+ * @example
+ * randomBytes(16) // Uint8Array(16) [...]
+ */
+export function randomBytes(length: number, source: RandomSource = currentSource): Uint8Array {
+  if (!Number.isInteger(length) || length < 0) {
+    throw new Error('Length must be a non-negative integer');
+  }
+
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i += 4) {
+    let value = source.nextUint32();
+    for (let j = i; j < Math.min(i + 4, length); j++) {
+      bytes[j] = value & 0xff;
+      value >>>= 8;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Builds a string by picking unbiased random characters from a charset
+ * @param length - Length of the string
+ * @param charset - Characters to pick from
+ * @param source - Random source (default: process-wide source)
+ */
+export function randomChars(length: number, charset: string, source: RandomSource = currentSource): string {
+  const chars = Array.from(charset);
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += chars[uniformInt(chars.length, source)];
+  }
+  return result;
+}
@@ -0,0 +1,260 @@
+/**
+ * Key-to-node assignment that moves few keys when nodes change: a consistent-hash
+ * ring with virtual nodes and weighted rendezvous (highest random weight) hashing
+ */
+
+import { xxhash32 } from './checksums';
+
+/**
+ * Node entry: an id, optionally with a relative weight (default: 1)
+ */
+export type ShardNode = string | { node: string; weight?: number };
+
+/**
+ * Anything that maps a key to a node: a ring, a rendezvous hash or a plain function
+ */
+export type KeyAssigner = { getNode(key: string): string | undefined } | ((key: string) => string | undefined);
+
+/**
+ * Node management and lookup shared by both strategies
+ */
+interface ShardMap<Self> {
+  /** Node ids in insertion order */
+  readonly nodes: string[];
+  /** Adds a node, or updates its weight if it already exists */
+  addNode(node: string, weight?: number): Self;
+  /** Removes a node; returns false if it was not present */
+  removeNode(node: string): boolean;
+  /** Returns the node responsible for a key, or undefined if there are no nodes */
+  getNode(key: string): string | undefined;
+  /** Returns up to `count` distinct nodes for a key, in preference order (for replication) */
+  getNodes(key: string, count: number): string[];
+  /** Returns an independent copy, e.g. to measure the effect of a change */
+  clone(): Self;
+}
+
+/**
+ * Consistent-hash ring
+ */
+export interface HashRing extends ShardMap<HashRing> {
+  /** Number of points on the ring */
+  readonly size: number;
+}
+
+/**
+ * Rendezvous (HRW) hash
+ */
+export type RendezvousHash = ShardMap<RendezvousHash>;
+
+/**
+ * Result of measureKeyMovement
+ */
+export interface KeyMovement {
+  moved: number;
+  total: number;
+  /** Fraction of keys that moved, 0 to 1 */
+  ratio: number;
+}
+
+type HashFunction = (key: string) => number;
+
+function validateWeight(weight: number): number {
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+    throw new Error('Node weight must be a positive number');
+  }
+  return weight;
+}
+
+function normalizeNodes(nodes: ShardNode[]): [string, number][] {
+  return nodes.map(entry => typeof entry === 'string' ? [entry, 1] : [entry.node, entry.weight ?? 1]);
+}
+
+function lowerBound(points: Uint32Array, value: number): number {
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (points[mid]! < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Creates a consistent-hash ring; each node gets `virtualNodes × weight` points so load
+ * follows weight, and adding or removing a node only moves the keys on its arcs
+ * @param nodes - Initial nodes, as ids or { node, weight }
+ * @param options - Points per unit of weight (default: 160) and a 32-bit hash (default: xxhash32)
+ * @returns Mutable ring
+ * @example
+ * const ring = createHashRing(['cache-a', 'cache-b', { node: 'cache-c', weight: 2 }]);
+ * ring.getNode('user:42') // 'cache-a'
+ * ring.getNodes('user:42', 2) // ['cache-a', 'cache-c']
+ */
+export function createHashRing(
+  nodes: ShardNode[] = [],
+  options: { virtualNodes?: number; hash?: HashFunction } = {}
+): HashRing {
+  const { virtualNodes = 160, hash = xxhash32 } = options;
+  if (!Number.isInteger(virtualNodes) || virtualNodes < 1) {
+    throw new Error('Virtual nodes must be a positive integer');
+  }
+
+  const weights = new Map<string, number>();
+  let points = new Uint32Array(0);
+  let owners: string[] = [];
+
+  const rebuild = () => {
+    const entries: [number, string][] = [];
+    for (const [node, weight] of weights) {
+      const replicas = Math.max(1, Math.round(virtualNodes * weight));
+      for (let i = 0; i < replicas; i++) {
+        entries.push([hash(`${node}#${i}`) >>> 0, node]);
+      }
+    }
+    // Ties are broken by node id so the ring does not depend on insertion order
+    entries.sort((a, b) => a[0] - b[0] || (a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0));
+    points = Uint32Array.from(entries, entry => entry[0]);
+    owners = entries.map(entry => entry[1]);
+  };
+
+  const ring: HashRing = {
+    get nodes() {
+      return Array.from(weights.keys());
+    },
+    get size() {
+      return points.length;
+    },
+    addNode(node, weight = 1) {
+      weights.set(node, validateWeight(weight));
+      rebuild();
+      return ring;
+    },
+    removeNode(node) {
+      if (!weights.delete(node)) return false;
+      rebuild();
+      return true;
+    },
+    getNode(key) {
+      if (points.length === 0) return undefined;
+      const index = lowerBound(points, hash(key) >>> 0);
+      return owners[index === points.length ? 0 : index];
+    },
+    getNodes(key, count) {
+      const result: string[] = [];
+      if (points.length === 0) return result;
+      const wanted = Math.min(count, weights.size);
+      const start = lowerBound(points, hash(key) >>> 0);
+      for (let i = 0; i < points.length && result.length < wanted; i++) {
+        const owner = owners[(start + i) % points.length]!;
+        if (!result.includes(owner)) result.push(owner);
+      }
+      return result;
+    },
+    clone() {
+      return createHashRing(Array.from(weights, ([node, weight]) => ({ node, weight })), { virtualNodes, hash });
+    }
+  };
+
+  for (const [node, weight] of normalizeNodes(nodes)) {
+    weights.set(node, validateWeight(weight));
+  }
+  rebuild();
+  return ring;
+}
+
+/**
+ * Creates a rendezvous (highest random weight) hash: every node scores every key and
+ * the highest score wins, so only keys owned by a removed node move. Lookups are
+ * O(nodes) with no ring to maintain.
+ * @param nodes - Initial nodes, as ids or { node, weight }
+ * @param options - 32-bit hash (default: xxhash32)
+ * @returns Mutable rendezvous hash
+ * @example
+ * const hrw = createRendezvousHash(['a', 'b', 'c']);
+ * hrw.getNode('user:42') // 'a'
+ */
+export function createRendezvousHash(
+  nodes: ShardNode[] = [],
+  options: { hash?: HashFunction } = {}
+): RendezvousHash {
+  const { hash = xxhash32 } = options;
+  const weights = new Map<string, number>();
+
+  // Weighted HRW: -w / ln(u) with u uniform in (0, 1) gives each node a share proportional to w
+  const score = (node: string, weight: number, key: string) => {
+    const u = ((hash(`${node}\u0000${key}`) >>> 0) + 0.5) / 0x100000000;
+    return -weight / Math.log(u);
+  };
+
+  const ranked = (key: string) =>
+    Array.from(weights, ([node, weight]) => ({ node, score: score(node, weight, key) }))
+      .sort((a, b) => b.score - a.score || (a.node < b.node ? -1 : a.node > b.node ? 1 : 0));
+
+  const rendezvous: RendezvousHash = {
+    get nodes() {
+      return Array.from(weights.keys());
+    },
+    addNode(node, weight = 1) {
+      weights.set(node, validateWeight(weight));
+      return rendezvous;
+    },
+    removeNode(node) {
+      return weights.delete(node);
+    },
+    getNode(key) {
+      let best: string | undefined;
+      let bestScore = -Infinity;
+      for (const [node, weight] of weights) {
+        const value = score(node, weight, key);
+        if (value > bestScore || (value === bestScore && best !== undefined && node < best)) {
+          best = node;
+          bestScore = value;
+        }
+      }
+      return best;
+    },
+    getNodes(key, count) {
+      return ranked(key).slice(0, Math.max(0, count)).map(entry => entry.node);
+    },
+    clone() {
+      return createRendezvousHash(Array.from(weights, ([node, weight]) => ({ node, weight })), { hash });
+    }
+  };
+
+  for (const [node, weight] of normalizeNodes(nodes)) {
+    weights.set(node, validateWeight(weight));
+  }
+  return rendezvous;
+}
+
+/**
+ * Counts how many keys are assigned to a different node by two assigners,
+ * e.g. a ring before and after adding a node
+ * @param keys - Sample keys
+ * @param before - Original assignment
+ * @param after - New assignment
+ * @returns Number, total and fraction of keys that moved
+ * @example
+ * const next = ring.clone().addNode('cache-d');
+ * measureKeyMovement(keys, ring, next) // { moved: 1861, total: 10000, ratio: 0.1861 }
+ * measureKeyMovement(keys, key => nodes[simpleHash(key) % 3], key => nodes[simpleHash(key) % 4])
+ * // { moved: 7501, total: 10000, ratio: 0.7501 }
+ */
+export function measureKeyMovement(keys: Iterable<string>, before: KeyAssigner, after: KeyAssigner): KeyMovement {
+  const lookup = (assigner: KeyAssigner) =>
+    typeof assigner === 'function' ? assigner : (key: string) => assigner.getNode(key);
+  const from = lookup(before);
+  const to = lookup(after);
+
+  let moved = 0;
+  let total = 0;
+  for (const key of keys) {
+    total++;
+    if (from(key) !== to(key)) moved++;
+  }
+  return { moved, total, ratio: total === 0 ? 0 : moved / total };
+}
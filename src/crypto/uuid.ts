@@ -0,0 +1,321 @@
+/**
+ * UUID (RFC 9562) and other unique ID generators
+ */
+
+import { BinaryLike, concatBytes, toBytes } from './bytes';
+import { encodeHex } from './encoding';
+import { createHash } from './hash';
+import { RandomSource, randomBytes, randomChars, uniformInt } from './random';
+
+/**
+ * Well-known namespaces for name-based (v3/v5) UUIDs
+ */
+export const UUID_NAMESPACES = {
+  DNS: '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+  URL: '6ba7b811-9dad-11d1-80b4-00c04fd430c8',
+  OID: '6ba7b812-9dad-11d1-80b4-00c04fd430c8',
+  X500: '6ba7b814-9dad-11d1-80b4-00c04fd430c8'
+} as const;
+
+/**
+ * The nil UUID (all bits zero)
+ */
+export const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * The max UUID (all bits one)
+ */
+export const MAX_UUID = 'ffffffff-ffff-ffff-ffff-ffffffffffff';
+
+/**
+ * Variant field of a UUID
+ */
+export type UUIDVariant = 'NCS' | 'RFC9562' | 'Microsoft' | 'Future';
+
+/**
+ * Fields extracted by parseUUID
+ */
+export interface ParsedUUID {
+  version: number;
+  variant: UUIDVariant;
+  /** Embedded creation time for v1, v6 and v7 UUIDs */
+  timestamp?: Date;
+  /** Clock sequence for v1 and v6 UUIDs */
+  clockSeq?: number;
+  /** Node identifier (hex) for v1 and v6 UUIDs */
+  node?: string;
+}
+
+/**
+ * Alphabet used by generateNanoId by default (URL-safe)
+ */
+export const NANOID_ALPHABET = 'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbhijklqtfgvrz';
+
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Offset between the Gregorian epoch (1582-10-15) and the Unix epoch in milliseconds
+const GREGORIAN_OFFSET_MS = 12219292800000;
+
+/**
+ * Formats 16 bytes in canonical 8-4-4-4-12 UUID form
+ */
+export function bytesToUUID(bytes: Uint8Array): string {
+  const hex = encodeHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function setVersion(bytes: Uint8Array, version: number): Uint8Array {
+  bytes[6] = (bytes[6]! & 0x0f) | (version << 4);
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+  return bytes;
+}
+
+function resolveTimestamp(timestamp: number | Date | undefined): number {
+  const ms = timestamp === undefined ? Date.now() : timestamp instanceof Date ? timestamp.getTime() : timestamp;
+  if (!Number.isInteger(ms) || ms < 0) {
+    throw new Error('Timestamp must be a non-negative integer number of milliseconds');
+  }
+  return ms;
+}
+
+let v1State: { lastMs: number; ticks: number; clockSeq: number; node: Uint8Array } | undefined;
+
+/**
+ * Generates a time-based UUID v1 (random node ID with the multicast bit set)
+ * @param options - Optional timestamp and random source
+ * @returns UUID v1 string
+ * @example
+ * generateUUIDv1() // 'd9428888-122b-11e1-b85c-61cd3cbb3210'
+ */
+export function generateUUIDv1(options: { timestamp?: number | Date; source?: RandomSource } = {}): string {
+  const { source } = options;
+  const ms = resolveTimestamp(options.timestamp);
+
+  if (!v1State) {
+    const node = randomBytes(6, source);
+    node[0] = node[0]! | 0x01;
+    v1State = { lastMs: -1, ticks: 0, clockSeq: uniformInt(0x4000, source), node };
+  }
+
+  // Up to 10,000 UUIDs per millisecond use the sub-millisecond 100ns ticks
+  if (ms > v1State.lastMs) {
+    v1State.ticks = 0;
+  } else if (ms === v1State.lastMs && v1State.ticks < 9999) {
+    v1State.ticks++;
+  } else {
+    v1State.clockSeq = (v1State.clockSeq + 1) & 0x3fff;
+    v1State.ticks = 0;
+  }
+  v1State.lastMs = ms;
+
+  const time = (BigInt(ms) + BigInt(GREGORIAN_OFFSET_MS)) * 10000n + BigInt(v1State.ticks);
+  const timeLow = Number(time & 0xffffffffn);
+  const timeMid = Number((time >> 32n) & 0xffffn);
+  const timeHigh = Number((time >> 48n) & 0x0fffn);
+
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, timeLow);
+  view.setUint16(4, timeMid);
+  view.setUint16(6, timeHigh);
+  view.setUint16(8, v1State.clockSeq);
+  bytes.set(v1State.node, 10);
+
+  return bytesToUUID(setVersion(bytes, 1));
+}
+
+/**
+ * UUID text that validation's isValidUUID accepts: versions 1-8 with the RFC variant, nil or
+ * max. Checked here so crypto does not pull in the validation module.
+ */
+const NAMESPACE_PATTERN =
+  /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}|0{8}-0{4}-0{4}-0{4}-0{12}|f{8}-f{4}-f{4}-f{4}-f{12})$/i;
+
+function nameBasedUUID(algorithm: 'md5' | 'sha1', version: number, namespace: string, name: BinaryLike): string {
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error('Namespace must be a valid UUID');
+  }
+  const digest = createHash(algorithm)
+    .update(concatBytes(uuidToBytes(namespace), toBytes(name)))
+    .digest('bytes');
+  return bytesToUUID(setVersion(digest.slice(0, 16), version));
+}
+
+/**
+ * Generates a name-based UUID v3 (MD5); prefer v5 for new code
+ * @param namespace - Namespace UUID (see UUID_NAMESPACES)
+ * @param name - Name within the namespace (strings are UTF-8 encoded)
+ * @returns Deterministic UUID v3 string
+ * @example
+ * generateUUIDv3(UUID_NAMESPACES.DNS, 'www.example.com') // '5df41881-3aed-3515-88a7-2f4a814cf09e'
+ */
+export function generateUUIDv3(namespace: string, name: BinaryLike): string {
+  return nameBasedUUID('md5', 3, namespace, name);
+}
+
+/**
+ * Generates a name-based UUID v5 (SHA-1)
+ * @param namespace - Namespace UUID (see UUID_NAMESPACES)
+ * @param name - Name within the namespace (strings are UTF-8 encoded)
+ * @returns Deterministic UUID v5 string
+ * @example
+ * generateUUIDv5(UUID_NAMESPACES.DNS, 'www.example.com') // '2ed6657d-e927-568b-95e1-2665a8aea6a2'
+ */
+export function generateUUIDv5(namespace: string, name: BinaryLike): string {
+  return nameBasedUUID('sha1', 5, namespace, name);
+}
+
+let v7State = { lastMs: -1, counter: 0 };
+
+/**
+ * Generates a time-ordered UUID v7, monotonic within the same millisecond
+ * @param options - Optional timestamp and random source
+ * @returns UUID v7 string
+ * @throws Error if the timestamp does not fit the 48-bit UUID v7 field
+ * @example
+ * generateUUIDv7() // '01932c07-209c-7a3f-9b1c-3d5e7f9a1b2c'
+ */
+export function generateUUIDv7(options: { timestamp?: number | Date; source?: RandomSource } = {}): string {
+  const { source } = options;
+  let ms = resolveTimestamp(options.timestamp);
+  if (ms > 0xffffffffffff) {
+    throw new Error('Timestamp exceeds the UUID v7 range');
+  }
+
+  // A 12-bit counter (seeded in the lower half of its range) orders IDs within a millisecond;
+  // a clock that moves backwards keeps the last timestamp, but explicit timestamps are honored
+  const explicit = options.timestamp !== undefined;
+  if (ms > v7State.lastMs || (explicit && ms !== v7State.lastMs)) {
+    v7State = { lastMs: ms, counter: uniformInt(0x800, source) };
+  } else if (v7State.counter < 0xfff) {
+    ms = v7State.lastMs;
+    v7State.counter++;
+  } else {
+    ms = v7State.lastMs + 1;
+    v7State = { lastMs: ms, counter: uniformInt(0x800, source) };
+  }
+
+  const bytes = randomBytes(16, source);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, Math.floor(ms / 0x100000000));
+  view.setUint32(2, ms >>> 0);
+  view.setUint16(6, v7State.counter);
+
+  return bytesToUUID(setVersion(bytes, 7));
+}
+
+let ulidState = { lastMs: -1, random: [] as number[] };
+
+/**
+ * Generates a ULID (26-character Crockford base32, lexicographically sortable),
+ * monotonic within the same millisecond
+ * @param options - Optional timestamp and random source
+ * @returns ULID string
+ * @throws Error if more than 2^80 ULIDs are requested within one millisecond
+ * @example
+ * generateULID() // '01ARZ3NDEKTSV4RRFFQ69G5FAV'
+ */
+export function generateULID(options: { timestamp?: number | Date; source?: RandomSource } = {}): string {
+  const { source } = options;
+  let ms = resolveTimestamp(options.timestamp);
+  if (ms > 0xffffffffffff) {
+    throw new Error('Timestamp exceeds the ULID range');
+  }
+
+  const explicit = options.timestamp !== undefined;
+  if (ms > ulidState.lastMs || (explicit && ms !== ulidState.lastMs)) {
+    const random = Array.from({ length: 16 }, () => uniformInt(32, source));
+    ulidState = { lastMs: ms, random };
+  } else {
+    ms = ulidState.lastMs;
+    const random = ulidState.random;
+    let i = random.length - 1;
+    while (i >= 0 && random[i] === 31) {
+      random[i] = 0;
+      i--;
+    }
+    if (i < 0) {
+      throw new Error('ULID random component overflowed within one millisecond');
+    }
+    random[i] = random[i]! + 1;
+  }
+
+  let time = '';
+  let remaining = ms;
+  for (let i = 0; i < 10; i++) {
+    time = CROCKFORD_ALPHABET.charAt(remaining % 32) + time;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  return time + ulidState.random.map(digit => CROCKFORD_ALPHABET.charAt(digit)).join('');
+}
+
+/**
+ * Generates a nanoid-style random ID
+ * @param size - Length of the ID (default: 21)
+ * @param alphabet - Characters to use (default: URL-safe alphabet)
+ * @param source - Random source (default: process-wide source)
+ * @returns Random ID
+ * @example
+ * generateNanoId() // 'V1StGXR8_Z5jdHi6B-myT'
+ * generateNanoId(8, '0123456789abcdef') // '4f90d13a'
+ */
+export function generateNanoId(size = 21, alphabet = NANOID_ALPHABET, source?: RandomSource): string {
+  if (!Number.isInteger(size) || size < 0) {
+    throw new Error('Size must be a non-negative integer');
+  }
+  if (typeof alphabet !== 'string' || alphabet.length === 0) {
+    throw new Error('Alphabet must be a non-empty string');
+  }
+  return randomChars(size, alphabet, source);
+}
+
+/**
+ * Parses a UUID into its version, variant and embedded fields
+ * @param uuid - UUID string
+ * @returns Parsed fields, or null if the string is not a valid UUID
+ * @example
+ * parseUUID('017f22e2-79b0-7cc3-98c4-dc0c0c07398f')
+ * // { version: 7, variant: 'RFC9562', timestamp: 2022-02-22T19:22:22.000Z }
+ */
+export function parseUUID(uuid: string): ParsedUUID | null {
+  if (typeof uuid !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid)) {
+    return null;
+  }
+
+  const bytes = uuidToBytes(uuid);
+  const view = new DataView(bytes.buffer);
+  const variantBits = bytes[8]! >> 5;
+  const variant: UUIDVariant = variantBits < 4 ? 'NCS' : variantBits < 6 ? 'RFC9562' : variantBits === 6 ? 'Microsoft' : 'Future';
+  const version = bytes[6]! >> 4;
+  const parsed: ParsedUUID = { version, variant };
+
+  if (variant !== 'RFC9562') {
+    return parsed;
+  }
+
+  if (version === 1 || version === 6) {
+    const timeLow = BigInt(view.getUint32(0));
+    const timeMid = BigInt(view.getUint16(4));
+    const timeHigh = BigInt(view.getUint16(6) & 0x0fff);
+    const ticks = version === 1
+      ? (timeHigh << 48n) | (timeMid << 32n) | timeLow
+      : (timeLow << 28n) | (timeMid << 12n) | timeHigh;
+    parsed.timestamp = new Date(Number(ticks / 10000n) - GREGORIAN_OFFSET_MS);
+    parsed.clockSeq = view.getUint16(8) & 0x3fff;
+    parsed.node = encodeHex(bytes.slice(10));
+  } else if (version === 7) {
+    parsed.timestamp = new Date(view.getUint16(0) * 0x100000000 + view.getUint32(2));
+  }
+
+  return parsed;
+}
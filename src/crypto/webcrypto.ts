@@ -0,0 +1,32 @@
+/**
+ * Access to the Web Crypto API in browsers and Node 16+
+ */
+
+import type { webcrypto } from 'crypto';
+
+let cached: webcrypto.Crypto | undefined;
+
+/**
+ * Returns the runtime's Web Crypto implementation
+ * @throws Error if neither globalThis.crypto nor Node's crypto.webcrypto is available
+ */
+export function getWebCrypto(): webcrypto.Crypto {
+  if (cached) return cached;
+
+  const globalCrypto = (globalThis as { crypto?: webcrypto.Crypto }).crypto;
+  if (globalCrypto && typeof globalCrypto.getRandomValues === 'function') {
+    cached = globalCrypto;
+    return cached;
+  }
+
+  // Node 16 does not expose crypto as a global; module.require keeps bundlers from inlining it
+  if (typeof module !== 'undefined' && typeof module.require === 'function') {
+    const nodeCrypto = module.require('crypto') as typeof import('crypto');
+    if (nodeCrypto.webcrypto) {
+      cached = nodeCrypto.webcrypto as webcrypto.Crypto;
+      return cached;
+    }
+  }
+
+  throw new Error('Web Crypto API is not available in this environment');
+}
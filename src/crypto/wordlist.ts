@@ -0,0 +1,89 @@
+/**
+ * Embedded wordlist for passphrase generation: 1296 short, common, lowercase English
+ * words (6^4, so a word can also be picked by rolling four dice)
+ */
+
+export const PASSPHRASE_WORDLIST: readonly string[] = (
+  'able acid acorn acre act actor adapt add admit adult affix afraid agent agile aging agree ahead ' +
+  'aid aim air aisle alarm album alert algae alias alibi alien align alike alive alley allow alloy ' +
+  'almond aloft alpha altar amber amend ample amuse anchor angel angle ankle annex answer ant ' +
+  'antler anvil apple apricot apron arch arena argue arm armor army aroma array arrow art aside ' +
+  'asset atlas atom attic audio audit aunt author auto avoid awake award axis axle bacon badge ' +
+  'badger bagel baker balmy bamboo banana band banjo bank barn barrel basil basin basket baton ' +
+  'beach beacon beak beam bean bear beard beast bed beef beet beetle begin bell belt bench berry ' +
+  'bicep bike binder birch bird bison blade blank blast blaze blend bless blimp blink bliss block ' +
+  'bloom blossom blue blur board boat body bolt bonus book boost boot border bottle bounce bowl box ' +
+  'brain brake branch brass brave bread breeze brick bride brief bring brisk broom brush bubble ' +
+  'bucket buddy budget buffet bugle build bulb bunch bundle bunny burst bush butter button buzz ' +
+  'cabin cable cactus cake calm camel camera camp canal candle candy canoe canopy canvas canyon ' +
+  'cape card cargo carpet carrot cart carve case cash cashew castle cat cave cedar celery cell ' +
+  'cello cement chain chair chalk champ chant chapel charm chart chase cheek cheese chef cherry ' +
+  'chess chest chick chief chili chime chin chip choir chord chorus chunk cider cinema cinnamon ' +
+  'circle citrus city civic claim clamp clap clay clean clerk click cliff climb clinic clip clock ' +
+  'cloth cloud clover clown club clue coach coast cobalt cobra cocoa coconut code coffee coin comet ' +
+  'comic comma compass coral cord corn cosmic cotton couch cougar count cove cover cow crab cradle ' +
+  'craft crane crate crayon cream creek crew cricket crisp crown crumb crust cube curl curry curve ' +
+  'cycle cymbal daisy dance dawn deal debut decal decoy deed deer delta denim dense depot depth ' +
+  'desert desk detail dial diary dice diet dime diner dingo dino disco dish ditto diver dizzy dock ' +
+  'dodge dog doll dolphin domain donor donut door dose dough dove draft dragon drama drawer dream ' +
+  'dress drift drill drink drive drum duck duet dune dusk dust duty dwarf eagle early earth easel ' +
+  'east echo eclipse edge edit eel egg eight elbow elder elf elk elm email ember emblem emerald ' +
+  'empty enamel end energy engine enjoy entry envoy epic equal era erase errand essay ethic event ' +
+  'exact exam exile exit expert extra fabric face fact fade fair fairy faith falcon fame fancy farm ' +
+  'fast fauna feast feather fence fern ferry fever fiber fiddle field fiesta fig film filter final ' +
+  'finch finger fire firm fish fist flag flame flash flask fleet flint flip float flock flood floor ' +
+  'flour flute foam focus fog foil folk font food forest forge fork fort forum fossil fox frame ' +
+  'fresh frog frost fruit fudge fuel fun fund funny fuse gadget galaxy gallon game garage garden ' +
+  'garlic gas gate gear gecko gem genie giant gift ginger giraffe glacier glad glass glide globe ' +
+  'glove glow glue gnome goal goat gold golf goose gourd grace grain grape graph grass gravel gravy ' +
+  'great green grid grill grin grip groom group grove growl guard guest guide guitar gulf gum guppy ' +
+  'guru gust gym habit hair half hall halo hammer hamster hand happy harbor hare harmony harp ' +
+  'harvest hat hawk hazel hazelnut head heart heat hedge helmet herb herd hero heron hiker hill ' +
+  'hinge hippo hobby hockey holly home honey hood hook hope horn horse host hotel hound house hub ' +
+  'human humor hunt hurry husky hut hydra hymn ice icicle icon idea igloo image impact inch index ' +
+  'ink inlet input insect intro iris iron island ivory ivy jacket jade jaguar jam jar jasmine jazz ' +
+  'jeans jelly jester jet jewel jigsaw job jockey join joke jolly journal joy judge juice jumbo ' +
+  'jump jungle junior jury kale kayak keen kettle key kick kidney king kiosk kit kite kitten kiwi ' +
+  'knack knee knife knight knob knot koala label lace ladder lady lagoon lake lamb lamp lance land ' +
+  'lane lantern laptop large laser latch lava lawn layer leaf lease ledge lemon lens leopard letter ' +
+  'level lever lilac lily limb lime linen lion liquid list lizard llama loaf lobby lobster local ' +
+  'lock locket lodge loft logic lotus loud lucky lumber lunar lunch lyric machine magic magnet mail ' +
+  'major mango manor maple marble march marina mask mason match meadow medal melody melon member ' +
+  'menu mercy merit metal meteor method metro middle mild milk mill mime mind mint minute mirror ' +
+  'mist mitten mixer moat model modem mold money monkey month moon moose morning mosaic moss motel ' +
+  'moth motor mound mouse mouth movie mud muffin mug mule mural muscle museum music mustard myth ' +
+  'nail name napkin narrow nature navy neck nectar needle neon nerve nest net network new nickel ' +
+  'night ninja noble nod noise noodle north nose note notion novel nugget number nurse nut nylon ' +
+  'oak oar oasis oat object ocean octave odor offer office olive omega onion open opera optic ' +
+  'orange orbit orchard orchid order organ otter ounce outfit oval oven owl owner oxygen oyster ' +
+  'pace pack paddle page paint palace palm panda panel panic pantry paper paprika parade parcel ' +
+  'park parrot party pasta patch path patio pause peach peak peanut pear pearl pebble pecan pedal ' +
+  'pelican pen pencil penguin pepper permit pet petal phone photo piano picnic piece pier pig pilot ' +
+  'pine pink pinto pipe pirate pistachio pitch pixel pizza plain planet plank plant plate plaza ' +
+  'plum plush pocket poem poet point polar pole polish pond pony pool popcorn poppy porch port ' +
+  'poster potato pouch powder prairie prism prize probe prose proud prune pulse puma pump pumpkin ' +
+  'punch pupil puppet puppy purple puzzle pyramid quail quake quart quartz queen quest quick quiet ' +
+  'quill quilt quiver quiz quota rabbit raccoon race radar radio raft rail rain rainbow raisin rake ' +
+  'ramp ranch range rapid raspberry raven razor ready realm recipe record reef relay relic remedy ' +
+  'rent reply rescue resort rhino rhythm ribbon rice riddle ridge ring ripple river road robin ' +
+  'robot rocket rodeo roof room root rope rose rotor round route rover royal ruby rug ruler rumble ' +
+  'runway rural rust saddle safari saffron saga sail salad salmon salon salt sample sand sandal ' +
+  'satin sauce sauna scale scarf scene school scoop scooter score scout scrap screen script scroll ' +
+  'seal season seat secret seed sensor sequoia shadow shallow shark shelf shell shield shine ship ' +
+  'shirt shoe shore shovel shrimp sign silk silver siren sister sketch ski skill skirt sky slate ' +
+  'sled sleeve slice slide slope smile smoke snack snail snake sneaker snow soap soccer sock sofa ' +
+  'solar soldier sonar song sound soup spark sparrow spice spider spinach spine spirit sponge spoon ' +
+  'sport spring sprout square squid stable stage stair stamp star statue steam steel stem step ' +
+  'stick stone storm story stove straw stream street string studio sugar suit summer summit sun ' +
+  'sundae sunset super surf swamp swan sweater swing sword symbol syrup table tablet taco tail ' +
+  'talent tango tank tape target taxi tea teacher team teapot temple tennis tent thimble thunder ' +
+  'ticket tiger timber toast today token tomato tonic tool tooth topic torch tornado tower toy ' +
+  'track tractor trail train tree trend tribe trick trophy truck trumpet trunk tulip tuna tundra ' +
+  'tunnel turkey turtle tutor tuxedo twig twin umbrella uncle union unit upper urban usher utility ' +
+  'vacuum valley valve van vase vault velvet vendor venue verb verse vessel vest veteran video view ' +
+  'villa vine violin visa visit vista vivid vocal volcano volume voter voyage wafer wagon waist ' +
+  'walnut walrus wand warm wasabi watch water wave wax weasel weather web wedge whale wheat wheel ' +
+  'whisk whistle widget width willow window wing winter wire wisdom wizard wolf wombat wood wool ' +
+  'word work world worm wrist writer yacht yak yard yarn year yellow yeti yoga yogurt young youth ' +
+  'zebra zero zest zigzag zinc zipper zodiac zone zoo'
+).split(' ');
@@ -2,6 +2,20 @@
  * Format utility functions for common formatting tasks
  */
 
+import { groupCardDigits } from '../validation/cards';
+import { formatParsedPhoneNumber, parsePhoneNumber, PhoneNumberStyle } from '../validation/phone';
+import { normalizePostalCode } from '../validation/postal';
+import {
+  expandUPCE,
+  hyphenateISBN,
+  isValidEAN,
+  isValidISBN,
+  isValidISSN,
+  isValidUPC,
+  toISBN10,
+  toISBN13
+} from '../validation/products';
+
 /**
  * Formats a number with commas as thousands separators
  */
@@ -83,9 +97,27 @@ export function formatDuration(seconds: number): string {
 }
 
 /**
- * Formats a phone number with dashes
+ * Formats a phone number. Without options, 10-digit and 11-digit North American numbers
+ * get dashes; with a style, the number is parsed with international metadata first.
+ * @param phone - Phone number, international ('+44…') or national with defaultCountry
+ * @param options - Output style ('e164', 'international', 'national' or 'rfc3966') and
+ *   the country for national numbers
+ * @returns Formatted number, or the input unchanged if it cannot be parsed
+ * @example
+ * formatPhoneNumber('2015550123') // '201-555-0123'
+ * formatPhoneNumber('020 7946 0958', { style: 'e164', defaultCountry: 'GB' }) // '+442079460958'
+ * formatPhoneNumber('+442079460958', { style: 'national' }) // '020 7946 0958'
  */
-export function formatPhoneNumber(phone: string): string {
+export function formatPhoneNumber(
+  phone: string,
+  options?: { style?: PhoneNumberStyle; defaultCountry?: string }
+): string {
+  if (options) {
+    const { style = 'international', defaultCountry } = options;
+    const parsed = parsePhoneNumber(phone, defaultCountry);
+    return parsed ? formatParsedPhoneNumber(parsed, style) : phone;
+  }
+
   const cleaned = phone.replace(/\D/g, '');
   
   if (cleaned.length === 10) {
@@ -100,12 +132,117 @@ export function formatPhoneNumber(phone: string): string {
 }
 
 /**
- * Formats a credit card number with spaces
+ * Formats a credit card number with spaces, in the brand's grouping (4-4-4-4, Amex 4-6-5)
  */
 export function formatCreditCard(cardNumber: string): string {
   const cleaned = cardNumber.replace(/\D/g, '');
+  const groups = groupCardDigits(cleaned);
+  return groups.length > 0 ? groups.join(' ') : cardNumber;
+}
+
+/**
+ * Masks a card number, keeping the last four digits
+ * @param cardNumber - Card number
+ * @param options - Mask character (default: '•') and whether to mask every group in the
+ *   brand's layout instead of showing a single masked group
+ * @returns Masked number, or '' if the input has no digits
+ * @example
+ * maskCardNumber('4242 4242 4242 4242') // '•••• 4242'
+ * maskCardNumber('378282246310005', { keepGroups: true }) // '•••• •••••• •0005'
+ */
+export function maskCardNumber(
+  cardNumber: string,
+  options: { maskChar?: string; keepGroups?: boolean } = {}
+): string {
+  const { maskChar = '•', keepGroups = false } = options;
+  const cleaned = cardNumber.replace(/\D/g, '');
+  if (!cleaned) return '';
+  const last4 = cleaned.slice(-4);
+  if (!keepGroups) {
+    return `${maskChar.repeat(4)} ${last4}`;
+  }
+  // Mask by digit position so a multi-character maskChar cannot shift the groups
+  const firstShown = cleaned.length - 4;
+  let offset = 0;
+  return groupCardDigits(cleaned)
+    .map(group => {
+      const part = Array.from(group, (digit, i) => (offset + i < firstShown ? maskChar : digit)).join('');
+      offset += group.length;
+      return part;
+    })
+    .join(' ');
+}
+
+/**
+ * Formats an IBAN in blocks of four, as printed on statements
+ * @example
+ * formatIBAN('de89370400440532013000') // 'DE89 3704 0044 0532 0130 00'
+ */
+export function formatIBAN(iban: string): string {
+  const cleaned = iban.replace(/[\s-]/g, '').toUpperCase();
   const groups = cleaned.match(/.{1,4}/g);
-  return groups ? groups.join(' ') : cardNumber;
+  return groups ? groups.join(' ') : iban;
+}
+
+/**
+ * Hyphenates an ISBN into prefix, group, publisher, title and check digit, optionally
+ * converting it between ISBN-10 and ISBN-13
+ * @param isbn - ISBN-10 or ISBN-13, with or without hyphens
+ * @param version - Version to output (default: the input's)
+ * @returns Hyphenated ISBN; compact when the publisher ranges for its group are not embedded,
+ *   and the input unchanged when it is not a valid ISBN (or a 979 ISBN asked for as ISBN-10)
+ * @example
+ * formatISBN('9780306406157') // '978-0-306-40615-7'
+ * formatISBN('9780306406157', 10) // '0-306-40615-2'
+ */
+export function formatISBN(isbn: string, version?: 10 | 13): string {
+  const target = version ?? (isValidISBN(isbn, 10) ? 10 : 13);
+  const converted = target === 10 ? toISBN10(isbn) : toISBN13(isbn);
+  if (converted === null) return isbn;
+  return hyphenateISBN(converted) ?? converted;
+}
+
+/**
+ * Formats an ISSN as two groups of four, e.g. '0378-5955'
+ * @returns Formatted ISSN, or the input unchanged when it is not a valid ISSN
+ */
+export function formatISSN(issn: string): string {
+  if (!isValidISSN(issn)) return issn;
+  const cleaned = issn.toUpperCase().replace(/^ISSN:?|[\s-]/g, '');
+  return `${cleaned.slice(0, 4)}-${cleaned.slice(4)}`;
+}
+
+/**
+ * Formats an EAN as printed under the barcode: EAN-13 as 1-6-6 digits, EAN-8 as 4-4
+ * @returns Formatted EAN, or the input unchanged when it is not a valid EAN
+ * @example
+ * formatEAN('4006381333931') // '4 006381 333931'
+ */
+export function formatEAN(ean: string): string {
+  if (!isValidEAN(ean)) return ean;
+  const cleaned = ean.replace(/[\s-]/g, '');
+  return cleaned.length === 13
+    ? `${cleaned[0]} ${cleaned.slice(1, 7)} ${cleaned.slice(7)}`
+    : `${cleaned.slice(0, 4)} ${cleaned.slice(4)}`;
+}
+
+/**
+ * Formats a UPC as printed under the barcode: UPC-A as 1-5-5-1 digits, UPC-E as 1-6-1
+ * @param upc - UPC code
+ * @param options - Expand UPC-E codes to UPC-A first (default: false)
+ * @returns Formatted UPC, or the input unchanged when it is not a valid UPC
+ * @example
+ * formatUPC('036000291452') // '0 36000 29145 2'
+ * formatUPC('04252614') // '0 425261 4'
+ */
+export function formatUPC(upc: string, options: { expand?: boolean } = {}): string {
+  const { expand = false } = options;
+  if (!isValidUPC(upc)) return upc;
+  let cleaned = upc.replace(/[\s-]/g, '');
+  if (cleaned.length === 8 && expand) cleaned = expandUPCE(cleaned)!;
+  return cleaned.length === 12
+    ? `${cleaned[0]} ${cleaned.slice(1, 6)} ${cleaned.slice(6, 11)} ${cleaned[11]}`
+    : `${cleaned[0]} ${cleaned.slice(1, 7)} ${cleaned[7]}`;
 }
 
 /**
@@ -120,9 +257,22 @@ export function formatSSN(ssn: string): string {
 }
 
 /**
- * Formats a postal code
+ * Formats a postal code. Without a country, digits are kept and 9-digit US ZIP+4 codes
+ * get a dash; with one, the code is normalized to that country's form.
+ * @param postalCode - Postal code as typed
+ * @param country - ISO 3166-1 alpha-2 country
+ * @returns Formatted postal code, or the input unchanged if it is not valid for the country
+ * @throws Error if the country has no postal code rules
+ * @example
+ * formatPostalCode('123456789') // '12345-6789'
+ * formatPostalCode('sw1a1aa', 'GB') // 'SW1A 1AA'
+ * formatPostalCode('1234ab', 'NL') // '1234 AB'
  */
-export function formatPostalCode(postalCode: string): string {
+export function formatPostalCode(postalCode: string, country?: string): string {
+  if (country !== undefined) {
+    return normalizePostalCode(postalCode, country) ?? postalCode;
+  }
+
   const cleaned = postalCode.replace(/\D/g, '');
   if (cleaned.length === 9) {
     return `${cleaned.slice(0, 5)}-${cleaned.slice(5)}`;
@@ -2,6 +2,8 @@
  * Math utility functions for common mathematical operations
  */
 
+import { RandomSource, uniformFloat, uniformInt } from '../crypto/random';
+
 /**
  * Clamps a number between min and max values
  * @param value - The number to clamp
@@ -243,11 +245,14 @@ export function variance(numbers: number[]): number {
  * Generates a random integer between min and max (inclusive)
  * @param min - Minimum value (inclusive)
  * @param max - Maximum value (inclusive)
+ * @param source - Random source (default: process-wide source)
  * @returns Random integer between min and max
+ * @throws Error if the arguments are not integers, min is greater than max, or the range
+ *   spans more than 2^53 values
  * @example
  * randomInt(1, 10) // 7 (random integer between 1 and 10)
  */
-export function randomInt(min: number, max: number): number {
+export function randomInt(min: number, max: number, source?: RandomSource): number {
   if (typeof min !== 'number' || typeof max !== 'number') {
     throw new TypeError('All arguments must be numbers');
   }
@@ -257,25 +262,29 @@ export function randomInt(min: number, max: number): number {
   if (min > max) {
     throw new Error('min cannot be greater than max');
   }
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  if (max - min >= 2 ** 53) {
+    throw new Error('Range must not span more than 2^53 values');
+  }
+  return uniformInt(max - min + 1, source) + min;
 }
 
 /**
  * Generates a random float between min and max
  * @param min - Minimum value (inclusive)
  * @param max - Maximum value (exclusive)
+ * @param source - Random source (default: process-wide source)
  * @returns Random float between min and max
  * @example
  * randomFloat(1, 5) // 3.742891
  */
-export function randomFloat(min: number, max: number): number {
+export function randomFloat(min: number, max: number, source?: RandomSource): number {
   if (typeof min !== 'number' || typeof max !== 'number') {
     throw new TypeError('All arguments must be numbers');
   }
   if (min >= max) {
     throw new Error('min must be less than max');
   }
-  return Math.random() * (max - min) + min;
+  return uniformFloat(source) * (max - min) + min;
 }
 
 /**
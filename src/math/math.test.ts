@@ -128,6 +128,7 @@ describe('Math utilities', () => {
     it('should throw error for invalid inputs', () => {
       expect(() => randomInt(1.5, 10)).toThrow('Arguments must be integers');
       expect(() => randomInt(10, 1)).toThrow('min cannot be greater than max');
+      expect(() => randomInt(-Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER)).toThrow('Range must not span more than 2^53 values');
     });
   });
 
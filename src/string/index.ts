@@ -2,6 +2,8 @@
  * String utility functions for common web development tasks
  */
 
+import { RandomSource, randomChars } from '../crypto/random';
+
 /**
  * Capitalizes the first letter of a string
  * @param str - The string to capitalize
@@ -113,12 +115,17 @@ export function stripHtml(html: string): string {
  * Generates a random string of specified length
  * @param length - Length of the random string to generate
  * @param charset - Characters to use for generation (default: alphanumeric)
+ * @param source - Random source (default: process-wide source)
  * @returns Random string of specified length
  * @example
  * generateRandomString(8) // 'Kj3mN9qP'
  * generateRandomString(4, '0123456789') // '7294'
  */
-export function generateRandomString(length: number, charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'): string {
+export function generateRandomString(
+  length: number,
+  charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789',
+  source?: RandomSource
+): string {
   if (!Number.isInteger(length) || length < 0) {
     throw new Error('Length must be a non-negative integer');
   }
@@ -126,11 +133,7 @@ export function generateRandomString(length: number, charset = 'ABCDEFGHIJKLMNOP
     throw new Error('Charset must be a non-empty string');
   }
   
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += charset.charAt(Math.floor(Math.random() * charset.length));
-  }
-  return result;
+  return randomChars(length, charset, source);
 }
 
 
@@ -0,0 +1,131 @@
+/**
+ * Cancellable, debounced async validation for inputs such as "username not taken"
+ */
+
+import type { ValidationResult } from './issues';
+import type { Schema } from './schema';
+
+/**
+ * Async validation function; it should stop work when the signal aborts
+ */
+export type AsyncValidateFunction<T> = (
+  value: unknown,
+  options: { signal: AbortSignal }
+) => Promise<ValidationResult<T>> | ValidationResult<T>;
+
+/**
+ * Validator where each call supersedes the previous one
+ */
+export interface AsyncValidator<T> {
+  /**
+   * Validates after the debounce delay; rejects with an AbortError when a newer call
+   * or cancel() supersedes it
+   */
+  validate(value: unknown): Promise<ValidationResult<T>>;
+  /** Cancels the pending or running validation, if any */
+  cancel(): void;
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) return signal.reason;
+  const error = new Error('Validation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Starts work unless the signal has already aborted, then settles with it or rejects
+ * with the signal's reason as soon as it aborts
+ */
+export function abortable<T>(start: () => Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    start().then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Checks whether an error comes from a cancelled validation
+ * @param error - Caught error
+ * @returns True for AbortError rejections
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/**
+ * Wraps a schema or async validation function so that only the latest input is checked:
+ * calls are debounced, and starting a new call aborts the previous one (including an
+ * in-flight lookup, through its AbortSignal)
+ * @param validator - Schema (validated with validateAsync) or async validation function
+ * @param options - Debounce delay in milliseconds (default: 0)
+ * @returns Validator with validate and cancel
+ * @example
+ * const username = string().min(3).refineAsync(
+ *   async (name, { signal }) => !(await api.usernameTaken(name, { signal })),
+ *   { code: 'username_taken', message: 'Username is already taken' }
+ * );
+ * const checkUsername = createAsyncValidator(username, { debounce: 300 });
+ * input.addEventListener('input', () => {
+ *   checkUsername.validate(input.value).then(showIssues, error => {
+ *     if (!isAbortError(error)) throw error;
+ *   });
+ * });
+ */
+export function createAsyncValidator<T>(
+  validator: Schema<T> | AsyncValidateFunction<T>,
+  options: { debounce?: number } = {}
+): AsyncValidator<T> {
+  const { debounce = 0 } = options;
+  if (!Number.isFinite(debounce) || debounce < 0) {
+    throw new Error('Debounce delay must be a non-negative number');
+  }
+  const run: AsyncValidateFunction<T> = typeof validator === 'function'
+    ? validator
+    : (value, { signal }) => validator.validateAsync(value, { signal });
+
+  let current: AbortController | undefined;
+
+  const cancel = () => {
+    current?.abort();
+    current = undefined;
+  };
+
+  return {
+    validate(value) {
+      cancel();
+      const controller = new AbortController();
+      current = controller;
+      const { signal } = controller;
+
+      const delayed = new Promise<void>(resolve => {
+        if (debounce === 0) {
+          resolve();
+          return;
+        }
+        const timer = setTimeout(resolve, debounce);
+        signal.addEventListener('abort', () => clearTimeout(timer), { once: true });
+      });
+
+      const result = () => delayed.then(() => {
+        if (signal.aborted) throw abortReason(signal);
+        return run(value, { signal });
+      });
+      return abortable(result, signal).finally(() => {
+        if (current === controller) current = undefined;
+      });
+    },
+    cancel
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Payment card brands from IIN ranges, with per-brand lengths, digit grouping and CVV length
+ */
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'jcb' | 'unionpay' | 'diners';
+
+export interface CardBrandInfo {
+  /** Display name, e.g. 'American Express' */
+  name: string;
+  /** IIN prefixes as [from, to] ranges of equal length, inclusive */
+  ranges: [string, string][];
+  /** Valid card number lengths */
+  lengths: number[];
+  /** Group sizes for display; longer numbers are grouped in fours */
+  groups: number[];
+  cvvLength: number;
+}
+
+/**
+ * Brand rules; the longest matching prefix decides, so Discover's co-branded 622126-622925
+ * range wins over UnionPay's 62
+ */
+export const CARD_BRANDS: Readonly<Record<CardBrand, CardBrandInfo>> = {
+  visa: {
+    name: 'Visa',
+    ranges: [['4', '4']],
+    lengths: [13, 16, 19],
+    groups: [4, 4, 4, 4],
+    cvvLength: 3
+  },
+  mastercard: {
+    name: 'Mastercard',
+    ranges: [['51', '55'], ['2221', '2720']],
+    lengths: [16],
+    groups: [4, 4, 4, 4],
+    cvvLength: 3
+  },
+  amex: {
+    name: 'American Express',
+    ranges: [['34', '34'], ['37', '37']],
+    lengths: [15],
+    groups: [4, 6, 5],
+    cvvLength: 4
+  },
+  discover: {
+    name: 'Discover',
+    ranges: [['6011', '6011'], ['644', '649'], ['65', '65'], ['622126', '622925']],
+    lengths: [16, 17, 18, 19],
+    groups: [4, 4, 4, 4],
+    cvvLength: 3
+  },
+  jcb: {
+    name: 'JCB',
+    ranges: [['3528', '3589']],
+    lengths: [16, 17, 18, 19],
+    groups: [4, 4, 4, 4],
+    cvvLength: 3
+  },
+  unionpay: {
+    name: 'UnionPay',
+    ranges: [['62', '62'], ['81', '81']],
+    lengths: [16, 17, 18, 19],
+    groups: [4, 4, 4, 4],
+    cvvLength: 3
+  },
+  diners: {
+    name: 'Diners Club',
+    ranges: [['300', '305'], ['36', '36'], ['38', '39']],
+    lengths: [14, 15, 16, 17, 18, 19],
+    groups: [4, 6, 4],
+    cvvLength: 3
+  }
+};
+
+/**
+ * Detects the card brand from the leading digits. Works on partial numbers while the user
+ * types, returning null until the prefix is unambiguous.
+ * @param cardNumber - Card number or its first digits; spaces and dashes are ignored
+ * @returns Brand, or null if unknown or still ambiguous
+ * @example
+ * detectCardBrand('4242 4242 4242 4242') // 'visa'
+ * detectCardBrand('2221 00') // 'mastercard'
+ * detectCardBrand('3') // null (Amex, JCB or Diners)
+ */
+export function detectCardBrand(cardNumber: string): CardBrand | null {
+  const digits = cardNumber.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  let best: CardBrand[] = [];
+  let bestScore = 0;
+  for (const [brand, { ranges }] of Object.entries(CARD_BRANDS) as [CardBrand, CardBrandInfo][]) {
+    for (const [from, to] of ranges) {
+      const prefix = digits.slice(0, from.length);
+      if (prefix < from.slice(0, prefix.length) || prefix > to.slice(0, prefix.length)) continue;
+      // Complete prefix matches beat partial ones, longer beats shorter
+      const score = prefix.length === from.length ? 100 + prefix.length : prefix.length;
+      if (score > bestScore) {
+        best = [brand];
+        bestScore = score;
+      } else if (score === bestScore && !best.includes(brand)) {
+        best.push(brand);
+      }
+    }
+  }
+  return best.length === 1 ? best[0]! : null;
+}
+
+/**
+ * Splits card digits into the brand's display groups (4-4-4-4, Amex 4-6-5)
+ * @returns Digit groups; unknown brands use groups of four
+ */
+export function groupCardDigits(digits: string): string[] {
+  const brand = detectCardBrand(digits);
+  const sizes = brand ? CARD_BRANDS[brand].groups : [];
+  // Longer numbers than the brand layout covers (e.g. 16-digit Diners) fall back to fours
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  const groups: string[] = [];
+  let offset = 0;
+  if (digits.length <= total) {
+    for (const size of sizes) {
+      if (offset >= digits.length) break;
+      groups.push(digits.slice(offset, offset + size));
+      offset += size;
+    }
+  }
+  return groups.concat(digits.slice(offset).match(/.{1,4}/g) ?? []);
+}
+
+/**
+ * Parses a card expiry date
+ * @param expiry - 'MM/YY', 'MM/YYYY', 'MM-YY' or 'MMYY'
+ * @returns Month (1-12) and four-digit year, or null if malformed
+ */
+export function parseCardExpiry(expiry: string): { month: number; year: number } | null {
+  const match = /^(\d{1,2})\s*[/-]?\s*(\d{2}|\d{4})$/.exec(expiry.trim());
+  if (!match || (match[1]!.length === 1 && !/[/-]/.test(expiry))) return null;
+  const month = Number(match[1]);
+  const year = match[2]!.length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  return { month, year };
+}
+
+/**
+ * Diagnoses a card expiry date: cards are valid through the last day of their month
+ * @returns The issue code, or null when the card has not expired
+ */
+export function cardExpiryProblem(expiry: string, now: Date): 'invalid_format' | 'expired' | null {
+  const parsed = parseCardExpiry(expiry);
+  // Cards are issued for at most 20 years
+  if (!parsed || parsed.year > now.getFullYear() + 20) return 'invalid_format';
+  const { month, year } = parsed;
+  if (year < now.getFullYear() || (year === now.getFullYear() && month < now.getMonth() + 1)) {
+    return 'expired';
+  }
+  return null;
+}
+
+/**
+ * Checks if a card expiry date is well formed and not in the past
+ * @param expiry - 'MM/YY', 'MM/YYYY', 'MM-YY' or 'MMYY'
+ * @param now - Reference date (default: now)
+ * @example
+ * isValidCardExpiry('12/29') // true until the end of December 2029
+ */
+export function isValidCardExpiry(expiry: string, now: Date = new Date()): boolean {
+  return cardExpiryProblem(expiry, now) === null;
+}
+
+/**
+ * CVV lengths allowed for a card: the brand's length, or 3-4 digits when unknown
+ */
+export function cvvLengths(cardNumberOrBrand?: string): { min: number; max: number } {
+  const brand = cardNumberOrBrand !== undefined && Object.prototype.hasOwnProperty.call(CARD_BRANDS, cardNumberOrBrand)
+    ? cardNumberOrBrand as CardBrand
+    : detectCardBrand(cardNumberOrBrand ?? '');
+  if (!brand) return { min: 3, max: 4 };
+  const { cvvLength } = CARD_BRANDS[brand];
+  return { min: cvvLength, max: cvvLength };
+}
+
+/**
+ * Checks if a CVV has the right length for the card (4 digits for Amex, otherwise 3)
+ * @param cvv - Security code
+ * @param cardNumberOrBrand - Card number or brand; without it, 3 or 4 digits are accepted
+ * @example
+ * isValidCVV('1234', '3782 822463 10005') // true
+ * isValidCVV('1234', 'visa') // false
+ */
+export function isValidCVV(cvv: string, cardNumberOrBrand?: string): boolean {
+  const { min, max } = cvvLengths(cardNumberOrBrand);
+  return /^\d+$/.test(cvv) && cvv.length >= min && cvv.length <= max;
+}
@@ -0,0 +1,69 @@
+/**
+ * Embedded frequency-ranked wordlists for password strength estimation: the most common
+ * leaked passwords and the most frequent English words, both lowercase and most common first
+ */
+
+export const COMMON_PASSWORDS: readonly string[] = (
+  '123456 password 12345678 qwerty 123456789 12345 1234 111111 1234567 dragon 123123 baseball ' +
+  'abc123 football monkey letmein 696969 shadow master 666666 qwertyuiop 123321 mustang ' +
+  '1234567890 michael 654321 superman 1qaz2wsx 7777777 121212 000000 qazwsx 123qwe killer ' +
+  'trustno1 jordan jennifer zxcvbnm asdfgh hunter buster soccer harley batman andrew tigger ' +
+  'sunshine iloveyou 2000 charlie robert thomas hockey ranger daniel starwars klaster 112233 ' +
+  'george computer michelle jessica pepper 1111 zxcvbn 555555 11111111 131313 freedom 777777 ' +
+  'pass maggie 159753 aaaaaa ginger princess joshua cheese amanda summer love ashley nicole ' +
+  'chelsea biteme matthew access yankees 987654321 dallas austin thunder taylor matrix ' +
+  'minecraft william corvette hello martin heather secret merlin diamond 1234qwer gfhjkm hammer ' +
+  'silver 222222 88888888 anthony justin test bailey q1w2e3r4t5 patrick internet scooter orange ' +
+  '11111 golfer cookie richard samantha bigdog guitar jackson whatever mickey chicken sparky ' +
+  'snoopy maverick phoenix camaro peanut morgan welcome falcon cowboy ferrari samsung andrea ' +
+  'smokey steelers joseph mercedes dakota arsenal eagles melissa boomer booboo spider nascar ' +
+  'monster tigers yellow xxxxxx 123123123 gateway marina diablo bulldog qwer1234 compaq purple ' +
+  'hardcore banana junior hannah 123654 porsche lakers iceman money cowboys 987654 london tennis ' +
+  '999999 ncc1701 coffee scooby 0000 miller boston q1w2e3r4 brandon yamaha chester mother ' +
+  'forever johnny edward 333333 oliver redsox player nikita knight fender barney midnight ' +
+  'please brandy chicago badboy slayer rangers charles angel flower rabbit wizard bigdick jasper ' +
+  'enter rachel chris steven winner adidas victoria natasha 1q2w3e4r jasmine winter prince ' +
+  'panties marine ghbdtn fishing cocacola casper james 232323 raiders 888888 marlboro gandalf ' +
+  'asdfasdf crystal 87654321 12344321 golden 8675309 blowme password1 password123 ' +
+  'welcome1 admin admin123 qwerty123 1q2w3e abc12345 passw0rd p@ssw0rd letmein1 changeme ' +
+  'trustme monkey1 dragon1 iloveyou1 sunshine1 princess1 football1 baseball1 superman1 ' +
+  'qwertyui asdfghjkl zaq12wsx 1qazxsw2 azerty solo loveme fuckyou fuckme hunter2 shit ' +
+  'starwars1 master1 login abcdef abcd1234 aa123456 default guest root toor administrator ' +
+  'user test123 temp1234 secret1 hello123 summer2020 winter2020 spring autumn'
+).split(' ');
+
+export const ENGLISH_WORDS: readonly string[] = (
+  'you the to it and that of what is in me this know for no have my don just not do be your we ' +
+  'it\'s so but all well was can he get about on there right like with up here out if are go now ' +
+  'how one think she yeah want got come him her they good oh at going let why back see time who ' +
+  'an man would really look take from will then could them some tell say because sure way his ' +
+  'down yes too more mean love need where never okay something thing over make little only said ' +
+  'any much been hey thank even did nothing went help talk life still night first those day ' +
+  'long home wait two last always nice work before give feel maybe guy find anything great stop ' +
+  'mother father old try believe after listen put thought keep call lot people place kind ' +
+  'around should tonight baby leave anyone everything money girl better other kill three these ' +
+  'made again god friend house told while head hell world happy new real hand stay mind big ' +
+  'year left guess happen sorry school name dead live heart dad mom family story tomorrow next ' +
+  'boy morning change sister brother woman car game meet remember job bad mister might pretty ' +
+  'honey same fine play end care whole minute trust pay kid move stuff wife hear wrong face ' +
+  'until once sweet today word free hope hold phone run hard door thanks problem part city ' +
+  'country town water power light dark fire earth wind rain snow star moon sun summer winter ' +
+  'spring autumn monday tuesday friday sunday january march april june july august october ' +
+  'december red blue green black white yellow orange purple silver gold dog cat horse bird fish ' +
+  'tiger lion bear wolf eagle dragon monkey rabbit mouse snake king queen prince princess angel ' +
+  'devil heaven magic secret shadow ghost spirit soul apple banana cherry lemon peach coffee ' +
+  'chocolate cookie cheese pizza butter flower rose lily daisy tree forest river ocean beach ' +
+  'island mountain valley garden music song dance party movie film book paper letter picture ' +
+  'table chair window street road bridge train plane ship boat truck bike ball football soccer ' +
+  'baseball hockey tennis golf team player winner champion hero warrior soldier knight hunter ' +
+  'killer master doctor teacher student police lady sir captain officer army war peace freedom ' +
+  'justice liberty truth dream faith grace glory honor pride computer internet network system ' +
+  'server data access login welcome hello goodbye password number private public open close ' +
+  'start finish begin blood bone body brain eye ear hair skin lip kiss smile tear laugh cry ' +
+  'sleep sad angry crazy lucky funny strong weak fast slow hot cold warm cool beautiful ugly ' +
+  'young rich poor high low short tall sky cloud storm thunder lightning ice stone rock sand ' +
+  'metal steel iron diamond crystal pearl ruby jewel treasure castle tower palace temple church ' +
+  'college office market store shop bank hotel hospital prison kitchen bedroom holiday ' +
+  'christmas birthday wedding weekend forever someone somebody nobody everybody together alone ' +
+  'lover enemy daughter son uncle aunt cousin husband child children'
+).split(' ');
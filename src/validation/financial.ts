@@ -0,0 +1,384 @@
+/**
+ * Financial identifiers: IBAN, BIC/SWIFT, EU VAT numbers and US ABA routing numbers
+ */
+
+/**
+ * Why an identifier failed, as an issue code with its params
+ */
+export interface IdentifierProblem {
+  code: 'invalid_characters' | 'invalid_format' | 'invalid_length' | 'invalid_checksum';
+  params: Record<string, unknown>;
+}
+
+/**
+ * IBAN length per country, from the SWIFT IBAN registry
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BI: 27, BR: 29, BY: 28,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DJ: 27, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18,
+  FK: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22,
+  IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32, LI: 21, LT: 20, LU: 20,
+  LV: 21, LY: 25, MC: 27, MD: 24, ME: 22, MK: 19, MN: 20, MR: 27, MT: 31, MU: 30, NI: 28, NL: 18,
+  NO: 15, OM: 23, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, RU: 33, SA: 24, SC: 31,
+  SD: 18, SE: 24, SI: 19, SK: 24, SM: 27, SO: 23, ST: 25, SV: 28, TL: 23, TN: 24, TR: 26, UA: 29,
+  VA: 22, VG: 24, XK: 20, YE: 30
+};
+
+/**
+ * ISO 7064 MOD 97-10 remainder of an alphanumeric string, with letters counted as 10-35
+ */
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const char of value) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder;
+}
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function weightedSum(digits: string, weights: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + Number(digits[i]) * weight, 0);
+}
+
+/**
+ * ISO 7064 MOD 11,10 check used by German and Croatian VAT numbers
+ */
+function mod11_10(digits: string): boolean {
+  let product = 10;
+  for (const digit of digits.slice(0, -1)) {
+    const sum = (Number(digit) + product) % 10 || 10;
+    product = (2 * sum) % 11;
+  }
+  return (11 - product) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Compact form of an identifier: uppercase, without spaces, dots or dashes
+ */
+function compact(value: string): string {
+  return value.toUpperCase().replace(/[\s.\-/]/g, '');
+}
+
+/**
+ * Diagnoses an IBAN
+ * @returns The problem, or null for a valid IBAN
+ */
+export function ibanProblem(iban: string): IdentifierProblem | null {
+  const value = compact(iban);
+  if (!/^[A-Z0-9]*$/.test(value)) {
+    return { code: 'invalid_characters', params: { format: 'iban' } };
+  }
+  const country = value.slice(0, 2);
+  const length = IBAN_LENGTHS[country];
+  if (length === undefined || !/^[A-Z]{2}\d{2}/.test(value)) {
+    return { code: 'invalid_format', params: { format: 'iban' } };
+  }
+  if (value.length !== length) {
+    return { code: 'invalid_length', params: { format: 'iban', country, min: length, max: length } };
+  }
+  if (mod97(value.slice(4) + value.slice(0, 4)) !== 1) {
+    return { code: 'invalid_checksum', params: { format: 'iban' } };
+  }
+  return null;
+}
+
+/**
+ * Checks if a value is a valid IBAN: known country, the country's length and the mod-97
+ * check digits. Spaces and lowercase letters are accepted.
+ * @example
+ * isValidIBAN('DE89 3704 0044 0532 0130 00') // true
+ * isValidIBAN('DE89 3704 0044 0532 0130 01') // false
+ */
+export function isValidIBAN(iban: string): boolean {
+  return ibanProblem(iban) === null;
+}
+
+/**
+ * Checks if a value is a well-formed BIC (SWIFT code): bank, country, location and an
+ * optional branch, e.g. 'DEUTDEFF' or 'DEUTDEFF500'
+ */
+export function isValidBIC(bic: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/.test(bic.toUpperCase().replace(/\s/g, ''));
+}
+
+/**
+ * Diagnoses a US ABA routing number
+ * @returns The problem, or null for a valid routing number
+ */
+export function routingNumberProblem(routingNumber: string): IdentifierProblem | null {
+  const value = routingNumber.replace(/[\s-]/g, '');
+  if (!/^\d*$/.test(value)) {
+    return { code: 'invalid_characters', params: { format: 'routing-number' } };
+  }
+  if (value.length !== 9) {
+    return { code: 'invalid_length', params: { format: 'routing-number', min: 9, max: 9 } };
+  }
+  // Federal Reserve districts (00-12), thrifts (21-32), electronic (61-72) and traveller's cheques (80)
+  const prefix = Number(value.slice(0, 2));
+  if (!(prefix <= 12 || (prefix >= 21 && prefix <= 32) || (prefix >= 61 && prefix <= 72) || prefix === 80)) {
+    return { code: 'invalid_format', params: { format: 'routing-number' } };
+  }
+  if (weightedSum(value, [3, 7, 1, 3, 7, 1, 3, 7, 1]) % 10 !== 0) {
+    return { code: 'invalid_checksum', params: { format: 'routing-number' } };
+  }
+  return null;
+}
+
+/**
+ * Checks if a value is a valid US ABA routing number (9 digits with a 3-7-1 checksum)
+ * @example
+ * isValidRoutingNumber('021000021') // true
+ */
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  return routingNumberProblem(routingNumber) === null;
+}
+
+interface VatRule {
+  /** Full-match pattern for the number without the country prefix */
+  pattern: RegExp;
+  check(number: string): boolean;
+}
+
+const SPANISH_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+function spanishVat(number: string): boolean {
+  const first = number[0]!;
+  const last = number[8]!;
+  if (/\d/.test(first) || 'XYZ'.includes(first)) {
+    const digits = /\d/.test(first) ? number.slice(0, 8) : String('XYZ'.indexOf(first)) + number.slice(1, 8);
+    return SPANISH_LETTERS[Number(digits) % 23] === last;
+  }
+  if ('KLM'.includes(first)) {
+    return SPANISH_LETTERS[Number(number.slice(1, 8)) % 23] === last;
+  }
+  const digits = number.slice(1, 8);
+  let sum = 0;
+  for (let i = 0; i < 7; i++) {
+    const digit = Number(digits[i]);
+    if (i % 2 === 1) {
+      sum += digit;
+    } else {
+      const doubled = digit * 2;
+      sum += Math.floor(doubled / 10) + (doubled % 10);
+    }
+  }
+  const check = (10 - (sum % 10)) % 10;
+  return last === String(check) || last === 'JABCDEFGHI'[check];
+}
+
+function irishVat(number: string): boolean {
+  // Old style '1X23456A': the second character moves to the end of the digits
+  const modern = /^\d[A-Z+*]/.test(number) ? `0${number.slice(2, 7)}${number[0]}${number[7]}` : number;
+  const extra = modern[8];
+  let sum = weightedSum(modern, [8, 7, 6, 5, 4, 3, 2]);
+  if (extra !== undefined) sum += (extra === 'W' ? 0 : extra.charCodeAt(0) - 64) * 9;
+  return 'WABCDEFGHIJKLMNOPQRSTUV'[sum % 23] === modern[7];
+}
+
+function lithuanianVat(number: string): boolean {
+  const length = number.length - 1;
+  const weights = Array.from({ length }, (_, i) => (i % 9) + 1);
+  let remainder = weightedSum(number, weights) % 11;
+  if (remainder === 10) {
+    remainder = weightedSum(number, weights.map(weight => (weight + 1) % 9 + 1)) % 11;
+  }
+  return remainder % 10 === Number(number[length]);
+}
+
+function bulgarianVat(number: string): boolean {
+  const check = Number(number[number.length - 1]);
+  if (number.length === 9) {
+    let remainder = weightedSum(number, [1, 2, 3, 4, 5, 6, 7, 8]) % 11;
+    if (remainder === 10) remainder = weightedSum(number, [3, 4, 5, 6, 7, 8, 9, 10]) % 11;
+    return remainder % 10 === check;
+  }
+  // Ten digits: a personal, foreigner or other identification number
+  const personal = weightedSum(number, [2, 4, 8, 5, 10, 9, 7, 3, 6]) % 11 % 10;
+  const foreigner = weightedSum(number, [21, 19, 17, 13, 11, 9, 7, 3, 1]) % 10;
+  const other = 11 - (weightedSum(number, [4, 3, 2, 7, 6, 5, 4, 3, 2]) % 11);
+  return personal === check || foreigner === check || (other === 11 ? 0 : other) === check;
+}
+
+function czechVat(number: string): boolean {
+  if (number.length === 8) {
+    return (11 - (weightedSum(number, [8, 7, 6, 5, 4, 3, 2]) % 11)) % 10 === Number(number[7]);
+  }
+  if (number.length === 9) {
+    if (number[0] !== '6') return true;
+    const remainder = weightedSum(number.slice(1), [8, 7, 6, 5, 4, 3, 2]) % 11;
+    return [8, 7, 6, 5, 4, 3, 2, 1, 0, 9, 8][10 - remainder] === Number(number[8]);
+  }
+  return Number(number) % 11 === 0;
+}
+
+function latvianVat(number: string): boolean {
+  if (Number(number[0]) > 3) {
+    return (3 - (weightedSum(number, [9, 1, 4, 8, 3, 10, 2, 5, 7, 6]) % 11) + 11) % 11 === Number(number[10]);
+  }
+  // Personal codes start with the birth date (DDMMYY), or with 32 since 2017
+  if (number.startsWith('32')) return true;
+  const day = Number(number.slice(0, 2));
+  const month = Number(number.slice(2, 4));
+  return day >= 1 && day <= 31 && month >= 1 && month <= 12;
+}
+
+/**
+ * VAT number rules per EU member state, keyed by VAT prefix (Greece uses 'EL')
+ */
+const VAT_RULES: Record<string, VatRule> = {
+  AT: {
+    pattern: /^U\d{8}$/,
+    check: number => {
+      const digits = number.slice(1);
+      const sum = [1, 2, 1, 2, 1, 2, 1].reduce((total, weight, i) => {
+        const product = Number(digits[i]) * weight;
+        return total + Math.floor(product / 10) + (product % 10);
+      }, 0);
+      return (10 - ((sum + 4) % 10)) % 10 === Number(digits[7]);
+    }
+  },
+  BE: {
+    pattern: /^[01]\d{9}$/,
+    check: number => 97 - (Number(number.slice(0, 8)) % 97) === Number(number.slice(8))
+  },
+  BG: { pattern: /^\d{9,10}$/, check: bulgarianVat },
+  CY: {
+    pattern: /^[013-59]\d{7}[A-Z]$/,
+    check: number => {
+      const odd = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21];
+      let sum = 0;
+      for (let i = 0; i < 8; i++) {
+        sum += i % 2 === 0 ? odd[Number(number[i])]! : Number(number[i]);
+      }
+      return String.fromCharCode(65 + (sum % 26)) === number[8];
+    }
+  },
+  CZ: { pattern: /^\d{8,10}$/, check: czechVat },
+  DE: { pattern: /^[1-9]\d{8}$/, check: mod11_10 },
+  DK: { pattern: /^[1-9]\d{7}$/, check: number => weightedSum(number, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0 },
+  EE: {
+    pattern: /^10\d{7}$/,
+    check: number => (10 - (weightedSum(number, [3, 7, 1, 3, 7, 1, 3, 7]) % 10)) % 10 === Number(number[8])
+  },
+  EL: {
+    pattern: /^\d{9}$/,
+    check: number => (weightedSum(number, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 === Number(number[8])
+  },
+  ES: { pattern: /^[A-Z0-9]\d{7}[A-Z0-9]$/, check: spanishVat },
+  FI: {
+    pattern: /^\d{8}$/,
+    check: number => {
+      const remainder = weightedSum(number, [7, 9, 10, 5, 8, 4, 2]) % 11;
+      return remainder !== 1 && (remainder === 0 ? 0 : 11 - remainder) === Number(number[7]);
+    }
+  },
+  FR: {
+    pattern: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,
+    // Only numeric keys can be checked; letter keys use an unpublished scheme
+    check: number => !/^\d{2}/.test(number) || (12 + 3 * (Number(number.slice(2)) % 97)) % 97 === Number(number.slice(0, 2))
+  },
+  HR: { pattern: /^\d{11}$/, check: mod11_10 },
+  HU: {
+    pattern: /^\d{8}$/,
+    check: number => (10 - (weightedSum(number, [9, 7, 3, 1, 9, 7, 3]) % 10)) % 10 === Number(number[7])
+  },
+  IE: { pattern: /^(?:\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/, check: irishVat },
+  IT: { pattern: /^\d{11}$/, check: luhn },
+  LT: { pattern: /^(?:\d{7}1\d|\d{10}1\d)$/, check: lithuanianVat },
+  LU: { pattern: /^\d{8}$/, check: number => Number(number.slice(0, 6)) % 89 === Number(number.slice(6)) },
+  LV: { pattern: /^\d{11}$/, check: latvianVat },
+  MT: {
+    pattern: /^[1-9]\d{7}$/,
+    check: number => 37 - (weightedSum(number, [3, 4, 6, 7, 8, 9]) % 37) === Number(number.slice(6))
+  },
+  NL: {
+    pattern: /^\d{9}B\d{2}$/,
+    // Sole proprietors since 2020 pass the mod-97 check, older numbers the 11-test
+    check: number => mod97(`NL${number}`) === 1 || weightedSum(number, [9, 8, 7, 6, 5, 4, 3, 2]) % 11 === Number(number[8])
+  },
+  PL: {
+    pattern: /^\d{10}$/,
+    check: number => weightedSum(number, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 === Number(number[9])
+  },
+  PT: {
+    pattern: /^[1-9]\d{8}$/,
+    check: number => {
+      const check = 11 - (weightedSum(number, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+      return (check > 9 ? 0 : check) === Number(number[8]);
+    }
+  },
+  RO: {
+    pattern: /^[1-9]\d{1,9}$/,
+    check: number => {
+      const padded = number.padStart(10, '0');
+      return (weightedSum(padded, [7, 5, 3, 2, 1, 7, 5, 3, 2]) * 10) % 11 % 10 === Number(padded[9]);
+    }
+  },
+  SE: { pattern: /^\d{10}01$/, check: number => luhn(number.slice(0, 10)) },
+  SI: {
+    pattern: /^[1-9]\d{7}$/,
+    check: number => {
+      const check = 11 - (weightedSum(number, [8, 7, 6, 5, 4, 3, 2]) % 11);
+      return check !== 11 && check % 10 === Number(number[7]);
+    }
+  },
+  SK: { pattern: /^[1-9]\d[2-47-9]\d{7}$/, check: number => Number(number) % 11 === 0 }
+};
+
+/**
+ * EU VAT prefixes with checksum rules ('EL' for Greece)
+ */
+export const SUPPORTED_VAT_COUNTRIES: readonly string[] = Object.keys(VAT_RULES);
+
+/**
+ * Diagnoses an EU VAT number
+ * @returns The problem, or null for a valid VAT number
+ */
+export function vatNumberProblem(vatNumber: string, country?: string): IdentifierProblem | null {
+  let value = compact(vatNumber);
+  let prefix = country?.toUpperCase();
+  if (prefix === 'GR') prefix = 'EL';
+  if (prefix === undefined) {
+    prefix = value.slice(0, 2);
+    value = value.slice(2);
+  } else if (value.startsWith(prefix)) {
+    value = value.slice(2);
+  }
+
+  const rule = VAT_RULES[prefix];
+  if (!rule || !rule.pattern.test(value)) {
+    return { code: 'invalid_format', params: { format: 'vat', country: prefix } };
+  }
+  if (!rule.check(value)) {
+    return { code: 'invalid_checksum', params: { format: 'vat', country: prefix } };
+  }
+  return null;
+}
+
+/**
+ * Checks if a value is a valid EU VAT number, including the member state's check digits
+ * @param vatNumber - VAT number with its country prefix ('DE136695976'), or without one
+ *   when the country is given
+ * @param country - VAT prefix or ISO country of the number ('GR' is read as 'EL')
+ * @example
+ * isValidVATNumber('DE 136 695 976') // true
+ * isValidVATNumber('136695976', 'DE') // true
+ */
+export function isValidVATNumber(vatNumber: string, country?: string): boolean {
+  return vatNumberProblem(vatNumber, country) === null;
+}
@@ -2,188 +2,134 @@
  * Validation utility functions for common validation tasks
  */
 
-/**
- * Checks if a value is a valid email address
- */
-export function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-}
-
-/**
- * Checks if a value is a valid URL
- */
-export function isValidUrl(url: string): boolean {
-  try {
-    new URL(url);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-/**
- * Checks if a value is a valid phone number (basic validation)
- */
-export function isValidPhoneNumber(phone: string): boolean {
-  const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
-  return phoneRegex.test(phone.replace(/[\s\-\(\)]/g, ''));
-}
-
-/**
- * Checks if a value is a valid credit card number (Luhn algorithm)
- */
-export function isValidCreditCard(cardNumber: string): boolean {
-  const cleanNumber = cardNumber.replace(/\s/g, '');
-  if (!/^\d{13,19}$/.test(cleanNumber)) return false;
-  
-  let sum = 0;
-  let isEven = false;
-  
-  for (let i = cleanNumber.length - 1; i >= 0; i--) {
-    let digit = parseInt(cleanNumber.charAt(i));
-    
-    if (isEven) {
-      digit *= 2;
-      if (digit > 9) {
-        digit -= 9;
-      }
-    }
-    
-    sum += digit;
-    isEven = !isEven;
-  }
-  
-  return sum % 10 === 0;
-}
-
-/**
- * Checks if a value is a valid password (minimum requirements)
- */
-export function isValidPassword(password: string, options: {
-  minLength?: number;
-  requireUppercase?: boolean;
-  requireLowercase?: boolean;
-  requireNumbers?: boolean;
-  requireSpecialChars?: boolean;
-} = {}): boolean {
-  const {
-    minLength = 8,
-    requireUppercase = true,
-    requireLowercase = true,
-    requireNumbers = true,
-    requireSpecialChars = false
-  } = options;
-  
-  if (password.length < minLength) return false;
-  if (requireUppercase && !/[A-Z]/.test(password)) return false;
-  if (requireLowercase && !/[a-z]/.test(password)) return false;
-  if (requireNumbers && !/\d/.test(password)) return false;
-  if (requireSpecialChars && !/[!@#$%^&*(),.?":{}|<>]/.test(password)) return false;
-  
-  return true;
-}
-
-/**
- * Checks if a value is a valid IPv4 address
- */
-export function isValidIPv4(ip: string): boolean {
-  const ipv4Regex = /^(\d{1,3}\.){3}\d{1,3}$/;
-  if (!ipv4Regex.test(ip)) return false;
-  
-  const parts = ip.split('.');
-  return parts.every(part => {
-    const num = parseInt(part);
-    return num >= 0 && num <= 255;
-  });
-}
-
-/**
- * Checks if a value is a valid IPv6 address
- */
-export function isValidIPv6(ip: string): boolean {
-  const ipv6Regex = /^([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}$/;
-  return ipv6Regex.test(ip);
-}
-
-/**
- * Checks if a value is a valid postal code (US format)
- */
-export function isValidPostalCode(postalCode: string): boolean {
-  const postalRegex = /^\d{5}(-\d{4})?$/;
-  return postalRegex.test(postalCode);
-}
-
-/**
- * Checks if a value is a valid social security number (US format)
- */
-export function isValidSSN(ssn: string): boolean {
-  const ssnRegex = /^\d{3}-\d{2}-\d{4}$/;
-  return ssnRegex.test(ssn);
-}
-
-/**
- * Checks if a value is a valid date string
- */
-export function isValidDate(dateString: string): boolean {
-  const date = new Date(dateString);
-  return !isNaN(date.getTime());
-}
-
-/**
- * Checks if a value is a valid time string (HH:MM format)
- */
-export function isValidTime(timeString: string): boolean {
-  const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-  return timeRegex.test(timeString);
-}
-
-/**
- * Checks if a value is a valid hexadecimal color code
- */
-export function isValidHexColor(color: string): boolean {
-  const hexRegex = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
-  return hexRegex.test(color);
-}
-
-/**
- * Checks if a value is a valid JSON string
- */
-export function isValidJSON(jsonString: string): boolean {
-  try {
-    JSON.parse(jsonString);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-/**
- * Checks if a value is a valid UUID
- */
-export function isValidUUID(uuid: string): boolean {
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(uuid);
-}
+export {
+  isValidEmail,
+  isValidUrl,
+  isValidPhoneNumber,
+  isValidCreditCard,
+  isValidPassword,
+  isValidIPv4,
+  isValidIPv6,
+  isValidPostalCode,
+  isValidSSN,
+  isValidDate,
+  isValidTime,
+  isValidHexColor,
+  isValidJSON,
+  isValidUUID
+} from './predicates';
+export type { PasswordRequirements } from './predicates';
+export { CARD_BRANDS, detectCardBrand, parseCardExpiry, isValidCardExpiry, isValidCVV } from './cards';
+export type { CardBrand, CardBrandInfo } from './cards';
+export { SUPPORTED_VAT_COUNTRIES, isValidIBAN, isValidBIC, isValidVATNumber, isValidRoutingNumber } from './financial';
+export {
+  parseIP,
+  formatIP,
+  parseCIDR,
+  formatCIDR,
+  cidrRange,
+  cidrContains,
+  cidrSubnets,
+  rangeToCIDRs,
+  classifyIP
+} from './ip';
+export type { IPAddress, CIDRBlock, IPRangeKind } from './ip';
+export { checkUrl } from './url';
+export type { UrlPolicy, UrlRejectionReason, UrlCheckResult } from './url';
+export { SUPPORTED_PHONE_COUNTRIES, parsePhoneNumber } from './phone';
+export type { PhoneNumber, PhoneNumberType, PhoneNumberStyle } from './phone';
+export { SUPPORTED_POSTAL_COUNTRIES, normalizePostalCode } from './postal';
+export {
+  isValidISBN,
+  toISBN10,
+  toISBN13,
+  hyphenateISBN,
+  isValidISSN,
+  isValidEAN,
+  isValidUPC,
+  expandUPCE,
+  isValidGTIN,
+  normalizeGTIN
+} from './products';
+export { estimatePasswordStrength } from './strength';
+export type {
+  PasswordStrength,
+  PasswordScore,
+  PasswordMatch,
+  PasswordPattern,
+  PasswordDictionary,
+  CrackTimes
+} from './strength';
+export { DEFAULT_MESSAGES, formatPath, formatJsonPointer, getMessageCatalog, setMessageCatalog, withMessageCatalog } from './issues';
+export type { PathSegment, ValidationIssue, ValidationResult, MessageTemplate, MessageCatalog } from './issues';
+export {
+  STRING_FORMATS,
+  validateEmail,
+  validateUrl,
+  validatePhoneNumber,
+  validateCreditCard,
+  validatePassword,
+  validateIPv4,
+  validateIPv6,
+  validatePostalCode,
+  validateSSN,
+  validateDate,
+  validateTime,
+  validateHexColor,
+  validateJSON,
+  validateUUID,
+  validateCardExpiry,
+  validateCVV,
+  validateIBAN,
+  validateBIC,
+  validateVATNumber,
+  validateRoutingNumber,
+  validateISBN,
+  validateISSN,
+  validateEAN,
+  validateUPC,
+  validateGTIN
+} from './validators';
+export type { StringFormat } from './validators';
+export { matchesField, afterField } from './rules';
+export type { FieldRule } from './rules';
+export { createAsyncValidator, isAbortError } from './async';
+export type { AsyncValidator, AsyncValidateFunction } from './async';
+export { JSON_SCHEMA_FORMATS, compileJsonSchema } from './jsonschema';
+export type { JsonSchema, JsonSchemaIssue, JsonSchemaOptions, JsonSchemaValidator } from './jsonschema';
+export { string, number, boolean, literal, object, array, union, optional, refine } from './schema';
+export type {
+  RefineOptions,
+  SchemaKind,
+  Schema,
+  Infer,
+  Shape,
+  InferShape,
+  StringSchema,
+  NumberSchema,
+  ArraySchema,
+  ObjectSchema
+} from './schema';
 
 /**
  * Validates an object against a schema
+ * @deprecated Use object() schemas, which report typed values and per-field issues
  */
 export function validateSchema<T>(
   obj: any,
   schema: Record<keyof T, (value: any) => boolean>
 ): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
-  
+
   for (const [key, validator] of Object.entries(schema)) {
     const validatorFn = validator as (value: any) => boolean;
     if (!validatorFn(obj[key])) {
       errors.push(`Invalid value for ${key}`);
     }
   }
-  
+
   return {
     isValid: errors.length === 0,
     errors
   };
-} 
\ No newline at end of file
+}
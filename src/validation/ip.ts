@@ -0,0 +1,358 @@
+/**
+ * IPv4 and IPv6 addresses as values: parsing, RFC 5952 formatting, CIDR blocks and
+ * special-purpose range classification
+ */
+
+/**
+ * A parsed IP address; `value` holds the 32 or 128 address bits
+ */
+export interface IPAddress {
+  version: 4 | 6;
+  value: bigint;
+  /** IPv6 zone ID, e.g. 'eth0' in 'fe80::1%eth0' */
+  zone?: string;
+}
+
+/**
+ * A CIDR block; host bits of `address` are always zero
+ */
+export interface CIDRBlock {
+  address: IPAddress;
+  prefix: number;
+}
+
+/**
+ * Special-purpose range an address belongs to (IANA registries), or 'public'
+ */
+export type IPRangeKind =
+  | 'unspecified'
+  | 'loopback'
+  | 'private'
+  | 'link-local'
+  | 'multicast'
+  | 'reserved'
+  | 'public';
+
+const BITS = { 4: 32, 6: 128 } as const;
+
+function parseIPv4(input: string): bigint | null {
+  const parts = input.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    // Leading zeros are rejected: some resolvers read them as octal
+    if (!/^(?:0|[1-9]\d{0,2})$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+function parseIPv6(input: string): bigint | null {
+  let text = input;
+  const lastColon = text.lastIndexOf(':');
+  if (text.includes('.', lastColon)) {
+    // Embedded IPv4 ('::ffff:192.0.2.1') becomes the last two groups
+    const v4 = parseIPv4(text.slice(lastColon + 1));
+    if (v4 === null) return null;
+    text = `${text.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const parseGroups = (half: string | undefined): bigint[] | null => {
+    if (!half) return [];
+    const groups = half.split(':');
+    if (!groups.every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) return null;
+    return groups.map(group => BigInt(`0x${group}`));
+  };
+  const head = parseGroups(halves[0]);
+  const rest = parseGroups(halves[1]);
+  if (!head || !rest) return null;
+
+  const explicit = [...head, ...rest];
+  if (halves.length === 1 ? explicit.length !== 8 : explicit.length > 7) return null;
+  const groups = [...head, ...new Array<bigint>(8 - explicit.length).fill(0n), ...rest];
+  return groups.reduce((value, group) => (value << 16n) | group, 0n);
+}
+
+/**
+ * Parses an IPv4 or IPv6 address. IPv4 octets must not have leading zeros; IPv6 may be
+ * compressed ('::1'), embed an IPv4 address ('::ffff:192.0.2.1') and carry a zone ID
+ * ('fe80::1%eth0'). Brackets around IPv6 ('[::1]') are accepted.
+ * @param input - Address text
+ * @returns Parsed address, or null if invalid
+ * @example
+ * parseIP('192.168.1.1') // { version: 4, value: 3232235777n }
+ * parseIP('fe80::1%eth0') // { version: 6, value: 338288524927261089654018896841347694593n, zone: 'eth0' }
+ */
+export function parseIP(input: string): IPAddress | null {
+  if (typeof input !== 'string') return null;
+  let text = input.trim();
+  if (text.startsWith('[') && text.endsWith(']')) text = text.slice(1, -1);
+
+  if (!text.includes(':')) {
+    const value = parseIPv4(text);
+    return value === null ? null : { version: 4, value };
+  }
+
+  let zone: string | undefined;
+  const percent = text.indexOf('%');
+  if (percent !== -1) {
+    zone = text.slice(percent + 1);
+    text = text.slice(0, percent);
+    if (!/^[\w.~-]+$/.test(zone)) return null;
+  }
+  const value = parseIPv6(text);
+  if (value === null) return null;
+  return zone === undefined ? { version: 6, value } : { version: 6, value, zone };
+}
+
+function formatIPv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map(shift => String((value >> shift) & 0xffn)).join('.');
+}
+
+/**
+ * Formats an address. IPv6 uses the RFC 5952 form by default: lowercase, no leading zeros,
+ * the longest run of zero groups as '::', and IPv4-mapped addresses as '::ffff:a.b.c.d'.
+ * @param ip - Parsed address
+ * @param options - `expanded: true` writes all eight IPv6 groups with four digits each
+ * @returns Address text, with '%zone' when present
+ * @example
+ * formatIP(parseIP('2001:0DB8:0:0:0:0:0:1')!) // '2001:db8::1'
+ * formatIP(parseIP('::1')!, { expanded: true }) // '0000:0000:0000:0000:0000:0000:0000:0001'
+ */
+export function formatIP(ip: IPAddress, options: { expanded?: boolean } = {}): string {
+  const { expanded = false } = options;
+  if (ip.version === 4) return formatIPv4(ip.value);
+
+  const zone = ip.zone === undefined ? '' : `%${ip.zone}`;
+  const groups = Array.from({ length: 8 }, (_, i) => Number((ip.value >> BigInt(112 - 16 * i)) & 0xffffn));
+  if (expanded) {
+    return groups.map(group => group.toString(16).padStart(4, '0')).join(':') + zone;
+  }
+  if (ip.value >> 32n === 0xffffn) {
+    return `::ffff:${formatIPv4(ip.value & 0xffffffffn)}${zone}`;
+  }
+
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === 0) length++;
+    if (length > bestLength) {
+      bestStart = i;
+      bestLength = length;
+    }
+  }
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':') + zone;
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}${zone}`;
+}
+
+function toAddress(ip: IPAddress | string): IPAddress {
+  const parsed = typeof ip === 'string' ? parseIP(ip) : ip;
+  if (!parsed) {
+    throw new Error(`Invalid IP address: ${String(ip)}`);
+  }
+  return parsed;
+}
+
+function toBlock(block: CIDRBlock | string): CIDRBlock {
+  const parsed = typeof block === 'string' ? parseCIDR(block) : block;
+  if (!parsed) {
+    throw new Error(`Invalid CIDR block: ${String(block)}`);
+  }
+  return parsed;
+}
+
+function hostMask(version: 4 | 6, prefix: number): bigint {
+  return (1n << BigInt(BITS[version] - prefix)) - 1n;
+}
+
+/**
+ * Parses CIDR notation; an address without a prefix is a single-address block. Host
+ * bits are cleared, so '10.1.2.3/8' becomes 10.0.0.0/8.
+ * @param input - e.g. '10.0.0.0/8' or '2001:db8::/32'
+ * @returns Block, or null if invalid
+ */
+export function parseCIDR(input: string): CIDRBlock | null {
+  if (typeof input !== 'string') return null;
+  const [addressText, prefixText, ...extra] = input.trim().split('/');
+  if (extra.length > 0) return null;
+  const address = parseIP(addressText!);
+  if (!address || address.zone !== undefined) return null;
+  const bits = BITS[address.version];
+  if (prefixText !== undefined && !/^(?:0|[1-9]\d{0,2})$/.test(prefixText)) return null;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (prefix > bits) return null;
+  return { address: { version: address.version, value: address.value & ~hostMask(address.version, prefix) }, prefix };
+}
+
+/**
+ * Formats a CIDR block, e.g. '10.0.0.0/8'
+ */
+export function formatCIDR(block: CIDRBlock): string {
+  return `${formatIP(block.address)}/${block.prefix}`;
+}
+
+/**
+ * First and last address of a block and the number of addresses in it
+ * @param block - Block or CIDR text
+ * @returns Range of the block
+ * @throws Error if the block is invalid
+ * @example
+ * cidrRange('192.168.0.0/30') // { first: 192.168.0.0, last: 192.168.0.3, size: 4n }
+ */
+export function cidrRange(block: CIDRBlock | string): { first: IPAddress; last: IPAddress; size: bigint } {
+  const { address, prefix } = toBlock(block);
+  const mask = hostMask(address.version, prefix);
+  return {
+    first: address,
+    last: { version: address.version, value: address.value | mask },
+    size: mask + 1n
+  };
+}
+
+/**
+ * Checks whether a block contains an address (or every address of another block);
+ * addresses of the other IP version are never contained
+ * @param block - Block or CIDR text
+ * @param ip - Address, address text or block
+ * @throws Error if an argument is invalid
+ * @example
+ * cidrContains('10.0.0.0/8', '10.20.30.40') // true
+ */
+export function cidrContains(block: CIDRBlock | string, ip: IPAddress | CIDRBlock | string): boolean {
+  const { address, prefix } = toBlock(block);
+  const other = typeof ip === 'string'
+    ? (ip.includes('/') ? toBlock(ip) : { address: toAddress(ip), prefix: BITS[toAddress(ip).version] })
+    : 'prefix' in ip ? ip : { address: ip, prefix: BITS[ip.version] };
+  if (other.address.version !== address.version || other.prefix < prefix) return false;
+  return (other.address.value & ~hostMask(address.version, prefix)) === address.value;
+}
+
+/**
+ * Splits a block into subnets with a longer prefix, lazily
+ * @param block - Block or CIDR text
+ * @param prefix - Prefix length of the subnets
+ * @returns Iterator over the subnets in address order
+ * @throws Error if the prefix is shorter than the block's or too long for its IP version
+ * @example
+ * [...cidrSubnets('10.0.0.0/23', 24)].map(formatCIDR) // ['10.0.0.0/24', '10.0.1.0/24']
+ */
+export function* cidrSubnets(block: CIDRBlock | string, prefix: number): Generator<CIDRBlock> {
+  const { address, prefix: blockPrefix } = toBlock(block);
+  if (!Number.isInteger(prefix) || prefix < blockPrefix || prefix > BITS[address.version]) {
+    throw new Error(`Subnet prefix must be between ${blockPrefix} and ${BITS[address.version]}`);
+  }
+  const step = 1n << BigInt(BITS[address.version] - prefix);
+  const end = address.value + (1n << BigInt(BITS[address.version] - blockPrefix));
+  for (let value = address.value; value < end; value += step) {
+    yield { address: { version: address.version, value }, prefix };
+  }
+}
+
+/**
+ * Converts an inclusive address range into the fewest CIDR blocks that cover it exactly
+ * @param start - First address
+ * @param end - Last address
+ * @returns Blocks in address order
+ * @throws Error if the addresses are invalid, of different versions or out of order
+ * @example
+ * rangeToCIDRs('10.0.0.0', '10.0.0.10').map(formatCIDR) // ['10.0.0.0/29', '10.0.0.8/31', '10.0.0.10/32']
+ */
+export function rangeToCIDRs(start: IPAddress | string, end: IPAddress | string): CIDRBlock[] {
+  const first = toAddress(start);
+  const last = toAddress(end);
+  if (first.version !== last.version) {
+    throw new Error('Range must not mix IPv4 and IPv6 addresses');
+  }
+  if (first.value > last.value) {
+    throw new Error('Range start must not be after its end');
+  }
+  const bits = BITS[first.version];
+  const blocks: CIDRBlock[] = [];
+  let value = first.value;
+  while (value <= last.value) {
+    let size = 0;
+    while (
+      size < bits &&
+      (value & ((1n << BigInt(size + 1)) - 1n)) === 0n &&
+      value + (1n << BigInt(size + 1)) - 1n <= last.value
+    ) {
+      size++;
+    }
+    blocks.push({ address: { version: first.version, value }, prefix: bits - size });
+    value += 1n << BigInt(size);
+  }
+  return blocks;
+}
+
+const SPECIAL_RANGES: [string, IPRangeKind][] = [
+  ['0.0.0.0/32', 'unspecified'],
+  ['0.0.0.0/8', 'reserved'],
+  ['10.0.0.0/8', 'private'],
+  ['100.64.0.0/10', 'private'],
+  ['127.0.0.0/8', 'loopback'],
+  ['169.254.0.0/16', 'link-local'],
+  ['172.16.0.0/12', 'private'],
+  ['192.0.0.0/24', 'reserved'],
+  ['192.0.2.0/24', 'reserved'],
+  ['192.88.99.0/24', 'reserved'],
+  ['192.168.0.0/16', 'private'],
+  ['198.18.0.0/15', 'reserved'],
+  ['198.51.100.0/24', 'reserved'],
+  ['203.0.113.0/24', 'reserved'],
+  ['224.0.0.0/4', 'multicast'],
+  ['240.0.0.0/4', 'reserved'],
+  ['::/128', 'unspecified'],
+  ['::1/128', 'loopback'],
+  ['64:ff9b:1::/48', 'private'],
+  ['100::/64', 'reserved'],
+  ['2001::/23', 'reserved'],
+  ['2001:db8::/32', 'reserved'],
+  ['2002::/16', 'reserved'],
+  ['fc00::/7', 'private'],
+  ['fe80::/10', 'link-local'],
+  ['fec0::/10', 'reserved'],
+  ['ff00::/8', 'multicast'],
+  ['::/8', 'reserved']
+];
+
+let specialBlocks: [CIDRBlock, IPRangeKind][] | undefined;
+
+/**
+ * IPv4 address carried in an IPv4-mapped (::ffff:0:0/96), deprecated IPv4-compatible
+ * (::/96) or NAT64 (64:ff9b::/96) IPv6 address; these reach the IPv4 host
+ */
+function embeddedIPv4(address: IPAddress): IPAddress | null {
+  if (address.version !== 6) return null;
+  const prefix = address.value >> 32n;
+  // :: and ::1 are IPv6's own unspecified and loopback addresses
+  const compatible = prefix === 0n && address.value > 1n;
+  if (prefix !== 0xffffn && prefix !== 0x64ff9bn << 64n && !compatible) return null;
+  return { version: 4, value: address.value & 0xffffffffn };
+}
+
+/**
+ * Classifies an address by the IANA special-purpose registries. Private covers RFC 1918,
+ * carrier-grade NAT (100.64.0.0/10) and IPv6 unique local addresses; reserved covers
+ * documentation, benchmarking, 6to4 relay and future-use ranges. IPv6 addresses that embed
+ * an IPv4 address (IPv4-mapped, IPv4-compatible, NAT64) are classified by it.
+ * @param ip - Address or address text
+ * @returns Range kind, or 'public'
+ * @throws Error if the address is invalid
+ * @example
+ * classifyIP('192.168.1.1') // 'private'
+ * classifyIP('::ffff:127.0.0.1') // 'loopback'
+ * classifyIP('::127.0.0.1') // 'loopback'
+ */
+export function classifyIP(ip: IPAddress | string): IPRangeKind {
+  const parsed = toAddress(ip);
+  const address = embeddedIPv4(parsed) ?? parsed;
+  specialBlocks ??= SPECIAL_RANGES.map(([block, kind]) => [parseCIDR(block)!, kind]);
+  const match = specialBlocks.find(([block]) => cidrContains(block, address));
+  return match ? match[1] : 'public';
+}
@@ -0,0 +1,176 @@
+/**
+ * Validation issues: where a value failed, a stable code and a readable message
+ */
+
+/**
+ * Object key or array index leading to a value
+ */
+export type PathSegment = string | number;
+
+/**
+ * A single validation failure
+ */
+export interface ValidationIssue {
+  /** Location of the failing value, e.g. ['address', 'zip'] or ['tags', 2] */
+  path: PathSegment[];
+  /** Stable machine-readable code, e.g. 'too_short' */
+  code: string;
+  message: string;
+  /** Values referenced by the message, e.g. { min: 8 } */
+  params: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a validation; all issues are collected rather than stopping at the first
+ */
+export type ValidationResult<T, I extends ValidationIssue = ValidationIssue> =
+  | { ok: true; value: T; issues: [] }
+  | { ok: false; issues: I[] };
+
+/**
+ * Message for an issue code: a template with {param} placeholders, or a function of the params
+ */
+export type MessageTemplate = string | ((params: Record<string, unknown>) => string);
+
+/**
+ * Messages keyed by issue code
+ */
+export type MessageCatalog = Record<string, MessageTemplate>;
+
+/**
+ * English messages for every built-in issue code; translations can override any subset
+ */
+export const DEFAULT_MESSAGES: Readonly<MessageCatalog> = {
+  required: 'Required',
+  invalid_type: 'Expected {expected}, received {received}',
+  invalid_literal: p => `Expected ${JSON.stringify(p['expected'])}`,
+  invalid_union: 'Does not match any of the allowed types',
+  too_short: 'Must be at least {min} characters',
+  too_long: 'Must be at most {max} characters',
+  too_small: p => `Must be greater than ${p['exclusive'] ? '' : 'or equal to '}${p['min']}`,
+  too_big: p => `Must be less than ${p['exclusive'] ? '' : 'or equal to '}${p['max']}`,
+  not_multiple_of: 'Must be a multiple of {multipleOf}',
+  not_integer: 'Must be an integer',
+  too_few_items: 'Must contain at least {min} items',
+  too_many_items: 'Must contain at most {max} items',
+  duplicate_items: 'Must not contain duplicate items',
+  too_few_contains: 'Must contain at least {min} matching items',
+  too_many_contains: 'Must contain at most {max} matching items',
+  too_few_properties: 'Must have at least {min} properties',
+  too_many_properties: 'Must have at most {max} properties',
+  invalid_property_name: 'Invalid property name {property}',
+  missing_dependency: 'Required when {dependent} is present',
+  invalid_enum: p => `Must be one of ${(p['allowed'] as unknown[]).map(value => JSON.stringify(value)).join(', ')}`,
+  multiple_matches: 'Must match exactly one of the allowed types',
+  not_allowed: 'Is not allowed',
+  pattern_mismatch: 'Has an invalid format',
+  invalid_format: 'Must be a valid {format}',
+  invalid_country: 'Must be a {country} number',
+  invalid_characters: 'Contains invalid characters',
+  invalid_length: p => {
+    const lengths = p['lengths'] as number[] | undefined;
+    if (lengths && lengths.length > 1) return `Must be ${lengths.slice(0, -1).join(', ')} or ${lengths[lengths.length - 1]} digits long`;
+    return p['min'] === p['max']
+      ? `Must be ${p['min']} characters long`
+      : `Must be between ${p['min']} and ${p['max']} digits long`;
+  },
+  invalid_checksum: 'Has an invalid check digit',
+  invalid_json: 'Must be valid JSON',
+  expired: 'Has expired',
+  protocol_not_allowed: 'Protocol {protocol} is not allowed',
+  credentials_not_allowed: 'Must not contain credentials',
+  host_not_allowed: 'Host {host} is not allowed',
+  blocked_ip: 'Address {address} is in a blocked {range} range',
+  port_not_allowed: 'Port {port} is not allowed',
+  missing_uppercase: 'Must contain an uppercase letter',
+  missing_lowercase: 'Must contain a lowercase letter',
+  missing_number: 'Must contain a number',
+  missing_special_char: 'Must contain a special character',
+  too_weak: 'Is too easy to guess',
+  not_equal: 'Must match {other}',
+  not_after: p => `Must be ${p['inclusive'] ? 'on or after' : 'after'} ${p['other']}`,
+  unrecognized_keys: 'Unrecognized keys: {keys}',
+  custom: 'Invalid value'
+};
+
+let currentCatalog: MessageCatalog = DEFAULT_MESSAGES;
+
+function renderTemplate(template: MessageTemplate, params: Record<string, unknown>): string {
+  if (typeof template === 'function') return template(params);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in params)) return placeholder;
+    const value = params[name];
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
+
+/**
+ * Returns the messages currently used for new issues
+ */
+export function getMessageCatalog(): Readonly<MessageCatalog> {
+  return currentCatalog;
+}
+
+/**
+ * Replaces the messages used for new issues; codes missing from the catalog fall
+ * back to the English defaults
+ * @param catalog - Messages keyed by issue code, or undefined to restore the defaults
+ * @example
+ * setMessageCatalog({ required: 'Obligatoire', too_short: 'Au moins {min} caractères' })
+ * string().min(8).validate('abc').issues[0].message // 'Au moins 8 caractères'
+ * setMessageCatalog() // back to English
+ */
+export function setMessageCatalog(catalog?: MessageCatalog): void {
+  if (catalog !== undefined && (typeof catalog !== 'object' || catalog === null)) {
+    throw new TypeError('Message catalog must be an object');
+  }
+  currentCatalog = catalog === undefined ? DEFAULT_MESSAGES : { ...DEFAULT_MESSAGES, ...catalog };
+}
+
+/**
+ * Runs a synchronous callback with a different message catalog, e.g. per request
+ * @param catalog - Messages to use while the callback runs
+ * @param fn - Callback; the previous catalog is restored when it returns or throws
+ * @returns The callback's return value
+ * @example
+ * withMessageCatalog(germanMessages, () => signupSchema.validate(body))
+ */
+export function withMessageCatalog<T>(catalog: MessageCatalog, fn: () => T): T {
+  const previous = currentCatalog;
+  setMessageCatalog(catalog);
+  try {
+    return fn();
+  } finally {
+    currentCatalog = previous;
+  }
+}
+
+/**
+ * Builds an issue, filling in the catalog message for its code
+ */
+export function createIssue(
+  code: string,
+  path: PathSegment[],
+  params: Record<string, unknown> = {},
+  message?: string
+): ValidationIssue {
+  const template = currentCatalog[code] ?? currentCatalog['custom'] ?? DEFAULT_MESSAGES['custom']!;
+  return { path, code, message: message ?? renderTemplate(template, params), params };
+}
+
+/**
+ * Formats a path as a JSON Pointer (RFC 6901), e.g. ['items', 0, 'a/b'] becomes '/items/0/a~1b'
+ */
+export function formatJsonPointer(path: PathSegment[]): string {
+  return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * Formats a path for display, e.g. ['items', 0, 'name'] becomes 'items[0].name'
+ */
+export function formatPath(path: PathSegment[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+}
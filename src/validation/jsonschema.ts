@@ -0,0 +1,629 @@
+/**
+ * JSON Schema (draft 2020-12) compiled into reusable validators
+ */
+
+import { createIssue, formatJsonPointer, PathSegment, ValidationIssue, ValidationResult } from './issues';
+import { isValidDate } from './predicates';
+import { STRING_FORMATS } from './validators';
+
+/**
+ * A JSON Schema: an object of keywords, or true (anything) / false (nothing)
+ */
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+/**
+ * Issue reported by a compiled JSON Schema
+ */
+export interface JsonSchemaIssue extends ValidationIssue {
+  /** JSON Pointer to the failing value, e.g. '/items/0/name' ('' for the root) */
+  instancePath: string;
+  /** Location of the failing keyword, e.g. '#/properties/items/items/required' */
+  schemaPath: string;
+}
+
+export interface JsonSchemaOptions {
+  /** Extra or replacement format checks; formats without a check are not asserted */
+  formats?: Record<string, (value: string) => boolean>;
+  /** Other schemas that $ref can point to, each identified by its $id */
+  schemas?: JsonSchema[];
+}
+
+/**
+ * Validator produced by compileJsonSchema
+ */
+export type JsonSchemaValidator<T = unknown> = (data: unknown) => ValidationResult<T, JsonSchemaIssue>;
+
+/**
+ * Checks used for the format keyword, backed by the string validators
+ */
+export const JSON_SCHEMA_FORMATS: Record<string, (value: string) => boolean> = {
+  email: STRING_FORMATS.email,
+  uri: STRING_FORMATS.url,
+  uuid: STRING_FORMATS.uuid,
+  ipv4: STRING_FORMATS.ipv4,
+  ipv6: STRING_FORMATS.ipv6,
+  // RFC 3339 full-date, rejecting days that do not exist such as 2023-02-30
+  date: value =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidDate(value) && new Date(value).toISOString().startsWith(value)
+};
+
+type SchemaObject = { [keyword: string]: unknown };
+
+/**
+ * Properties and items evaluated by a schema, for unevaluatedProperties/unevaluatedItems
+ */
+interface Evaluated {
+  props: Set<string>;
+  items: Set<number>;
+  allItems: boolean;
+}
+
+/** Returns what was evaluated, or null if the value is invalid */
+type Node = (value: unknown, path: PathSegment[], issues: JsonSchemaIssue[]) => Evaluated | null;
+
+type Keyword = (value: unknown, path: PathSegment[], issues: JsonSchemaIssue[], evaluated: Evaluated) => void;
+
+interface Registry {
+  rootBase: string;
+  resources: Map<string, SchemaObject>;
+  anchors: Map<string, SchemaObject>;
+  locations: Map<SchemaObject, { base: string; location: string }>;
+  nodes: Map<SchemaObject, Node>;
+  formats: Record<string, (value: string) => boolean>;
+}
+
+/** Base URI for schemas without an $id, so relative references still resolve */
+const DEFAULT_BASE = 'json-schema://root/schema.json';
+
+/** Keywords whose values are data, not subschemas */
+const DATA_KEYWORDS = new Set(['enum', 'const', 'default', 'examples']);
+
+function isSchemaObject(value: unknown): value is SchemaObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  if (type === 'integer') return typeof value === 'number' && Number.isInteger(value);
+  return jsonType(value) === type;
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+  if (isSchemaObject(a) && isSchemaObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && jsonEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function emptyEvaluated(): Evaluated {
+  return { props: new Set(), items: new Set(), allItems: false };
+}
+
+function merge(target: Evaluated, source: Evaluated | null): void {
+  if (!source) return;
+  source.props.forEach(key => target.props.add(key));
+  source.items.forEach(index => target.items.add(index));
+  target.allItems ||= source.allItems;
+}
+
+function jsonIssue(code: string, path: PathSegment[], schemaPath: string, params: Record<string, unknown> = {}): JsonSchemaIssue {
+  return { ...createIssue(code, path, params), instancePath: formatJsonPointer(path), schemaPath };
+}
+
+function withoutFragment(uri: string): string {
+  const index = uri.indexOf('#');
+  return index === -1 ? uri : uri.slice(0, index);
+}
+
+function displayUri(uri: string, registry: Registry): string {
+  return uri === registry.rootBase ? '' : uri;
+}
+
+/**
+ * Records every resource ($id), anchor and schema location so $ref can be resolved
+ */
+function indexSchema(schema: SchemaObject, base: string, pointer: string, registry: Registry): void {
+  const id = schema['$id'];
+  if (typeof id === 'string' && !id.startsWith('#')) {
+    base = withoutFragment(new URL(id, base).href);
+    pointer = '';
+    registry.resources.set(base, schema);
+  }
+  if (!registry.locations.has(schema)) {
+    registry.locations.set(schema, { base, location: `${displayUri(base, registry)}#${pointer}` });
+  }
+  for (const keyword of ['$anchor', '$dynamicAnchor']) {
+    const anchor = schema[keyword];
+    if (typeof anchor === 'string') {
+      registry.anchors.set(`${base}#${anchor}`, schema);
+    }
+  }
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (DATA_KEYWORDS.has(key)) continue;
+    indexValue(value, base, `${pointer}/${escapePointer(key)}`, registry);
+  }
+}
+
+function indexValue(value: unknown, base: string, pointer: string, registry: Registry): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => indexValue(item, base, `${pointer}/${i}`, registry));
+  } else if (isSchemaObject(value)) {
+    indexSchema(value, base, pointer, registry);
+  }
+}
+
+function resolvePointer(root: SchemaObject, pointer: string): unknown {
+  let current: unknown = root;
+  for (const raw of pointer.split('/').slice(1)) {
+    const segment = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(current)) {
+      current = /^\d+$/.test(segment) ? current[Number(segment)] : undefined;
+    } else if (isSchemaObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function resolveRef(ref: string, base: string, registry: Registry): { schema: JsonSchema; location: string; base: string } {
+  let url: URL;
+  try {
+    url = new URL(ref, base);
+  } catch {
+    throw new Error(`Invalid $ref "${ref}"`);
+  }
+  const fragment = decodeURIComponent(url.hash.slice(1));
+  const uri = withoutFragment(url.href);
+  const resource = registry.resources.get(uri);
+
+  if (resource && (fragment === '' || fragment.startsWith('/'))) {
+    const target = fragment === '' ? resource : resolvePointer(resource, fragment);
+    if (typeof target === 'boolean' || isSchemaObject(target)) {
+      return { schema: target, location: `${displayUri(uri, registry)}#${fragment}`, base: uri };
+    }
+  }
+  const anchored = registry.anchors.get(`${uri}#${fragment}`);
+  if (anchored) {
+    const { location, base: anchorBase } = registry.locations.get(anchored)!;
+    return { schema: anchored, location, base: anchorBase };
+  }
+  throw new Error(`Cannot resolve $ref "${ref}"`);
+}
+
+function compilePattern(pattern: unknown, location: string): RegExp {
+  try {
+    return new RegExp(String(pattern), 'u');
+  } catch {
+    throw new Error(`Invalid regular expression at ${location}`);
+  }
+}
+
+function compileSchema(schema: JsonSchema, location: string, base: string, registry: Registry): Node {
+  if (schema === true) {
+    return () => emptyEvaluated();
+  }
+  if (schema === false) {
+    return (_value, path, issues) => {
+      issues.push(jsonIssue('not_allowed', path, location));
+      return null;
+    };
+  }
+  if (!isSchemaObject(schema)) {
+    throw new TypeError(`Schema at ${location} must be an object or a boolean`);
+  }
+
+  const cached = registry.nodes.get(schema);
+  if (cached) return cached;
+
+  // Registered before compiling keywords so recursive $refs find it
+  let keywords: Keyword[] = [];
+  const node: Node = (value, path, issues) => {
+    const evaluated = emptyEvaluated();
+    const before = issues.length;
+    for (const keyword of keywords) {
+      keyword(value, path, issues, evaluated);
+    }
+    return issues.length === before ? evaluated : null;
+  };
+  registry.nodes.set(schema, node);
+
+  const known = registry.locations.get(schema) ?? { base, location };
+  keywords = compileKeywords(schema, known.location, known.base, registry);
+  return node;
+}
+
+function compileKeywords(schema: SchemaObject, location: string, base: string, registry: Registry): Keyword[] {
+  const keywords: Keyword[] = [];
+  const at = (keyword: string) => `${location}/${keyword}`;
+  const sub = (value: unknown, pointer: string) => compileSchema(value as JsonSchema, `${location}/${pointer}`, base, registry);
+  const numberAt = (keyword: string) => typeof schema[keyword] === 'number' ? schema[keyword] as number : undefined;
+  const has = (keyword: string) => schema[keyword] !== undefined;
+
+  // References
+  for (const keyword of ['$ref', '$dynamicRef']) {
+    const ref = schema[keyword];
+    if (typeof ref === 'string') {
+      const target = resolveRef(ref, base, registry);
+      const node = compileSchema(target.schema, target.location, target.base, registry);
+      keywords.push((value, path, issues, evaluated) => merge(evaluated, node(value, path, issues)));
+    }
+  }
+
+  // Any type
+  if (has('type')) {
+    const types = Array.isArray(schema['type']) ? schema['type'] as unknown[] : [schema['type']];
+    keywords.push((value, path, issues) => {
+      if (!types.some(type => matchesType(value, type))) {
+        issues.push(jsonIssue('invalid_type', path, at('type'), { expected: types.join(' or '), received: jsonType(value) }));
+      }
+    });
+  }
+  if (Array.isArray(schema['enum'])) {
+    const allowed = schema['enum'] as unknown[];
+    keywords.push((value, path, issues) => {
+      if (!allowed.some(option => jsonEqual(option, value))) {
+        issues.push(jsonIssue('invalid_enum', path, at('enum'), { allowed }));
+      }
+    });
+  }
+  if (has('const')) {
+    const expected = schema['const'];
+    keywords.push((value, path, issues) => {
+      if (!jsonEqual(expected, value)) {
+        issues.push(jsonIssue('invalid_literal', path, at('const'), { expected }));
+      }
+    });
+  }
+
+  // Numbers
+  const numberRules: { keyword: string; code: string; test: (value: number) => boolean; params: Record<string, unknown> }[] = [];
+  const addNumberRule = (
+    keyword: string,
+    code: string,
+    test: (value: number, limit: number) => boolean,
+    params: (limit: number) => Record<string, unknown>
+  ) => {
+    const limit = numberAt(keyword);
+    if (limit !== undefined) {
+      numberRules.push({ keyword, code, test: value => test(value, limit), params: params(limit) });
+    }
+  };
+  addNumberRule('multipleOf', 'not_multiple_of', (value, m) => {
+    const quotient = value / m;
+    return Math.abs(quotient - Math.round(quotient)) <= 1e-9 * Math.max(1, Math.abs(quotient));
+  }, multipleOf => ({ multipleOf }));
+  addNumberRule('maximum', 'too_big', (value, max) => value <= max, max => ({ max }));
+  addNumberRule('exclusiveMaximum', 'too_big', (value, max) => value < max, max => ({ max, exclusive: true }));
+  addNumberRule('minimum', 'too_small', (value, min) => value >= min, min => ({ min }));
+  addNumberRule('exclusiveMinimum', 'too_small', (value, min) => value > min, min => ({ min, exclusive: true }));
+  if (numberRules.length > 0) {
+    keywords.push((value, path, issues) => {
+      if (typeof value !== 'number') return;
+      for (const { keyword, code, test, params } of numberRules) {
+        if (!test(value)) issues.push(jsonIssue(code, path, at(keyword), params));
+      }
+    });
+  }
+
+  // Strings
+  const minLength = numberAt('minLength');
+  const maxLength = numberAt('maxLength');
+  const pattern = has('pattern') ? compilePattern(schema['pattern'], at('pattern')) : undefined;
+  const format = typeof schema['format'] === 'string' ? schema['format'] : undefined;
+  const formatCheck = format === undefined ? undefined : registry.formats[format];
+  if (minLength !== undefined || maxLength !== undefined || pattern || formatCheck) {
+    keywords.push((value, path, issues) => {
+      if (typeof value !== 'string') return;
+      // Lengths count code points, as the spec requires
+      const length = Array.from(value).length;
+      if (minLength !== undefined && length < minLength) {
+        issues.push(jsonIssue('too_short', path, at('minLength'), { min: minLength }));
+      }
+      if (maxLength !== undefined && length > maxLength) {
+        issues.push(jsonIssue('too_long', path, at('maxLength'), { max: maxLength }));
+      }
+      if (pattern && !pattern.test(value)) {
+        issues.push(jsonIssue('pattern_mismatch', path, at('pattern'), { pattern: pattern.source }));
+      }
+      if (formatCheck && !formatCheck(value)) {
+        issues.push(jsonIssue('invalid_format', path, at('format'), { format }));
+      }
+    });
+  }
+
+  // Arrays
+  const prefixItems = Array.isArray(schema['prefixItems'])
+    ? (schema['prefixItems'] as unknown[]).map((item, i) => sub(item, `prefixItems/${i}`))
+    : [];
+  const items = has('items') ? sub(schema['items'], 'items') : undefined;
+  const contains = has('contains') ? sub(schema['contains'], 'contains') : undefined;
+  const minContains = numberAt('minContains') ?? 1;
+  const maxContains = numberAt('maxContains');
+  const minItems = numberAt('minItems');
+  const maxItems = numberAt('maxItems');
+  const uniqueItems = schema['uniqueItems'] === true;
+  keywords.push((value, path, issues, evaluated) => {
+    if (!Array.isArray(value)) return;
+    prefixItems.slice(0, value.length).forEach((node, i) => {
+      node(value[i], [...path, i], issues);
+      evaluated.items.add(i);
+    });
+    if (items) {
+      for (let i = prefixItems.length; i < value.length; i++) {
+        items(value[i], [...path, i], issues);
+      }
+      evaluated.allItems = true;
+    }
+    if (contains) {
+      let matches = 0;
+      value.forEach((item, i) => {
+        if (contains(item, [...path, i], [])) {
+          matches++;
+          evaluated.items.add(i);
+        }
+      });
+      if (matches < minContains) {
+        issues.push(jsonIssue('too_few_contains', path, at(has('minContains') ? 'minContains' : 'contains'), { min: minContains }));
+      }
+      if (maxContains !== undefined && matches > maxContains) {
+        issues.push(jsonIssue('too_many_contains', path, at('maxContains'), { max: maxContains }));
+      }
+    }
+    if (minItems !== undefined && value.length < minItems) {
+      issues.push(jsonIssue('too_few_items', path, at('minItems'), { min: minItems }));
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      issues.push(jsonIssue('too_many_items', path, at('maxItems'), { max: maxItems }));
+    }
+    if (uniqueItems) {
+      outer: for (let i = 0; i < value.length; i++) {
+        for (let j = i + 1; j < value.length; j++) {
+          if (jsonEqual(value[i], value[j])) {
+            issues.push(jsonIssue('duplicate_items', path, at('uniqueItems'), { indices: [i, j] }));
+            break outer;
+          }
+        }
+      }
+    }
+  });
+
+  // Objects
+  const properties = isSchemaObject(schema['properties'])
+    ? Object.entries(schema['properties']).map(([key, value]) => [key, sub(value, `properties/${escapePointer(key)}`)] as const)
+    : [];
+  const patternProperties = isSchemaObject(schema['patternProperties'])
+    ? Object.entries(schema['patternProperties']).map(([source, value]) => {
+      const pointer = `patternProperties/${escapePointer(source)}`;
+      return [compilePattern(source, `${location}/${pointer}`), sub(value, pointer)] as const;
+    })
+    : [];
+  const additionalProperties = schema['additionalProperties'];
+  const additional = additionalProperties === undefined || additionalProperties === false
+    ? undefined
+    : sub(additionalProperties, 'additionalProperties');
+  const propertyNames = has('propertyNames') ? sub(schema['propertyNames'], 'propertyNames') : undefined;
+  const required = Array.isArray(schema['required']) ? schema['required'] as string[] : [];
+  const dependentRequired = isSchemaObject(schema['dependentRequired'])
+    ? Object.entries(schema['dependentRequired'] as Record<string, string[]>)
+    : [];
+  const dependentSchemas = isSchemaObject(schema['dependentSchemas'])
+    ? Object.entries(schema['dependentSchemas']).map(([key, value]) => [key, sub(value, `dependentSchemas/${escapePointer(key)}`)] as const)
+    : [];
+  const minProperties = numberAt('minProperties');
+  const maxProperties = numberAt('maxProperties');
+  keywords.push((value, path, issues, evaluated) => {
+    if (!isSchemaObject(value)) return;
+    const present = (key: string) => Object.prototype.hasOwnProperty.call(value, key);
+    const keys = Object.keys(value);
+
+    for (const key of required) {
+      if (!present(key)) issues.push(jsonIssue('required', [...path, key], at('required'), { property: key }));
+    }
+    for (const [key, node] of properties) {
+      if (present(key)) {
+        node(value[key], [...path, key], issues);
+        evaluated.props.add(key);
+      }
+    }
+    const unmatched: string[] = [];
+    for (const key of keys) {
+      let matched = properties.some(([name]) => name === key);
+      for (const [regex, node] of patternProperties) {
+        if (regex.test(key)) {
+          node(value[key], [...path, key], issues);
+          evaluated.props.add(key);
+          matched = true;
+        }
+      }
+      if (!matched) unmatched.push(key);
+    }
+    if (additionalProperties === false && unmatched.length > 0) {
+      issues.push(jsonIssue('unrecognized_keys', path, at('additionalProperties'), { keys: unmatched }));
+    } else if (additional) {
+      for (const key of unmatched) {
+        additional(value[key], [...path, key], issues);
+      }
+    }
+    if (additionalProperties !== undefined) {
+      unmatched.forEach(key => evaluated.props.add(key));
+    }
+    if (propertyNames) {
+      for (const key of keys) {
+        if (!propertyNames(key, [...path, key], [])) {
+          issues.push(jsonIssue('invalid_property_name', [...path, key], at('propertyNames'), { property: key }));
+        }
+      }
+    }
+    for (const [key, dependencies] of dependentRequired) {
+      if (!present(key)) continue;
+      for (const dependency of dependencies) {
+        if (!present(dependency)) {
+          issues.push(jsonIssue('missing_dependency', [...path, dependency], at(`dependentRequired/${escapePointer(key)}`), {
+            property: dependency,
+            dependent: key
+          }));
+        }
+      }
+    }
+    for (const [key, node] of dependentSchemas) {
+      if (present(key)) merge(evaluated, node(value, path, issues));
+    }
+    if (minProperties !== undefined && keys.length < minProperties) {
+      issues.push(jsonIssue('too_few_properties', path, at('minProperties'), { min: minProperties }));
+    }
+    if (maxProperties !== undefined && keys.length > maxProperties) {
+      issues.push(jsonIssue('too_many_properties', path, at('maxProperties'), { max: maxProperties }));
+    }
+  });
+
+  // In-place applicators
+  const list = (keyword: string) => Array.isArray(schema[keyword])
+    ? (schema[keyword] as unknown[]).map((value, i) => sub(value, `${keyword}/${i}`))
+    : undefined;
+  const allOf = list('allOf');
+  if (allOf) {
+    keywords.push((value, path, issues, evaluated) => {
+      for (const node of allOf) merge(evaluated, node(value, path, issues));
+    });
+  }
+  const anyOf = list('anyOf');
+  if (anyOf) {
+    keywords.push((value, path, issues, evaluated) => {
+      // Every branch runs so that all matching branches contribute evaluated properties
+      const results = anyOf.map(node => node(value, path, []));
+      if (results.every(result => result === null)) {
+        issues.push(jsonIssue('invalid_union', path, at('anyOf')));
+      }
+      results.forEach(result => merge(evaluated, result));
+    });
+  }
+  const oneOf = list('oneOf');
+  if (oneOf) {
+    keywords.push((value, path, issues, evaluated) => {
+      const results = oneOf.map(node => node(value, path, []));
+      const matches = results.flatMap((result, i) => result === null ? [] : [i]);
+      if (matches.length === 0) {
+        issues.push(jsonIssue('invalid_union', path, at('oneOf')));
+      } else if (matches.length > 1) {
+        issues.push(jsonIssue('multiple_matches', path, at('oneOf'), { matches }));
+      } else {
+        merge(evaluated, results[matches[0]!]!);
+      }
+    });
+  }
+  if (has('not')) {
+    const not = sub(schema['not'], 'not');
+    keywords.push((value, path, issues) => {
+      if (not(value, path, [])) issues.push(jsonIssue('not_allowed', path, at('not')));
+    });
+  }
+  if (has('if')) {
+    const condition = sub(schema['if'], 'if');
+    const then = has('then') ? sub(schema['then'], 'then') : undefined;
+    const otherwise = has('else') ? sub(schema['else'], 'else') : undefined;
+    keywords.push((value, path, issues, evaluated) => {
+      const result = condition(value, path, []);
+      merge(evaluated, result);
+      const branch = result ? then : otherwise;
+      if (branch) merge(evaluated, branch(value, path, issues));
+    });
+  }
+
+  // Unevaluated keywords see the annotations of everything above, so they run last
+  if (has('unevaluatedItems')) {
+    const unevaluatedItems = sub(schema['unevaluatedItems'], 'unevaluatedItems');
+    keywords.push((value, path, issues, evaluated) => {
+      if (!Array.isArray(value) || evaluated.allItems) return;
+      value.forEach((item, i) => {
+        if (!evaluated.items.has(i)) unevaluatedItems(item, [...path, i], issues);
+      });
+      evaluated.allItems = true;
+    });
+  }
+  if (has('unevaluatedProperties')) {
+    const unevaluatedProperties = schema['unevaluatedProperties'];
+    const node = sub(unevaluatedProperties, 'unevaluatedProperties');
+    keywords.push((value, path, issues, evaluated) => {
+      if (!isSchemaObject(value)) return;
+      const remaining = Object.keys(value).filter(key => !evaluated.props.has(key));
+      if (unevaluatedProperties === false) {
+        if (remaining.length > 0) {
+          issues.push(jsonIssue('unrecognized_keys', path, at('unevaluatedProperties'), { keys: remaining }));
+        }
+      } else {
+        for (const key of remaining) node(value[key], [...path, key], issues);
+      }
+      remaining.forEach(key => evaluated.props.add(key));
+    });
+  }
+
+  return keywords;
+}
+
+/**
+ * Compiles a JSON Schema (draft 2020-12) into a reusable validator. Supports $ref and
+ * $defs (JSON Pointer, $id and $anchor references), allOf/anyOf/oneOf/not,
+ * if/then/else, unevaluatedProperties/unevaluatedItems and the format keyword for
+ * email, uri, uuid, ipv4, ipv6 and date. $dynamicRef is resolved statically, like $ref.
+ * @param schema - JSON Schema
+ * @param options - Extra format checks and other schemas that $ref may point to
+ * @returns Validator returning the value or issues with JSON Pointer paths
+ * @throws Error if a $ref cannot be resolved or a pattern is not a valid regular expression
+ * @example
+ * const validate = compileJsonSchema({
+ *   type: 'object',
+ *   properties: { email: { type: 'string', format: 'email' }, tags: { type: 'array', items: { $ref: '#/$defs/tag' } } },
+ *   required: ['email'],
+ *   $defs: { tag: { type: 'string', maxLength: 10 } }
+ * });
+ * validate({ email: 'nope', tags: ['ok', 'much too long'] }).issues.map(issue => issue.instancePath)
+ * // ['/email', '/tags/1']
+ */
+export function compileJsonSchema<T = unknown>(schema: JsonSchema, options: JsonSchemaOptions = {}): JsonSchemaValidator<T> {
+  const { formats = {}, schemas = [] } = options;
+  const registry: Registry = {
+    rootBase: DEFAULT_BASE,
+    resources: new Map(),
+    anchors: new Map(),
+    locations: new Map(),
+    nodes: new Map(),
+    formats: { ...JSON_SCHEMA_FORMATS, ...formats }
+  };
+
+  if (isSchemaObject(schema)) {
+    const id = schema['$id'];
+    registry.rootBase = typeof id === 'string' ? withoutFragment(new URL(id, DEFAULT_BASE).href) : DEFAULT_BASE;
+    registry.resources.set(registry.rootBase, schema);
+    indexSchema(schema, registry.rootBase, '', registry);
+  }
+  for (const extra of schemas) {
+    if (!isSchemaObject(extra) || typeof extra['$id'] !== 'string') {
+      throw new Error('Additional schemas must be objects with an $id');
+    }
+    indexSchema(extra, registry.rootBase, '', registry);
+  }
+
+  const root = compileSchema(schema, '#', registry.rootBase, registry);
+  return data => {
+    const issues: JsonSchemaIssue[] = [];
+    return root(data, [], issues) ? { ok: true, value: data as T, issues: [] } : { ok: false, issues };
+  };
+}
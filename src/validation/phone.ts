@@ -0,0 +1,540 @@
+/**
+ * International phone numbers: parsing into E.164 parts with embedded per-country
+ * length and prefix metadata, and formatting in the usual styles
+ */
+
+/**
+ * Kind of line a number belongs to, as far as its prefix tells
+ */
+export type PhoneNumberType = 'mobile' | 'fixed-line' | 'fixed-line-or-mobile' | 'toll-free' | 'premium-rate' | 'unknown';
+
+/**
+ * Output style: '+442079460958', '+44 20 7946 0958', '020 7946 0958' or 'tel:+44-20-7946-0958'
+ */
+export type PhoneNumberStyle = 'e164' | 'international' | 'national' | 'rfc3966';
+
+/**
+ * A parsed phone number
+ */
+export interface PhoneNumber {
+  /** ISO 3166-1 alpha-2 country, e.g. 'GB' */
+  country: string;
+  /** Country calling code without '+', e.g. '44' */
+  countryCallingCode: string;
+  /** National significant number: the digits after the calling code, without a trunk prefix */
+  nationalNumber: string;
+  extension?: string;
+  type: PhoneNumberType;
+  /** Whether the number matches the country's length and prefix rules */
+  valid: boolean;
+}
+
+interface PhoneCountry {
+  callingCode: string;
+  /** Digit dialled before national numbers inside the country, e.g. '0' */
+  trunkPrefix?: string;
+  /** Leading digits that pick this country among countries sharing a calling code */
+  leadingDigits?: string;
+  /** Full-match patterns for the national number, checked in this order */
+  tollFree?: string;
+  premiumRate?: string;
+  mobile?: string;
+  fixedLine?: string;
+  fixedLineOrMobile?: string;
+  /** [leading digits, group sizes]; the first match wins and the last group takes the remaining digits */
+  formats: [string, number[]][];
+}
+
+const NANP_AREA = '[2-9]\\d{2}[2-9]\\d{6}';
+const NANP = {
+  callingCode: '1',
+  trunkPrefix: '1',
+  tollFree: '8(?:00|33|44|55|66|77|88)[2-9]\\d{6}',
+  premiumRate: '900[2-9]\\d{6}',
+  fixedLineOrMobile: NANP_AREA,
+  formats: [['', [3, 3, 4]]] as [string, number[]][]
+};
+
+/**
+ * Simplified numbering-plan metadata. Countries sharing a calling code list the main
+ * country first.
+ */
+const PHONE_COUNTRIES: Record<string, PhoneCountry> = {
+  US: NANP,
+  CA: {
+    ...NANP,
+    leadingDigits: '204|226|236|249|250|263|289|306|343|354|365|367|368|382|387|403|416|418|428|431|437|438|450|468|474|' +
+      '506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905'
+  },
+  PR: { ...NANP, leadingDigits: '787|939' },
+  DO: { ...NANP, leadingDigits: '809|829|849' },
+  JM: { ...NANP, leadingDigits: '658|876' },
+  // The remaining NANP members, so that US numbers are only those no other country claims
+  AG: { ...NANP, leadingDigits: '268' }, AI: { ...NANP, leadingDigits: '264' }, AS: { ...NANP, leadingDigits: '684' },
+  BB: { ...NANP, leadingDigits: '246' }, BM: { ...NANP, leadingDigits: '441' }, BS: { ...NANP, leadingDigits: '242' },
+  DM: { ...NANP, leadingDigits: '767' }, GD: { ...NANP, leadingDigits: '473' }, GU: { ...NANP, leadingDigits: '671' },
+  KN: { ...NANP, leadingDigits: '869' }, KY: { ...NANP, leadingDigits: '345' }, LC: { ...NANP, leadingDigits: '758' },
+  MP: { ...NANP, leadingDigits: '670' }, MS: { ...NANP, leadingDigits: '664' }, SX: { ...NANP, leadingDigits: '721' },
+  TC: { ...NANP, leadingDigits: '649' }, TT: { ...NANP, leadingDigits: '868' }, VC: { ...NANP, leadingDigits: '784' },
+  VG: { ...NANP, leadingDigits: '284' }, VI: { ...NANP, leadingDigits: '340' },
+  GB: {
+    callingCode: '44', trunkPrefix: '0',
+    tollFree: '80[08]\\d{6,7}', premiumRate: '9[018]\\d{8}', mobile: '7[1-57-9]\\d{8}', fixedLine: '[1-3]\\d{8,9}',
+    formats: [['2', [2, 4, 4]], ['1[1-9]1|11|[389]', [3, 3, 4]], ['', [4, 6]]]
+  },
+  IE: {
+    callingCode: '353', trunkPrefix: '0',
+    tollFree: '1800\\d{6}', premiumRate: '15[12]\\d{6}', mobile: '8[35-9]\\d{7}', fixedLine: '[124-9]\\d{6,8}',
+    formats: [['1800|15', [4, 3, 3]], ['8', [2, 3, 4]], ['1', [1, 3, 4]], ['', [2, 3, 4]]]
+  },
+  DE: {
+    callingCode: '49', trunkPrefix: '0',
+    tollFree: '800\\d{7,12}', premiumRate: '900\\d{7}', mobile: '1(?:5\\d{9}|[67]\\d{8,9})', fixedLine: '[2-9]\\d{5,10}',
+    formats: [['30|40|69|89', [2, 8]], ['', [3, 8]]]
+  },
+  FR: {
+    callingCode: '33', trunkPrefix: '0',
+    tollFree: '80\\d{7}', premiumRate: '8[1-9]\\d{7}', mobile: '[67]\\d{8}', fixedLine: '[1-59]\\d{8}',
+    formats: [['', [1, 2, 2, 2, 2]]]
+  },
+  IT: {
+    callingCode: '39',
+    tollFree: '80[03]\\d{3,6}', premiumRate: '89\\d{4,7}', mobile: '3\\d{8,9}', fixedLine: '0\\d{5,10}',
+    formats: [['3', [3, 3, 4]], ['0[26]', [2, 4, 4]], ['', [3, 7]]]
+  },
+  VA: {
+    callingCode: '39', leadingDigits: '06698',
+    fixedLine: '06698\\d{5}',
+    formats: [['', [2, 4, 4]]]
+  },
+  ES: {
+    callingCode: '34',
+    tollFree: '[89]00\\d{6}', premiumRate: '80[3-7]\\d{6}|90[3-7]\\d{6}', mobile: '[67]\\d{8}', fixedLine: '[89][1-8]\\d{7}',
+    formats: [['', [3, 3, 3]]]
+  },
+  PT: {
+    callingCode: '351',
+    tollFree: '800\\d{6}', premiumRate: '60[78]\\d{6}', mobile: '9[1236]\\d{7}', fixedLine: '2\\d{8}',
+    formats: [['', [3, 3, 3]]]
+  },
+  NL: {
+    callingCode: '31', trunkPrefix: '0',
+    tollFree: '800\\d{4,7}', premiumRate: '90[069]\\d{4,7}', mobile: '6[1-58]\\d{7}', fixedLine: '(?:[1-57]\\d|8[5-8])\\d{7}',
+    formats: [
+      ['800|90', [3, 7]],
+      ['6', [1, 8]],
+      ['1[035]|2[0346]|3[03568]|4[0356]|5[0358]|7\\d', [2, 7]],
+      ['', [3, 6]]
+    ]
+  },
+  BE: {
+    callingCode: '32', trunkPrefix: '0',
+    tollFree: '800\\d{5}', premiumRate: '90\\d{6}', mobile: '4[5-9]\\d{7}', fixedLine: '[1-9]\\d{7}',
+    formats: [['4[5-9]', [3, 2, 2, 2]], ['[2349]', [1, 3, 2, 2]], ['', [2, 2, 2, 2]]]
+  },
+  CH: {
+    callingCode: '41', trunkPrefix: '0',
+    tollFree: '800\\d{6}', premiumRate: '90[016]\\d{6}', mobile: '7[5-9]\\d{7}', fixedLine: '[2-6]\\d{8}|81\\d{7}',
+    formats: [['', [2, 3, 2, 2]]]
+  },
+  AT: {
+    callingCode: '43', trunkPrefix: '0',
+    tollFree: '800\\d{6,10}', premiumRate: '9[0-3]\\d{6,10}', mobile: '6[5-9]\\d{5,11}', fixedLine: '[1-57]\\d{3,12}',
+    formats: [['1', [1, 12]], ['[5-9]', [3, 10]], ['', [4, 9]]]
+  },
+  DK: {
+    callingCode: '45',
+    tollFree: '80\\d{6}', premiumRate: '90\\d{6}', fixedLineOrMobile: '[2-9]\\d{7}',
+    formats: [['', [2, 2, 2, 2]]]
+  },
+  SE: {
+    callingCode: '46', trunkPrefix: '0',
+    tollFree: '20\\d{4,7}', premiumRate: '9(?:00|39|44)\\d{4,6}', mobile: '7[02369]\\d{7}', fixedLine: '[1-68]\\d{6,8}',
+    formats: [['7', [2, 3, 2, 2]], ['8', [1, 3, 2, 2]], ['', [2, 3, 4]]]
+  },
+  NO: {
+    callingCode: '47',
+    tollFree: '80[01]\\d{5}', premiumRate: '82\\d{6}', mobile: '[49]\\d{7}', fixedLine: '[235-7]\\d{7}',
+    formats: [['[49]', [3, 2, 3]], ['', [2, 2, 2, 2]]]
+  },
+  FI: {
+    callingCode: '358', trunkPrefix: '0',
+    tollFree: '800\\d{4,6}', premiumRate: '600\\d{4,6}', mobile: '4\\d{6,10}|50\\d{4,8}', fixedLine: '[1-35689]\\d{4,10}',
+    formats: [['4|50', [2, 3, 5]], ['', [2, 9]]]
+  },
+  PL: {
+    callingCode: '48',
+    tollFree: '800\\d{6}', premiumRate: '70\\d{7}', mobile: '(?:45|5[0137]|6[069]|7[2389]|88)\\d{7}', fixedLine: '[1-9]\\d{8}',
+    formats: [['', [3, 3, 3]]]
+  },
+  CZ: {
+    callingCode: '420',
+    tollFree: '800\\d{6}', premiumRate: '90[0689]\\d{6}', mobile: '(?:60[1-8]|7(?:0[2-5]|[2379]\\d))\\d{6}', fixedLine: '[2-5]\\d{8}',
+    formats: [['', [3, 3, 3]]]
+  },
+  SK: {
+    callingCode: '421', trunkPrefix: '0',
+    tollFree: '800\\d{6}', premiumRate: '9(?:00|[78]\\d)\\d{6}', mobile: '9\\d{8}', fixedLine: '[2-5]\\d{7,8}',
+    formats: [['2', [1, 3, 3, 2]], ['', [3, 3, 3]]]
+  },
+  HU: {
+    callingCode: '36', trunkPrefix: '06',
+    tollFree: '80\\d{6}', premiumRate: '9[01]\\d{6}', mobile: '(?:[257]0|3[01])\\d{7}', fixedLine: '[1-9]\\d{7}',
+    formats: [['1', [1, 3, 4]], ['', [2, 3, 4]]]
+  },
+  RO: {
+    callingCode: '40', trunkPrefix: '0',
+    tollFree: '800\\d{6}', premiumRate: '90\\d{7}', mobile: '7[0-8]\\d{7}', fixedLine: '[23]\\d{8}',
+    formats: [['21|31', [2, 3, 4]], ['', [3, 3, 3]]]
+  },
+  GR: {
+    callingCode: '30',
+    tollFree: '800\\d{7}', premiumRate: '90\\d{8}', mobile: '69\\d{8}', fixedLine: '2\\d{9}',
+    formats: [['', [3, 3, 4]]]
+  },
+  TR: {
+    callingCode: '90', trunkPrefix: '0',
+    tollFree: '800\\d{7}', premiumRate: '900\\d{7}', mobile: '5\\d{9}', fixedLine: '[2-4]\\d{9}',
+    formats: [['', [3, 3, 2, 2]]]
+  },
+  RU: {
+    callingCode: '7', trunkPrefix: '8',
+    tollFree: '800\\d{7}', premiumRate: '80[39]\\d{7}', mobile: '9\\d{9}', fixedLine: '[348]\\d{9}',
+    formats: [['', [3, 3, 2, 2]]]
+  },
+  KZ: {
+    callingCode: '7', trunkPrefix: '8', leadingDigits: '[67]',
+    fixedLineOrMobile: '[67]\\d{9}',
+    formats: [['', [3, 3, 2, 2]]]
+  },
+  UA: {
+    callingCode: '380', trunkPrefix: '0',
+    tollFree: '800\\d{6}', premiumRate: '900\\d{6}', mobile: '(?:39|50|6[36-8]|73|9[1-9])\\d{7}', fixedLine: '[3-6]\\d{8}',
+    formats: [['', [2, 3, 2, 2]]]
+  },
+  IL: {
+    callingCode: '972', trunkPrefix: '0',
+    tollFree: '1800\\d{6}', premiumRate: '1900\\d{6}', mobile: '5\\d{8}', fixedLine: '[2-489]\\d{7}',
+    formats: [['1[89]00', [4, 3, 3]], ['5', [2, 3, 4]], ['', [1, 3, 4]]]
+  },
+  AE: {
+    callingCode: '971', trunkPrefix: '0',
+    tollFree: '800\\d{2,9}', premiumRate: '900\\d{6}', mobile: '5[024-68]\\d{7}', fixedLine: '[2-79]\\d{7}',
+    formats: [['[89]00', [3, 9]], ['5', [2, 3, 4]], ['', [1, 3, 4]]]
+  },
+  SA: {
+    callingCode: '966', trunkPrefix: '0',
+    tollFree: '800\\d{7}', mobile: '5\\d{8}', fixedLine: '1\\d{8}',
+    formats: [['800', [3, 3, 4]], ['', [2, 3, 4]]]
+  },
+  EG: {
+    callingCode: '20', trunkPrefix: '0',
+    tollFree: '800\\d{7}', premiumRate: '900\\d{7}', mobile: '1[0-25]\\d{8}', fixedLine: '[2-9]\\d{7,8}',
+    formats: [['1|[89]00', [3, 3, 4]], ['[23]', [1, 4, 4]], ['', [2, 3, 4]]]
+  },
+  ZA: {
+    callingCode: '27', trunkPrefix: '0',
+    tollFree: '80\\d{7}', premiumRate: '86\\d{7}', mobile: '(?:6\\d|7[0-46-9]|8[1-4])\\d{7}', fixedLine: '[1-5]\\d{8}',
+    formats: [['', [2, 3, 4]]]
+  },
+  NG: {
+    callingCode: '234', trunkPrefix: '0',
+    tollFree: '800\\d{7,11}', mobile: '[7-9][01]\\d{8}', fixedLine: '[1-69]\\d{6,7}',
+    formats: [['[7-9][01]', [3, 3, 4]], ['', [1, 3, 4]]]
+  },
+  KE: {
+    callingCode: '254', trunkPrefix: '0',
+    tollFree: '800\\d{6}', mobile: '(?:1[01]|7\\d)\\d{7}', fixedLine: '[2-6]\\d{7,8}',
+    formats: [['', [3, 6]]]
+  },
+  IN: {
+    callingCode: '91', trunkPrefix: '0',
+    tollFree: '1800\\d{6,7}', mobile: '[6-9]\\d{9}', fixedLine: '[1-5]\\d{9}',
+    formats: [['1800', [4, 3, 4]], ['[6-9]', [5, 5]], ['', [3, 3, 4]]]
+  },
+  PK: {
+    callingCode: '92', trunkPrefix: '0',
+    tollFree: '800\\d{5}', mobile: '3\\d{9}', fixedLine: '[2-9]\\d{7,9}',
+    formats: [['3', [3, 7]], ['', [2, 8]]]
+  },
+  BD: {
+    callingCode: '880', trunkPrefix: '0',
+    mobile: '1[3-9]\\d{8}', fixedLine: '[2-9]\\d{6,9}',
+    formats: [['1', [4, 6]], ['', [1, 9]]]
+  },
+  CN: {
+    callingCode: '86', trunkPrefix: '0',
+    tollFree: '800\\d{7}', mobile: '1[3-9]\\d{9}', fixedLine: '(?:10|2\\d|[3-9]\\d{2})\\d{7,8}',
+    formats: [['1[3-9]', [3, 4, 4]], ['10|2', [2, 4, 4]], ['', [3, 4, 4]]]
+  },
+  HK: {
+    callingCode: '852',
+    tollFree: '800\\d{6}', mobile: '[4-79]\\d{7}', fixedLine: '[23]\\d{7}',
+    formats: [['800', [3, 3, 3]], ['', [4, 4]]]
+  },
+  TW: {
+    callingCode: '886', trunkPrefix: '0',
+    tollFree: '80\\d{7}', mobile: '9\\d{8}', fixedLine: '[2-8]\\d{7,8}',
+    formats: [['9|80', [3, 3, 3]], ['', [1, 4, 4]]]
+  },
+  JP: {
+    callingCode: '81', trunkPrefix: '0',
+    tollFree: '120\\d{6}|800\\d{7}', premiumRate: '990\\d{6}', mobile: '[7-9]0\\d{8}', fixedLine: '[1-9]\\d{8}',
+    formats: [['[7-9]0', [2, 4, 4]], ['120|990', [3, 3, 3]], ['[36]', [1, 4, 4]], ['', [2, 3, 4]]]
+  },
+  KR: {
+    callingCode: '82', trunkPrefix: '0',
+    tollFree: '80\\d{7}', premiumRate: '60\\d{7}', mobile: '1[016-9]\\d{7,8}', fixedLine: '(?:2|[3-6][1-5])\\d{6,8}',
+    formats: [['1', [2, 4, 4]], ['2', [1, 4, 4]], ['', [2, 3, 4]]]
+  },
+  SG: {
+    callingCode: '65',
+    tollFree: '1800\\d{7}', mobile: '[89]\\d{7}', fixedLine: '6\\d{7}',
+    formats: [['1800', [4, 3, 4]], ['', [4, 4]]]
+  },
+  MY: {
+    callingCode: '60', trunkPrefix: '0',
+    tollFree: '1800\\d{6}', mobile: '1[0-46-9]\\d{7,8}', fixedLine: '[3-9]\\d{7,8}',
+    formats: [['1800', [4, 2, 4]], ['1', [2, 3, 4]], ['3', [1, 4, 4]], ['', [1, 3, 4]]]
+  },
+  TH: {
+    callingCode: '66', trunkPrefix: '0',
+    tollFree: '1800\\d{6}', mobile: '[689]\\d{8}', fixedLine: '[2-57]\\d{7}',
+    formats: [['1800', [4, 3, 3]], ['[689]', [2, 3, 4]], ['2', [1, 3, 4]], ['', [2, 3, 3]]]
+  },
+  VN: {
+    callingCode: '84', trunkPrefix: '0',
+    tollFree: '1800\\d{4,6}', mobile: '(?:3[2-9]|5[2689]|7[06-9]|8[1-9]|9\\d)\\d{7}', fixedLine: '2\\d{9}',
+    formats: [['1800', [4, 6]], ['2', [3, 3, 4]], ['', [2, 3, 4]]]
+  },
+  PH: {
+    callingCode: '63', trunkPrefix: '0',
+    tollFree: '1800\\d{7}', mobile: '9\\d{9}', fixedLine: '[2-8]\\d{7,8}',
+    formats: [['1800', [4, 3, 4]], ['9', [3, 3, 4]], ['2', [1, 4, 4]], ['', [2, 3, 4]]]
+  },
+  ID: {
+    callingCode: '62', trunkPrefix: '0',
+    tollFree: '800\\d{6,7}', mobile: '8\\d{8,11}', fixedLine: '[2-7]\\d{6,10}',
+    formats: [['8', [3, 4, 5]], ['2[14]', [2, 9]], ['', [3, 8]]]
+  },
+  AU: {
+    callingCode: '61', trunkPrefix: '0',
+    tollFree: '180(?:0\\d{6}|2\\d{3})', premiumRate: '190\\d{7}', mobile: '4\\d{8}', fixedLine: '[2378]\\d{8}',
+    formats: [['1[389]0', [4, 3, 3]], ['4', [3, 3, 3]], ['', [1, 4, 4]]]
+  },
+  NZ: {
+    callingCode: '64', trunkPrefix: '0',
+    tollFree: '80[08]\\d{6,7}', premiumRate: '900\\d{5}', mobile: '2\\d{7,9}', fixedLine: '[3-79]\\d{7}',
+    formats: [['8|9', [3, 3, 4]], ['2', [2, 3, 5]], ['', [1, 3, 4]]]
+  },
+  BR: {
+    callingCode: '55', trunkPrefix: '0',
+    tollFree: '800\\d{6,7}', premiumRate: '900\\d{6,7}', mobile: '[1-9]{2}9\\d{8}', fixedLine: '[1-9]{2}[2-5]\\d{7}',
+    formats: [['[89]00', [3, 3, 4]], ['\\d{2}9', [2, 5, 4]], ['', [2, 4, 4]]]
+  },
+  MX: {
+    callingCode: '52',
+    tollFree: '800\\d{7}', premiumRate: '900\\d{7}', fixedLineOrMobile: '[1-9]\\d{9}',
+    formats: [['33|55|81', [2, 4, 4]], ['', [3, 3, 4]]]
+  },
+  AR: {
+    callingCode: '54', trunkPrefix: '0',
+    tollFree: '800\\d{7}', premiumRate: '6\\d{9}', mobile: '9\\d{10}', fixedLine: '[1-8]\\d{9}',
+    formats: [['911', [1, 2, 4, 4]], ['9', [1, 3, 3, 4]], ['11', [2, 4, 4]], ['', [3, 3, 4]]]
+  },
+  CL: {
+    callingCode: '56',
+    tollFree: '800\\d{6}', mobile: '9\\d{8}', fixedLine: '[2-8]\\d{8}',
+    formats: [['[29]', [1, 4, 4]], ['', [2, 3, 4]]]
+  },
+  CO: {
+    callingCode: '57',
+    tollFree: '1800\\d{7}', mobile: '3\\d{9}', fixedLine: '60\\d{8}',
+    formats: [['1800', [4, 3, 4]], ['', [3, 3, 4]]]
+  },
+  PE: {
+    callingCode: '51', trunkPrefix: '0',
+    tollFree: '800\\d{5}', mobile: '9\\d{8}', fixedLine: '[1-8]\\d{6,7}',
+    formats: [['9', [3, 3, 3]], ['1', [1, 3, 4]], ['', [2, 3, 3]]]
+  },
+  VE: {
+    callingCode: '58', trunkPrefix: '0',
+    tollFree: '800\\d{7}', mobile: '4(?:1[24-8]|2[46])\\d{7}', fixedLine: '[2-9]\\d{9}',
+    formats: [['', [3, 7]]]
+  }
+};
+
+/**
+ * Countries with phone metadata, as ISO 3166-1 alpha-2 codes
+ */
+export const SUPPORTED_PHONE_COUNTRIES: readonly string[] = Object.keys(PHONE_COUNTRIES);
+
+const TYPE_PATTERNS: [keyof PhoneCountry, PhoneNumberType][] = [
+  ['tollFree', 'toll-free'],
+  ['premiumRate', 'premium-rate'],
+  ['mobile', 'mobile'],
+  ['fixedLine', 'fixed-line'],
+  ['fixedLineOrMobile', 'fixed-line-or-mobile']
+];
+
+const COUNTRIES_BY_CALLING_CODE = new Map<string, string[]>();
+for (const [country, { callingCode }] of Object.entries(PHONE_COUNTRIES)) {
+  COUNTRIES_BY_CALLING_CODE.set(callingCode, [...(COUNTRIES_BY_CALLING_CODE.get(callingCode) ?? []), country]);
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function matches(pattern: string, value: string, anchored: 'full' | 'start'): boolean {
+  const key = `${anchored}:${pattern}`;
+  let regex = regexCache.get(key);
+  if (!regex) {
+    regex = new RegExp(anchored === 'full' ? `^(?:${pattern})$` : `^(?:${pattern})`);
+    regexCache.set(key, regex);
+  }
+  return regex.test(value);
+}
+
+function numberType(metadata: PhoneCountry, nationalNumber: string): PhoneNumberType {
+  for (const [key, type] of TYPE_PATTERNS) {
+    const pattern = metadata[key] as string | undefined;
+    if (pattern !== undefined && matches(pattern, nationalNumber, 'full')) return type;
+  }
+  return 'unknown';
+}
+
+function countryForNumber(callingCode: string, nationalNumber: string): string {
+  const candidates = COUNTRIES_BY_CALLING_CODE.get(callingCode)!;
+  const specific = candidates.find(country => {
+    const { leadingDigits } = PHONE_COUNTRIES[country]!;
+    return leadingDigits !== undefined && matches(leadingDigits, nationalNumber, 'start');
+  });
+  return specific ?? candidates[0]!;
+}
+
+function metadataFor(country: string): PhoneCountry {
+  const metadata = PHONE_COUNTRIES[country.toUpperCase()];
+  if (!metadata) {
+    throw new Error(`Unsupported phone number country: ${country}`);
+  }
+  return metadata;
+}
+
+/**
+ * Parses a phone number in international form ('+44 20 7946 0958', '0044…', 'tel:+44…')
+ * or national form with a default country ('020 7946 0958'). Spaces, dots, dashes,
+ * slashes, parentheses, a '(0)' trunk hint and extensions ('x123', 'ext. 123') are accepted.
+ * @param input - Phone number as typed
+ * @param defaultCountry - ISO 3166-1 alpha-2 country for numbers without a calling code
+ * @returns Parsed number (check `valid`), or null if it cannot be read as a phone number
+ * @throws Error if defaultCountry has no metadata
+ * @example
+ * parsePhoneNumber('020 7946 0958', 'GB')
+ * // { country: 'GB', countryCallingCode: '44', nationalNumber: '2079460958', type: 'fixed-line', valid: true }
+ * parsePhoneNumber('+1 (416) 555-0123').country // 'CA'
+ */
+export function parsePhoneNumber(input: string, defaultCountry?: string): PhoneNumber | null {
+  const fallback = defaultCountry === undefined ? undefined : metadataFor(defaultCountry);
+  if (typeof input !== 'string') return null;
+
+  let text = input.trim().replace(/^tel:/i, '');
+  let extension: string | undefined;
+  const extensionMatch = /(?:;ext=|\s*(?:ext\.?|extension|x|#)\s*)(\d{1,7})$/i.exec(text);
+  if (extensionMatch) {
+    extension = extensionMatch[1];
+    text = text.slice(0, extensionMatch.index);
+  }
+  text = text.replace(/\(0\)/, '');
+  if (!/^\+?[\d\s().\-/]+$/.test(text)) return null;
+
+  let digits = text.replace(/\D/g, '');
+  let international = text.startsWith('+');
+  if (!international && digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  } else if (!international && fallback?.callingCode === '1' && digits.startsWith('011')) {
+    digits = digits.slice(3);
+    international = true;
+  }
+
+  let callingCode: string;
+  let nationalNumber: string;
+  if (international) {
+    const length = [1, 2, 3].find(n => COUNTRIES_BY_CALLING_CODE.has(digits.slice(0, n)));
+    if (length === undefined) return null;
+    callingCode = digits.slice(0, length);
+    nationalNumber = digits.slice(length);
+  } else {
+    if (!fallback) return null;
+    callingCode = fallback.callingCode;
+    nationalNumber = digits;
+    const { trunkPrefix } = fallback;
+    if (trunkPrefix !== undefined && digits.startsWith(trunkPrefix)) {
+      // Keep the digits as typed if dropping the trunk prefix would make a valid number invalid
+      const stripped = digits.slice(trunkPrefix.length);
+      if (numberType(fallback, stripped) !== 'unknown' || numberType(fallback, digits) === 'unknown') {
+        nationalNumber = stripped;
+      }
+    }
+  }
+  if (nationalNumber.length < 2 || nationalNumber.length > 14) return null;
+
+  const country = countryForNumber(callingCode, nationalNumber);
+  const type = numberType(PHONE_COUNTRIES[country]!, nationalNumber);
+  return {
+    country,
+    countryCallingCode: callingCode,
+    nationalNumber,
+    ...(extension === undefined ? {} : { extension }),
+    type,
+    valid: type !== 'unknown'
+  };
+}
+
+function groupDigits(nationalNumber: string, metadata: PhoneCountry): string[] {
+  const [, sizes] = metadata.formats.find(([leading]) => matches(leading, nationalNumber, 'start'))!;
+  const groups: string[] = [];
+  let offset = 0;
+  sizes.forEach((size, i) => {
+    if (offset >= nationalNumber.length) return;
+    const end = i === sizes.length - 1 ? nationalNumber.length : offset + size;
+    groups.push(nationalNumber.slice(offset, end));
+    offset = end;
+  });
+  return groups;
+}
+
+function trunkPrefix({ trunkPrefix }: PhoneCountry): string {
+  if (trunkPrefix === undefined) return '';
+  // '0' joins the first group ('020'); other prefixes stand apart ('8 912', '06 1')
+  return trunkPrefix === '0' ? trunkPrefix : `${trunkPrefix} `;
+}
+
+/**
+ * Formats a parsed phone number
+ * @param phone - Parsed number
+ * @param style - 'e164', 'international', 'national' or 'rfc3966'
+ * @returns Formatted number
+ */
+export function formatParsedPhoneNumber(phone: PhoneNumber, style: PhoneNumberStyle): string {
+  const metadata = metadataFor(phone.country);
+  const groups = groupDigits(phone.nationalNumber, metadata);
+  const nanp = phone.countryCallingCode === '1' && groups.length === 3;
+  const extension = phone.extension;
+
+  switch (style) {
+    case 'e164':
+      return `+${phone.countryCallingCode}${phone.nationalNumber}`;
+    case 'international':
+      return `+${phone.countryCallingCode} ${groups.join(nanp ? '-' : ' ')}${extension ? ` ext. ${extension}` : ''}`;
+    case 'national': {
+      const national = nanp
+        ? `(${groups[0]}) ${groups[1]}-${groups[2]}`
+        : `${trunkPrefix(metadata)}${groups.join(' ')}`;
+      return `${national}${extension ? ` ext. ${extension}` : ''}`;
+    }
+    case 'rfc3966':
+      return `tel:+${phone.countryCallingCode}-${groups.join('-')}${extension ? `;ext=${extension}` : ''}`;
+    default:
+      throw new Error(`Unknown phone number style: ${String(style)}`);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Postal codes for the most common national systems, keyed by ISO 3166-1 alpha-2 country
+ */
+
+interface PostalSystem {
+  /** Full-match pattern for the compact form: uppercase, without spaces or dashes */
+  pattern: string;
+  /** Where the separator goes in the canonical form; negative counts from the end */
+  split?: number;
+  separator?: ' ' | '-';
+  /** Country prefix that is written before the code, e.g. 'LV-1050' */
+  prefix?: string;
+}
+
+const DIGITS = (count: number): PostalSystem => ({ pattern: `\\d{${count}}` });
+
+const POSTAL_SYSTEMS: Record<string, PostalSystem> = {
+  US: { pattern: '\\d{5}(?:\\d{4})?', split: 5, separator: '-' },
+  CA: { pattern: '[ABCEGHJ-NPRSTVXY]\\d[ABCEGHJ-NPRSTV-Z]\\d[ABCEGHJ-NPRSTV-Z]\\d', split: 3, separator: ' ' },
+  PR: { pattern: '00[679]\\d{2}(?:\\d{4})?', split: 5, separator: '-' },
+  MX: DIGITS(5),
+  BR: { pattern: '\\d{8}', split: 5, separator: '-' },
+  AR: { pattern: '[A-HJ-NP-Z]\\d{4}[A-Z]{3}|\\d{4}' },
+  CL: DIGITS(7),
+  CO: DIGITS(6),
+  PE: DIGITS(5),
+  UY: DIGITS(5),
+  EC: DIGITS(6),
+  GB: {
+    pattern: '(?:[A-PR-UWYZ][A-HK-Y]?\\d[A-Z\\d]?|GIR)\\d[ABD-HJLNP-UW-Z]{2}',
+    split: -3,
+    separator: ' '
+  },
+  GG: { pattern: 'GY\\d[\\dA-Z]?\\d[ABD-HJLNP-UW-Z]{2}', split: -3, separator: ' ' },
+  JE: { pattern: 'JE\\d\\d[ABD-HJLNP-UW-Z]{2}', split: -3, separator: ' ' },
+  IM: { pattern: 'IM\\d[\\dA-Z]?\\d[ABD-HJLNP-UW-Z]{2}', split: -3, separator: ' ' },
+  IE: { pattern: '(?:[AC-FHKNPRTV-Y]\\d{2}|D6W)[\\dAC-FHKNPRTV-Y]{4}', split: 3, separator: ' ' },
+  DE: DIGITS(5),
+  FR: DIGITS(5),
+  IT: DIGITS(5),
+  ES: { pattern: '(?:0[1-9]|[1-4]\\d|5[0-2])\\d{3}' },
+  PT: { pattern: '\\d{7}', split: 4, separator: '-' },
+  NL: { pattern: '[1-9]\\d{3}(?!SA|SD|SS)[A-Z]{2}', split: 4, separator: ' ' },
+  BE: { pattern: '[1-9]\\d{3}' },
+  LU: DIGITS(4),
+  CH: { pattern: '[1-9]\\d{3}' },
+  LI: { pattern: '94[89]\\d' },
+  AT: { pattern: '[1-9]\\d{3}' },
+  DK: { pattern: '[1-9]\\d{3}' },
+  SE: { pattern: '[1-9]\\d{4}', split: 3, separator: ' ' },
+  NO: DIGITS(4),
+  FI: DIGITS(5),
+  IS: DIGITS(3),
+  PL: { pattern: '\\d{5}', split: 2, separator: '-' },
+  CZ: { pattern: '[1-7]\\d{4}', split: 3, separator: ' ' },
+  SK: { pattern: '[089]\\d{4}', split: 3, separator: ' ' },
+  HU: { pattern: '[1-9]\\d{3}' },
+  RO: DIGITS(6),
+  BG: DIGITS(4),
+  GR: { pattern: '\\d{5}', split: 3, separator: ' ' },
+  HR: { pattern: '[1-5]\\d{4}' },
+  SI: DIGITS(4),
+  RS: DIGITS(5),
+  EE: DIGITS(5),
+  LV: { pattern: '\\d{4}', prefix: 'LV-' },
+  LT: { pattern: '\\d{5}', prefix: 'LT-' },
+  MT: { pattern: '[A-Z]{3}\\d{4}', split: 3, separator: ' ' },
+  CY: DIGITS(4),
+  TR: { pattern: '(?:0[1-9]|[1-7]\\d|8[01])\\d{3}' },
+  RU: { pattern: '[1-6]\\d{5}' },
+  UA: DIGITS(5),
+  BY: { pattern: '2[1-4]\\d{4}' },
+  KZ: DIGITS(6),
+  IL: DIGITS(7),
+  SA: { pattern: '\\d{5}(?:\\d{4})?', split: 5, separator: '-' },
+  EG: DIGITS(5),
+  MA: DIGITS(5),
+  ZA: DIGITS(4),
+  NG: DIGITS(6),
+  KE: DIGITS(5),
+  IN: { pattern: '[1-9]\\d{5}' },
+  PK: DIGITS(5),
+  BD: DIGITS(4),
+  CN: DIGITS(6),
+  TW: { pattern: '\\d{3}(?:\\d{2,3})?' },
+  JP: { pattern: '\\d{7}', split: 3, separator: '-' },
+  KR: DIGITS(5),
+  SG: DIGITS(6),
+  MY: DIGITS(5),
+  TH: { pattern: '[1-9]\\d{4}' },
+  VN: DIGITS(6),
+  PH: DIGITS(4),
+  ID: { pattern: '[1-9]\\d{4}' },
+  AU: DIGITS(4),
+  NZ: DIGITS(4)
+};
+
+/**
+ * Countries with postal code rules, as ISO 3166-1 alpha-2 codes
+ */
+export const SUPPORTED_POSTAL_COUNTRIES: readonly string[] = Object.keys(POSTAL_SYSTEMS);
+
+const patternCache = new Map<string, RegExp>();
+
+function systemFor(country: string): PostalSystem {
+  const system = POSTAL_SYSTEMS[country.toUpperCase()];
+  if (!system) {
+    throw new Error(`Unsupported postal code country: ${country}`);
+  }
+  return system;
+}
+
+/**
+ * Normalizes a postal code to the form the country's postal service prints, ignoring
+ * case, spaces and dashes in the input
+ * @param postalCode - Postal code as typed
+ * @param country - ISO 3166-1 alpha-2 country (default: 'US')
+ * @returns Canonical postal code, or null if it is not valid for the country
+ * @throws Error if the country has no postal code rules
+ * @example
+ * normalizePostalCode('sw1a1aa', 'GB') // 'SW1A 1AA'
+ * normalizePostalCode('k1a0b1', 'CA') // 'K1A 0B1'
+ * normalizePostalCode('1000001', 'JP') // '100-0001'
+ * normalizePostalCode('123456789') // '12345-6789'
+ */
+export function normalizePostalCode(postalCode: string, country = 'US'): string | null {
+  const { pattern, split, separator, prefix } = systemFor(country);
+  let compact = postalCode.toUpperCase().replace(/[\s-]/g, '');
+  const compactPrefix = prefix?.replace('-', '');
+  if (compactPrefix !== undefined && compact.startsWith(compactPrefix)) {
+    compact = compact.slice(compactPrefix.length);
+  }
+
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(`^(?:${pattern})$`);
+    patternCache.set(pattern, regex);
+  }
+  if (!regex.test(compact)) return null;
+
+  let canonical = compact;
+  if (split !== undefined && separator !== undefined && compact.length > Math.abs(split)) {
+    canonical = `${compact.slice(0, split)}${separator}${compact.slice(split)}`;
+  }
+  return `${prefix ?? ''}${canonical}`;
+}
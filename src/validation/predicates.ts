@@ -0,0 +1,224 @@
+/**
+ * Boolean predicates for common formats
+ */
+
+import { CARD_BRANDS, detectCardBrand } from './cards';
+import { parseIP } from './ip';
+import { parsePhoneNumber } from './phone';
+import { normalizePostalCode } from './postal';
+import { estimatePasswordStrength, PasswordScore, PasswordStrength } from './strength';
+
+/**
+ * Checks if a value is a valid email address
+ */
+export function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+}
+
+/**
+ * Checks if a value is a valid URL. Any protocol and host is accepted; use checkUrl
+ * before fetching a URL from user input.
+ */
+export function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks if a value is a valid phone number. Without a country this is a basic check
+ * (up to 16 digits); with one, the number must match that country's length and prefix
+ * rules, in national form or with its calling code.
+ * @throws Error if the country has no phone metadata
+ * @example
+ * isValidPhoneNumber('020 7946 0958', 'GB') // true
+ * isValidPhoneNumber('+1 416 555 0123', 'US') // false (a Canadian number)
+ */
+export function isValidPhoneNumber(phone: string, country?: string): boolean {
+  if (country !== undefined) {
+    const parsed = parsePhoneNumber(phone, country);
+    return parsed !== null && parsed.valid && parsed.country === country.toUpperCase();
+  }
+  const phoneRegex = /^[\+]?[1-9][\d]{0,15}$/;
+  return phoneRegex.test(phone.replace(/[\s\-\(\)]/g, ''));
+}
+
+/**
+ * Checks if a value is a valid credit card number (Luhn algorithm), with the length
+ * rules of its brand when the brand is known (e.g. 15 digits for Amex)
+ */
+export function isValidCreditCard(cardNumber: string): boolean {
+  const cleanNumber = cardNumber.replace(/\s/g, '');
+  if (!/^\d{13,19}$/.test(cleanNumber)) return false;
+  const brand = detectCardBrand(cleanNumber);
+  if (brand && !CARD_BRANDS[brand].lengths.includes(cleanNumber.length)) return false;
+  
+  let sum = 0;
+  let isEven = false;
+  
+  for (let i = cleanNumber.length - 1; i >= 0; i--) {
+    let digit = parseInt(cleanNumber.charAt(i));
+    
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    
+    sum += digit;
+    isEven = !isEven;
+  }
+  
+  return sum % 10 === 0;
+}
+
+/**
+ * Password requirements; uppercase, lowercase and numbers are required by default
+ */
+export interface PasswordRequirements {
+  /** Minimum length (default: 8) */
+  minLength?: number;
+  requireUppercase?: boolean;
+  requireLowercase?: boolean;
+  requireNumbers?: boolean;
+  /** Require ASCII punctuation (default: false) */
+  requireSpecialChars?: boolean;
+  /** Minimum estimatePasswordStrength score, 0-4 (default: no strength check) */
+  minScore?: PasswordScore;
+  /** Name, email and other words about the user that make a password easier to guess */
+  userInputs?: string[];
+}
+
+/**
+ * Lists the requirements a password does not meet, as issue codes
+ * @param strength - Estimate already computed for the password, reused for minScore
+ */
+export function unmetPasswordRequirements(
+  password: string,
+  options: PasswordRequirements = {},
+  strength?: PasswordStrength
+): string[] {
+  const {
+    minLength = 8,
+    requireUppercase = true,
+    requireLowercase = true,
+    requireNumbers = true,
+    requireSpecialChars = false,
+    minScore,
+    userInputs = []
+  } = options;
+
+  const unmet: string[] = [];
+  if (password.length < minLength) unmet.push('too_short');
+  if (requireUppercase && !/[A-Z]/.test(password)) unmet.push('missing_uppercase');
+  if (requireLowercase && !/[a-z]/.test(password)) unmet.push('missing_lowercase');
+  if (requireNumbers && !/\d/.test(password)) unmet.push('missing_number');
+  // Any ASCII punctuation counts, matching the symbols generatePassword can emit
+  if (requireSpecialChars && !/[!-/:-@[-`{-~]/.test(password)) unmet.push('missing_special_char');
+  if (minScore !== undefined && (strength ?? estimatePasswordStrength(password, userInputs)).score < minScore) {
+    unmet.push('too_weak');
+  }
+
+  return unmet;
+}
+
+/**
+ * Checks if a value is a valid password (minimum requirements). Character classes alone
+ * accept 'Password1'; set minScore to also reject passwords that are easy to guess.
+ * @example
+ * isValidPassword('Password1') // true
+ * isValidPassword('Password1', { minScore: 3 }) // false
+ */
+export function isValidPassword(password: string, options: PasswordRequirements = {}): boolean {
+  return unmetPasswordRequirements(password, options).length === 0;
+}
+
+/**
+ * Checks if a value is a valid IPv4 address in dotted-decimal form without leading zeros
+ */
+export function isValidIPv4(ip: string): boolean {
+  return !/[\s[\]]/.test(ip) && parseIP(ip)?.version === 4;
+}
+
+/**
+ * Checks if a value is a valid IPv6 address, including compressed forms ('::1'),
+ * embedded IPv4 ('::ffff:192.0.2.1') and zone IDs ('fe80::1%eth0')
+ */
+export function isValidIPv6(ip: string): boolean {
+  return !/[\s[\]]/.test(ip) && parseIP(ip)?.version === 6;
+}
+
+/**
+ * Checks if a value is a valid postal code. Without a country this is the strict US ZIP
+ * check ('12345' or '12345-6789'); with one, case, spaces and dashes are ignored.
+ * @throws Error if the country has no postal code rules
+ * @example
+ * isValidPostalCode('SW1A 1AA', 'GB') // true
+ * isValidPostalCode('K1A0B1', 'CA') // true
+ */
+export function isValidPostalCode(postalCode: string, country?: string): boolean {
+  if (country !== undefined) {
+    return normalizePostalCode(postalCode, country) !== null;
+  }
+  const postalRegex = /^\d{5}(-\d{4})?$/;
+  return postalRegex.test(postalCode);
+}
+
+/**
+ * Checks if a value is a valid social security number (US format)
+ */
+export function isValidSSN(ssn: string): boolean {
+  const ssnRegex = /^\d{3}-\d{2}-\d{4}$/;
+  return ssnRegex.test(ssn);
+}
+
+/**
+ * Checks if a value is a valid date string
+ */
+export function isValidDate(dateString: string): boolean {
+  const date = new Date(dateString);
+  return !isNaN(date.getTime());
+}
+
+/**
+ * Checks if a value is a valid time string (HH:MM format)
+ */
+export function isValidTime(timeString: string): boolean {
+  const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+  return timeRegex.test(timeString);
+}
+
+/**
+ * Checks if a value is a valid hexadecimal color code
+ */
+export function isValidHexColor(color: string): boolean {
+  const hexRegex = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+  return hexRegex.test(color);
+}
+
+/**
+ * Checks if a value is a valid JSON string
+ */
+export function isValidJSON(jsonString: string): boolean {
+  try {
+    JSON.parse(jsonString);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks if a value is a valid UUID (RFC 9562 versions 1-8, plus the nil and max UUIDs)
+ */
+export function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid) ||
+    uuid === '00000000-0000-0000-0000-000000000000' ||
+    /^ffffffff-ffff-ffff-ffff-ffffffffffff$/i.test(uuid);
+}
@@ -0,0 +1,288 @@
+/**
+ * Product and publication identifiers: ISBN, ISSN and the GS1 family (EAN-8, EAN-13, UPC-A,
+ * UPC-E, GTIN-14)
+ */
+
+import { IdentifierProblem } from './financial';
+
+/**
+ * Registrant (publisher) ranges within the largest ISBN registration groups, keyed by
+ * prefix and group. Each range is [from, to] of equal length: the registrant's length.
+ */
+const ISBN_REGISTRANT_RANGES: Record<string, [string, string][]> = {
+  // English-speaking areas
+  '978-0': [['00', '19'], ['200', '699'], ['7000', '8499'], ['85000', '89999'], ['900000', '949999'], ['9500000', '9999999']],
+  '978-1': [['00', '09'], ['100', '399'], ['4000', '5499'], ['55000', '86979'], ['869800', '998999'], ['9990000', '9999999']],
+  // French-speaking areas
+  '978-2': [
+    ['00', '19'], ['200', '349'], ['35000', '39999'], ['400', '699'], ['7000', '8399'], ['84000', '89999'],
+    ['900000', '949999'], ['9500000', '9999999']
+  ],
+  // German-speaking areas
+  '978-3': [
+    ['00', '02'], ['030', '033'], ['0340', '0369'], ['03700', '03999'], ['04', '19'], ['200', '699'], ['7000', '8499'],
+    ['85000', '89999'], ['900000', '949999'], ['9500000', '9539999'], ['95400', '96999'], ['9700000', '9849999'],
+    ['98500', '99999']
+  ],
+  // Japan
+  '978-4': [['00', '19'], ['200', '699'], ['7000', '8499'], ['85000', '89999'], ['900000', '949999'], ['9500000', '9999999']],
+  // France
+  '979-10': [['00', '19'], ['200', '699'], ['7000', '8999'], ['90000', '97599'], ['976000', '999999']]
+};
+
+/**
+ * Compact form of an identifier: without spaces, dashes or a leading label such as
+ * 'ISBN-13:' or 'ISSN'
+ */
+function compact(value: string, label: RegExp): string {
+  return value.trim().toUpperCase().replace(label, '').replace(/[\s-]/g, '');
+}
+
+const ISBN_LABEL = /^ISBN(?:-?1[03])?:?/;
+const ISSN_LABEL = /^ISSN:?/;
+
+/**
+ * GS1 mod-10 check digit: weights 3 and 1 alternating from the rightmost body digit
+ */
+function gs1CheckDigit(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Mod-11 check character shared by ISBN-10 (weights 10-2) and ISSN (weights 8-2)
+ */
+function mod11CheckDigit(body: string): string {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[i]) * (body.length + 1 - i);
+  }
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * Diagnoses an ISBN-10 or ISBN-13
+ * @returns The problem, or null for a valid ISBN
+ */
+export function isbnProblem(isbn: string): IdentifierProblem | null {
+  const value = compact(isbn, ISBN_LABEL);
+  if (!/^\d*X?$/.test(value)) {
+    return { code: 'invalid_characters', params: { format: 'isbn' } };
+  }
+  if (value.length !== 10 && value.length !== 13) {
+    return { code: 'invalid_length', params: { format: 'isbn', min: 10, max: 13, lengths: [10, 13] } };
+  }
+  if (value.length === 13) {
+    // 979-0 is the ISMN range for printed music
+    if (value.endsWith('X') || !/^97(?:8|9[1-9])/.test(value)) {
+      return { code: 'invalid_format', params: { format: 'isbn' } };
+    }
+    if (gs1CheckDigit(value.slice(0, 12)) !== value[12]) {
+      return { code: 'invalid_checksum', params: { format: 'isbn' } };
+    }
+  } else if (mod11CheckDigit(value.slice(0, 9)) !== value[9]) {
+    return { code: 'invalid_checksum', params: { format: 'isbn' } };
+  }
+  return null;
+}
+
+/**
+ * Checks if a value is a valid ISBN. Hyphens, spaces and an 'ISBN' label are ignored.
+ * @param isbn - ISBN-10 or ISBN-13
+ * @param version - Only accept this version (default: either)
+ * @example
+ * isValidISBN('978-0-306-40615-7') // true
+ * isValidISBN('0-306-40615-2') // true
+ * isValidISBN('0-306-40615-2', 13) // false
+ */
+export function isValidISBN(isbn: string, version?: 10 | 13): boolean {
+  return isbnProblem(isbn) === null && (version === undefined || compact(isbn, ISBN_LABEL).length === version);
+}
+
+/**
+ * Converts an ISBN to ISBN-13
+ * @returns Compact ISBN-13, or null if the ISBN is invalid
+ * @example
+ * toISBN13('0-306-40615-2') // '9780306406157'
+ */
+export function toISBN13(isbn: string): string | null {
+  if (isbnProblem(isbn)) return null;
+  const value = compact(isbn, ISBN_LABEL);
+  if (value.length === 13) return value;
+  const body = `978${value.slice(0, 9)}`;
+  return body + gs1CheckDigit(body);
+}
+
+/**
+ * Converts an ISBN to ISBN-10
+ * @returns Compact ISBN-10, or null if the ISBN is invalid or starts with 979, which has no
+ *   ISBN-10 form
+ * @example
+ * toISBN10('978-0-306-40615-7') // '0306406152'
+ */
+export function toISBN10(isbn: string): string | null {
+  if (isbnProblem(isbn)) return null;
+  const value = compact(isbn, ISBN_LABEL);
+  if (value.length === 10) return value;
+  if (!value.startsWith('978')) return null;
+  const body = value.slice(3, 12);
+  return body + mod11CheckDigit(body);
+}
+
+/**
+ * Splits an ISBN into prefix, registration group, registrant, publication and check digit
+ * @returns Hyphenated ISBN in its own version, or null if the ISBN is invalid or its group's
+ *   ranges are not embedded (groups 978-0 to 978-4 and 979-10 are)
+ * @example
+ * hyphenateISBN('9783161484100') // '978-3-16-148410-0'
+ * hyphenateISBN('0306406152') // '0-306-40615-2'
+ */
+export function hyphenateISBN(isbn: string): string | null {
+  const isbn13 = toISBN13(isbn);
+  if (!isbn13) return null;
+  const key = Object.keys(ISBN_REGISTRANT_RANGES).find(candidate => isbn13.startsWith(candidate.replace('-', '')));
+  if (key === undefined) return null;
+
+  const [prefix, group] = key.split('-') as [string, string];
+  const rest = isbn13.slice(prefix.length + group.length, 12);
+  const range = ISBN_REGISTRANT_RANGES[key]!.find(([from, to]) => {
+    const registrant = rest.slice(0, from.length);
+    return registrant >= from && registrant <= to;
+  });
+  if (!range) return null;
+
+  const registrant = rest.slice(0, range[0].length);
+  const publication = rest.slice(range[0].length);
+  const value = compact(isbn, ISBN_LABEL);
+  return value.length === 13
+    ? [prefix, group, registrant, publication, value[12]].join('-')
+    : [group, registrant, publication, value[9]].join('-');
+}
+
+/**
+ * Diagnoses an ISSN
+ * @returns The problem, or null for a valid ISSN
+ */
+export function issnProblem(issn: string): IdentifierProblem | null {
+  const value = compact(issn, ISSN_LABEL);
+  if (!/^\d*X?$/.test(value)) {
+    return { code: 'invalid_characters', params: { format: 'issn' } };
+  }
+  if (value.length !== 8) {
+    return { code: 'invalid_length', params: { format: 'issn', min: 8, max: 8 } };
+  }
+  if (mod11CheckDigit(value.slice(0, 7)) !== value[7]) {
+    return { code: 'invalid_checksum', params: { format: 'issn' } };
+  }
+  return null;
+}
+
+/**
+ * Checks if a value is a valid ISSN (eight characters with a mod-11 check, 'X' for 10)
+ * @example
+ * isValidISSN('0378-5955') // true
+ * isValidISSN('ISSN 2049-3630') // true
+ */
+export function isValidISSN(issn: string): boolean {
+  return issnProblem(issn) === null;
+}
+
+/**
+ * Expands a UPC-E code to the UPC-A code it abbreviates
+ * @param upce - Eight digits: number system (0 or 1), six digits and the check digit
+ * @returns Twelve-digit UPC-A, or null if the input is not a UPC-E code
+ * @example
+ * expandUPCE('04252614') // '042100005264'
+ */
+export function expandUPCE(upce: string): string | null {
+  const value = upce.replace(/[\s-]/g, '');
+  if (!/^[01]\d{7}$/.test(value)) return null;
+  const [numberSystem, d1, d2, d3, d4, d5, d6, check] = [...value];
+  let body: string;
+  if ('012'.includes(d6!)) body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${numberSystem}${body}${check}`;
+}
+
+type GTINKind = 'ean' | 'upc' | 'gtin';
+
+/** Lengths each format accepts; UPC-E is 8 digits and checked after expansion */
+const GTIN_LENGTHS: Record<GTINKind, number[]> = {
+  ean: [8, 13],
+  upc: [8, 12],
+  gtin: [8, 12, 13, 14]
+};
+
+/**
+ * Diagnoses a GS1 barcode number
+ * @param code - Digits, optionally with spaces or dashes
+ * @param kind - 'ean' (EAN-8, EAN-13), 'upc' (UPC-E, UPC-A) or 'gtin' (GTIN-8, -12, -13, -14)
+ * @returns The problem, or null for a valid code
+ */
+export function gtinProblem(code: string, kind: GTINKind = 'gtin'): IdentifierProblem | null {
+  const value = code.replace(/[\s-]/g, '');
+  const lengths = GTIN_LENGTHS[kind];
+  if (!/^\d*$/.test(value)) {
+    return { code: 'invalid_characters', params: { format: kind } };
+  }
+  if (!lengths.includes(value.length)) {
+    return { code: 'invalid_length', params: { format: kind, min: lengths[0], max: lengths[lengths.length - 1], lengths } };
+  }
+  const digits = kind === 'upc' && value.length === 8 ? expandUPCE(value) : value;
+  if (digits === null) {
+    return { code: 'invalid_format', params: { format: kind } };
+  }
+  if (gs1CheckDigit(digits.slice(0, -1)) !== digits[digits.length - 1]) {
+    return { code: 'invalid_checksum', params: { format: kind } };
+  }
+  return null;
+}
+
+/**
+ * Checks if a value is a valid EAN-8 or EAN-13 barcode number
+ * @example
+ * isValidEAN('4006381333931') // true
+ * isValidEAN('9638 5074') // true
+ */
+export function isValidEAN(ean: string): boolean {
+  return gtinProblem(ean, 'ean') === null;
+}
+
+/**
+ * Checks if a value is a valid UPC-A (12 digits) or UPC-E (8 digits) barcode number
+ * @example
+ * isValidUPC('036000291452') // true
+ * isValidUPC('04252614') // true
+ */
+export function isValidUPC(upc: string): boolean {
+  return gtinProblem(upc, 'upc') === null;
+}
+
+/**
+ * Checks if a value is a valid GTIN-8, GTIN-12 (UPC-A), GTIN-13 (EAN-13) or GTIN-14
+ * @example
+ * isValidGTIN('10614141000415') // true
+ */
+export function isValidGTIN(gtin: string): boolean {
+  return gtinProblem(gtin) === null;
+}
+
+/**
+ * Normalizes a GS1 barcode number to the 14-digit GTIN used as a database key. Eight digits
+ * are read as EAN-8: expand UPC-E codes with expandUPCE first.
+ * @param code - EAN-8, EAN-13, UPC-A or GTIN-14
+ * @returns Zero-padded GTIN-14, or null if the code is invalid
+ * @example
+ * normalizeGTIN('0 36000 29145 2') // '00036000291452'
+ * normalizeGTIN(expandUPCE('04252614')!) // '00042100005264'
+ */
+export function normalizeGTIN(code: string): string | null {
+  const value = code.replace(/[\s-]/g, '');
+  return gtinProblem(value) === null ? value.padStart(14, '0') : null;
+}
@@ -0,0 +1,77 @@
+/**
+ * Cross-field rules for object schemas, e.g. matching passwords or ordered dates
+ */
+
+/**
+ * A rule over several fields of an object. It runs as soon as the fields it reads are
+ * valid, even when other fields failed, so a form gets every issue in one run.
+ */
+export interface FieldRule {
+  /** Fields the rule reads */
+  fields: string[];
+  /** Field the issue is reported on (default: the first field) */
+  field?: string;
+  test(values: Record<string, unknown>): boolean;
+  /** Issue code (default: 'custom') */
+  code?: string;
+  message?: string;
+  params?: Record<string, unknown>;
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return new Date(value).getTime();
+  return NaN;
+}
+
+/**
+ * Requires a field to equal another field
+ * @param field - Field that must match, e.g. 'confirmPassword'
+ * @param other - Field it is compared with, e.g. 'password'
+ * @param message - Custom message (default: 'Must match {other}')
+ * @returns Rule reporting 'not_equal' ({ other }) on `field`
+ * @example
+ * object({ password: string().password(), confirmPassword: string() })
+ *   .rule(matchesField('confirmPassword', 'password'))
+ */
+export function matchesField(field: string, other: string, message?: string): FieldRule {
+  return {
+    fields: [field, other],
+    test: values => values[field] === values[other],
+    code: 'not_equal',
+    params: { other },
+    ...(message === undefined ? {} : { message })
+  };
+}
+
+/**
+ * Requires a date field to come after another; accepts Date objects, timestamps and
+ * date strings, and passes when either value is missing or not a date
+ * @param field - Later field, e.g. 'endDate'
+ * @param other - Earlier field, e.g. 'startDate'
+ * @param options - Whether equal dates are allowed (default: false) and a custom message
+ * @returns Rule reporting 'not_after' ({ other, inclusive }) on `field`
+ * @example
+ * object({ startDate: string().date(), endDate: string().date() })
+ *   .rule(afterField('endDate', 'startDate'))
+ */
+export function afterField(
+  field: string,
+  other: string,
+  options: { inclusive?: boolean; message?: string } = {}
+): FieldRule {
+  const { inclusive = false, message } = options;
+  return {
+    fields: [field, other],
+    test: values => {
+      const end = toTime(values[field]);
+      const start = toTime(values[other]);
+      if (isNaN(end) || isNaN(start)) return true;
+      return inclusive ? end >= start : end > start;
+    },
+    code: 'not_after',
+    params: { other, inclusive },
+    ...(message === undefined ? {} : { message })
+  };
+}
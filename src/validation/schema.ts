@@ -0,0 +1,528 @@
+/**
+ * Composable schemas with TypeScript type inference and path-aware issues
+ */
+
+import { abortable } from './async';
+import { createIssue, formatPath, PathSegment, ValidationIssue, ValidationResult } from './issues';
+import { PasswordRequirements } from './predicates';
+import { FieldRule } from './rules';
+import { FORMAT_RULES, passwordRule, StringFormat, StringRule } from './validators';
+
+/**
+ * Message for a custom rule, or its code, message and message parameters
+ */
+export type RefineOptions = string | { code?: string; message?: string; params?: Record<string, unknown> };
+
+export type SchemaKind = 'string' | 'number' | 'boolean' | 'literal' | 'object' | 'array' | 'union' | 'optional';
+
+/**
+ * A validator for values of type T
+ */
+export interface Schema<T> {
+  readonly kind: SchemaKind;
+  /** Validates a value, collecting every issue */
+  validate(value: unknown): ValidationResult<T>;
+  /** Returns the validated value or throws an Error listing the issues */
+  parse(value: unknown): T;
+  /** Type guard form of validate */
+  is(value: unknown): value is T;
+  /** Also accepts undefined (and makes the key optional inside object()) */
+  optional(): Schema<T | undefined>;
+  /** Adds a custom rule that runs once the value has the right type */
+  refine(check: (value: T) => boolean, options?: RefineOptions): Schema<T>;
+  /**
+   * Validates a value including async rules; rejects with the signal's reason if it aborts
+   */
+  validateAsync(value: unknown, options?: { signal?: AbortSignal }): Promise<ValidationResult<T>>;
+  /**
+   * Adds an async rule, e.g. a uniqueness lookup. It only runs once the value passes its
+   * other rules, and requires validateAsync.
+   */
+  refineAsync(
+    check: (value: T, context: { signal: AbortSignal }) => Promise<boolean>,
+    options?: RefineOptions
+  ): Schema<T>;
+}
+
+/**
+ * Static type accepted by a schema
+ * @example
+ * const user = object({ name: string(), age: number().optional() });
+ * type User = Infer<typeof user>; // { name: string; age?: number | undefined }
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+/**
+ * Object type described by a shape; keys whose schema accepts undefined become optional
+ */
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+export interface StringSchema extends Schema<string> {
+  refine(check: (value: string) => boolean, options?: RefineOptions): StringSchema;
+  min(length: number, message?: string): StringSchema;
+  max(length: number, message?: string): StringSchema;
+  pattern(regex: RegExp, message?: string): StringSchema;
+  format(format: StringFormat, message?: string): StringSchema;
+  email(message?: string): StringSchema;
+  url(message?: string): StringSchema;
+  uuid(message?: string): StringSchema;
+  ipv4(message?: string): StringSchema;
+  ipv6(message?: string): StringSchema;
+  phone(message?: string): StringSchema;
+  creditCard(message?: string): StringSchema;
+  postalCode(message?: string): StringSchema;
+  ssn(message?: string): StringSchema;
+  date(message?: string): StringSchema;
+  time(message?: string): StringSchema;
+  hexColor(message?: string): StringSchema;
+  json(message?: string): StringSchema;
+  password(options?: PasswordRequirements, message?: string): StringSchema;
+}
+
+export interface NumberSchema extends Schema<number> {
+  refine(check: (value: number) => boolean, options?: RefineOptions): NumberSchema;
+  min(value: number, message?: string): NumberSchema;
+  max(value: number, message?: string): NumberSchema;
+  int(message?: string): NumberSchema;
+}
+
+export interface ArraySchema<T> extends Schema<T[]> {
+  readonly element: Schema<T>;
+  refine(check: (value: T[]) => boolean, options?: RefineOptions): ArraySchema<T>;
+  min(length: number, message?: string): ArraySchema<T>;
+  max(length: number, message?: string): ArraySchema<T>;
+}
+
+export interface ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  readonly shape: S;
+  refine(check: (value: InferShape<S>) => boolean, options?: RefineOptions): ObjectSchema<S>;
+  /** Adds a cross-field rule such as matchesField('confirmPassword', 'password') */
+  rule(rule: FieldRule): ObjectSchema<S>;
+  /** Reports keys that are not in the shape instead of dropping them */
+  strict(): ObjectSchema<S>;
+}
+
+const INVALID: unique symbol = Symbol('invalid');
+
+/**
+ * Async rule queued during a run; resolves to its issues
+ */
+type AsyncTask = (signal: AbortSignal) => Promise<ValidationIssue[]>;
+
+type Runner<T> = (
+  value: unknown,
+  path: PathSegment[],
+  issues: ValidationIssue[],
+  tasks: AsyncTask[]
+) => T | typeof INVALID;
+
+/**
+ * Pushes issues for an already type-checked value
+ */
+type Check<T> = (value: T, path: PathSegment[], issues: ValidationIssue[]) => void;
+
+const runners = new WeakMap<object, Runner<unknown>>();
+
+function runnerOf<T>(schema: Schema<T>): Runner<T> {
+  const runner = runners.get(schema);
+  if (!runner) {
+    throw new TypeError('Expected a schema created with string(), number(), object() or another schema builder');
+  }
+  return runner as Runner<T>;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+function typeMismatch(value: unknown, expected: string, path: PathSegment[], issues: ValidationIssue[]): typeof INVALID {
+  issues.push(value === undefined
+    ? createIssue('required', path)
+    : createIssue('invalid_type', path, { expected, received: describeType(value) }));
+  return INVALID;
+}
+
+function withChecks<T>(runner: Runner<T>, checks: Check<T>[]): Runner<T> {
+  if (checks.length === 0) return runner;
+  return (value, path, issues, tasks) => {
+    const result = runner(value, path, issues, tasks);
+    if (result === INVALID) return INVALID;
+    const before = issues.length;
+    for (const check of checks) {
+      check(result, path, issues);
+    }
+    return issues.length === before ? result : INVALID;
+  };
+}
+
+function rule<T>(test: (value: T) => boolean, code: string, params: Record<string, unknown>, message?: string): Check<T> {
+  return (value, path, issues) => {
+    if (!test(value)) {
+      issues.push(createIssue(code, path, params, message));
+    }
+  };
+}
+
+function resolveRefineOptions(options: RefineOptions = {}) {
+  const { code = 'custom', message, params = {} } = typeof options === 'string' ? { message: options } : options;
+  return { code, message, params };
+}
+
+function customCheck<T>(test: (value: T) => boolean, options?: RefineOptions): Check<T> {
+  const { code, message, params } = resolveRefineOptions(options);
+  return rule(test, code, params, message);
+}
+
+function withAsyncCheck<T>(
+  runner: Runner<T>,
+  check: (value: T, context: { signal: AbortSignal }) => Promise<boolean>,
+  options?: RefineOptions
+): Runner<T> {
+  const { code, message, params } = resolveRefineOptions(options);
+  return (value, path, issues, tasks) => {
+    const result = runner(value, path, issues, tasks);
+    if (result !== INVALID) {
+      // Built now so the message comes from the catalog active during the call
+      const issue = createIssue(code, path, params, message);
+      tasks.push(async signal => (await check(result, { signal })) ? [] : [issue]);
+    }
+    return result;
+  };
+}
+
+function withMessage(check: StringRule, message: string | undefined): StringRule {
+  if (message === undefined) return check;
+  return (value, path, issues) => {
+    const found: ValidationIssue[] = [];
+    check(value, path, found);
+    issues.push(...found.map(issue => ({ ...issue, message })));
+  };
+}
+
+function describeIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message).join('; ');
+}
+
+function register<S extends Schema<any>>(schema: S, runner: Runner<unknown>): S {
+  runners.set(schema, runner);
+  return schema;
+}
+
+function optionalRunner<T>(runner: Runner<T>): Runner<T | undefined> {
+  return (value, path, issues, tasks) => value === undefined ? undefined : runner(value, path, issues, tasks);
+}
+
+/**
+ * Methods every schema shares, built around its runner
+ */
+function baseSchema<T>(kind: SchemaKind, runner: Runner<T>): Schema<T> {
+  const toResult = (result: T | typeof INVALID, issues: ValidationIssue[]): ValidationResult<T> =>
+    result === INVALID || issues.length > 0 ? { ok: false, issues } : { ok: true, value: result, issues: [] };
+
+  const validate = (value: unknown): ValidationResult<T> => {
+    const issues: ValidationIssue[] = [];
+    const tasks: AsyncTask[] = [];
+    const result = runner(value, [], issues, tasks);
+    if (tasks.length > 0) {
+      throw new Error('Schema has async rules; use validateAsync()');
+    }
+    return toResult(result, issues);
+  };
+
+  return {
+    kind,
+    validate,
+    parse(value) {
+      const result = validate(value);
+      if (!result.ok) {
+        throw new Error(`Validation failed: ${describeIssues(result.issues)}`);
+      }
+      return result.value;
+    },
+    is: (value: unknown): value is T => validate(value).ok,
+    async validateAsync(value, options = {}) {
+      const { signal = new AbortController().signal } = options;
+      const issues: ValidationIssue[] = [];
+      const tasks: AsyncTask[] = [];
+      const result = runner(value, [], issues, tasks);
+      const found = await abortable(() => Promise.all(tasks.map(task => task(signal))), signal);
+      issues.push(...found.flat());
+      return toResult(result, issues);
+    },
+    optional: () => genericSchema('optional', optionalRunner(runner)),
+    refine: (check, options) => genericSchema(kind, withChecks(runner, [customCheck(check, options)])),
+    refineAsync: (check, options) => genericSchema(kind, withAsyncCheck(runner, check, options))
+  };
+}
+
+function genericSchema<T>(kind: SchemaKind, runner: Runner<T>): Schema<T> {
+  return register(baseSchema(kind, runner), runner);
+}
+
+const parseString: Runner<string> = (value, path, issues) =>
+  typeof value === 'string' ? value : typeMismatch(value, 'string', path, issues);
+
+function stringSchema(checks: Check<string>[]): StringSchema {
+  const runner = withChecks(parseString, checks);
+  const next = (check: Check<string>) => stringSchema([...checks, check]);
+  const format = (name: StringFormat, message?: string) => next(withMessage(FORMAT_RULES[name], message));
+
+  return register({
+    ...baseSchema('string', runner),
+    refine: (check, options) => next(customCheck(check, options)),
+    min: (length, message) => next(rule(v => v.length >= length, 'too_short', { min: length }, message)),
+    max: (length, message) => next(rule(v => v.length <= length, 'too_long', { max: length }, message)),
+    pattern: (regex, message) =>
+      next(rule(v => { regex.lastIndex = 0; return regex.test(v); }, 'pattern_mismatch', { pattern: regex.source }, message)),
+    format,
+    email: message => format('email', message),
+    url: message => format('url', message),
+    uuid: message => format('uuid', message),
+    ipv4: message => format('ipv4', message),
+    ipv6: message => format('ipv6', message),
+    phone: message => format('phone', message),
+    creditCard: message => format('credit-card', message),
+    postalCode: message => format('postal-code', message),
+    ssn: message => format('ssn', message),
+    date: message => format('date', message),
+    time: message => format('time', message),
+    hexColor: message => format('hex-color', message),
+    json: message => format('json', message),
+    password: (options = {}, message) => next(withMessage(passwordRule(options), message))
+  }, runner);
+}
+
+const parseNumber: Runner<number> = (value, path, issues) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : typeMismatch(value, 'number', path, issues);
+
+function numberSchema(checks: Check<number>[]): NumberSchema {
+  const runner = withChecks(parseNumber, checks);
+  const next = (check: Check<number>) => numberSchema([...checks, check]);
+
+  return register({
+    ...baseSchema('number', runner),
+    refine: (check, options) => next(customCheck(check, options)),
+    min: (min, message) => next(rule(v => v >= min, 'too_small', { min }, message)),
+    max: (max, message) => next(rule(v => v <= max, 'too_big', { max }, message)),
+    int: message => next(rule(Number.isInteger, 'not_integer', {}, message))
+  }, runner);
+}
+
+function arraySchema<T>(element: Schema<T>, checks: Check<T[]>[]): ArraySchema<T> {
+  const elementRunner = runnerOf(element);
+  const parse: Runner<T[]> = (value, path, issues, tasks) => {
+    if (!Array.isArray(value)) return typeMismatch(value, 'array', path, issues);
+    const output: T[] = [];
+    let valid = true;
+    value.forEach((item, index) => {
+      const result = elementRunner(item, [...path, index], issues, tasks);
+      if (result === INVALID) {
+        valid = false;
+      } else {
+        output.push(result);
+      }
+    });
+    return valid ? output : INVALID;
+  };
+  const runner = withChecks(parse, checks);
+  const next = (check: Check<T[]>) => arraySchema(element, [...checks, check]);
+
+  return register({
+    ...baseSchema('array', runner),
+    element,
+    refine: (check, options) => next(customCheck(check, options)),
+    min: (length, message) => next(rule(v => v.length >= length, 'too_few_items', { min: length }, message)),
+    max: (length, message) => next(rule(v => v.length <= length, 'too_many_items', { max: length }, message))
+  }, runner);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface ObjectConfig<S extends Shape> {
+  checks: Check<InferShape<S>>[];
+  fieldRules: FieldRule[];
+  strict: boolean;
+}
+
+function objectSchema<S extends Shape>(shape: S, config: ObjectConfig<S>): ObjectSchema<S> {
+  const { checks, fieldRules, strict } = config;
+  const fields = Object.keys(shape).map(key => [key, runnerOf(shape[key]!)] as const);
+  const parse: Runner<InferShape<S>> = (value, path, issues, tasks) => {
+    if (!isPlainObject(value)) return typeMismatch(value, 'object', path, issues);
+    const output: Record<string, unknown> = {};
+    const validKeys = new Set<string>();
+    let valid = true;
+    for (const [key, runner] of fields) {
+      const result = runner(value[key], [...path, key], issues, tasks);
+      if (result === INVALID) {
+        valid = false;
+        continue;
+      }
+      validKeys.add(key);
+      if (result !== undefined || key in value) {
+        output[key] = result;
+      }
+    }
+    for (const fieldRule of fieldRules) {
+      if (fieldRule.fields.every(key => validKeys.has(key)) && !fieldRule.test(output)) {
+        const { field = fieldRule.fields[0]!, code = 'custom', params = {}, message } = fieldRule;
+        issues.push(createIssue(code, [...path, field], params, message));
+        valid = false;
+      }
+    }
+    if (strict) {
+      const unknownKeys = Object.keys(value).filter(key => !(key in shape));
+      if (unknownKeys.length > 0) {
+        issues.push(createIssue('unrecognized_keys', path, { keys: unknownKeys }));
+        valid = false;
+      }
+    }
+    return valid ? output as InferShape<S> : INVALID;
+  };
+  const runner = withChecks(parse, checks);
+
+  return register({
+    ...baseSchema('object', runner),
+    shape,
+    refine: (check, options) => objectSchema(shape, { ...config, checks: [...checks, customCheck(check, options)] }),
+    rule: fieldRule => {
+      const unknownField = [...fieldRule.fields, ...(fieldRule.field === undefined ? [] : [fieldRule.field])]
+        .find(key => !(key in shape));
+      if (fieldRule.fields.length === 0 || unknownField !== undefined) {
+        throw new Error(`Rule refers to unknown field "${unknownField ?? ''}"`);
+      }
+      return objectSchema(shape, { ...config, fieldRules: [...fieldRules, fieldRule] });
+    },
+    strict: () => objectSchema(shape, { ...config, strict: true })
+  }, runner);
+}
+
+/**
+ * Creates a string schema; chain min, max, pattern, refine or a format such as email()
+ * @returns String schema
+ * @example
+ * string().min(3).max(20).validate('ab')
+ * // { ok: false, issues: [{ path: [], code: 'too_short', message: 'Must be at least 3 characters', params: { min: 3 } }] }
+ * string().email().parse('jane@example.com') // 'jane@example.com'
+ */
+export function string(): StringSchema {
+  return stringSchema([]);
+}
+
+/**
+ * Creates a schema for finite numbers; chain min, max, int or refine
+ * @returns Number schema
+ * @example
+ * number().int().min(0).is(3) // true
+ */
+export function number(): NumberSchema {
+  return numberSchema([]);
+}
+
+/**
+ * Creates a boolean schema
+ * @returns Boolean schema
+ */
+export function boolean(): Schema<boolean> {
+  return genericSchema('boolean', (value, path, issues) =>
+    typeof value === 'boolean' ? value : typeMismatch(value, 'boolean', path, issues));
+}
+
+/**
+ * Creates a schema that accepts exactly one value
+ * @param expected - The only accepted value
+ * @returns Literal schema
+ * @example
+ * union(literal('admin'), literal('user')).is('guest') // false
+ */
+export function literal<L extends string | number | boolean | null>(expected: L): Schema<L> {
+  return genericSchema('literal', (value, path, issues) => {
+    if (value === expected) return expected;
+    issues.push(value === undefined ? createIssue('required', path) : createIssue('invalid_literal', path, { expected }));
+    return INVALID;
+  });
+}
+
+/**
+ * Creates an object schema from a shape of field schemas; unknown keys are dropped
+ * from the result unless strict() is used
+ * @param shape - Field schemas
+ * @returns Object schema
+ * @example
+ * const user = object({ name: string().min(1), address: object({ zip: string().postalCode() }) });
+ * user.validate({ name: '', address: { zip: 'x' } }).issues.map(issue => issue.path)
+ * // [['name'], ['address', 'zip']]
+ */
+export function object<S extends Shape>(shape: S): ObjectSchema<S> {
+  return objectSchema(shape, { checks: [], fieldRules: [], strict: false });
+}
+
+/**
+ * Creates an array schema whose items all match a schema
+ * @param element - Item schema
+ * @returns Array schema
+ * @example
+ * array(string().email()).min(1).validate(['a@b.co', 'nope']).issues[0].path // [1]
+ */
+export function array<T>(element: Schema<T>): ArraySchema<T> {
+  return arraySchema(element, []);
+}
+
+/**
+ * Creates a schema that accepts values matching any of the given schemas (first match wins)
+ * @param options - Alternative schemas
+ * @returns Union schema
+ * @example
+ * union(string(), number()).is(42) // true
+ */
+export function union<O extends [Schema<any>, ...Schema<any>[]]>(...options: O): Schema<Infer<O[number]>> {
+  const optionRunners = options.map(option => runnerOf(option));
+  return genericSchema('union', (value, path, issues, tasks) => {
+    for (const runner of optionRunners) {
+      const optionTasks: AsyncTask[] = [];
+      const result = runner(value, path, [], optionTasks);
+      if (result !== INVALID) {
+        tasks.push(...optionTasks);
+        return result as Infer<O[number]>;
+      }
+    }
+    issues.push(value === undefined ? createIssue('required', path) : createIssue('invalid_union', path));
+    return INVALID;
+  });
+}
+
+/**
+ * Makes a schema accept undefined; inside object() the key becomes optional
+ * @param schema - Schema to wrap
+ * @returns Optional schema
+ * @example
+ * object({ nickname: optional(string()) }).is({}) // true
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return schema.optional();
+}
+
+/**
+ * Adds a custom rule to a schema, keeping the schema's own methods
+ * @param schema - Schema to extend
+ * @param check - Rule that receives the already type-checked value
+ * @param options - Message, or code, message and params for the issue
+ * @returns Refined schema
+ * @example
+ * refine(number(), n => n % 2 === 0, 'Must be even').validate(3).issues[0].message // 'Must be even'
+ */
+export function refine<S extends Schema<any>>(schema: S, check: (value: Infer<S>) => boolean, options?: RefineOptions): S {
+  return schema.refine(check, options) as S;
+}
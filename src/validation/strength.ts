@@ -0,0 +1,846 @@
+/**
+ * Password strength estimation in the style of zxcvbn: finds the guessable patterns in a
+ * password (common passwords, words, keyboard walks, repeats, sequences, dates) and
+ * estimates how many guesses an attacker trying those patterns first would need
+ */
+
+import { PASSPHRASE_WORDLIST } from '../crypto/wordlist';
+import { COMMON_PASSWORDS, ENGLISH_WORDS } from './dictionaries';
+
+export type PasswordPattern = 'dictionary' | 'spatial' | 'repeat' | 'sequence' | 'year' | 'date' | 'bruteforce';
+
+export type PasswordDictionary = 'passwords' | 'english' | 'user_inputs';
+
+/**
+ * A guessable part of a password; i and j are the inclusive start and end indexes
+ */
+export interface PasswordMatch {
+  pattern: PasswordPattern;
+  i: number;
+  j: number;
+  token: string;
+  /** Guesses needed to find this part on its own */
+  guesses: number;
+  /** Dictionary matches: where the word was found and its rank there (1 is most common) */
+  dictionary?: PasswordDictionary;
+  matchedWord?: string;
+  rank?: number;
+  reversed?: boolean;
+  /** L33t characters used in the token and the letters they stand for, e.g. { '@': 'a' } */
+  substitutions?: Record<string, string>;
+  /** Spatial matches */
+  graph?: 'qwerty' | 'keypad';
+  turns?: number;
+  shiftedCount?: number;
+  /** Repeat matches: the repeated unit, e.g. 'abc' in 'abcabcabc' */
+  baseToken?: string;
+  repeatCount?: number;
+  /** Sequence matches */
+  ascending?: boolean;
+  /** Date and year matches */
+  year?: number;
+  month?: number;
+  day?: number;
+  separator?: string;
+}
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface CrackTimes<T> {
+  /** Online attack limited to 100 guesses per hour */
+  onlineThrottling: T;
+  /** Online attack at 10 guesses per second */
+  onlineNoThrottling: T;
+  /** Offline attack on a slow hash (bcrypt, scrypt, PBKDF2) at 10^4 guesses per second */
+  offlineSlowHashing: T;
+  /** Offline attack on a fast hash (MD5, SHA-1) at 10^10 guesses per second */
+  offlineFastHashing: T;
+}
+
+export interface PasswordStrength {
+  /** 0 (too guessable) to 4 (very unguessable, at least 10^10 guesses) */
+  score: PasswordScore;
+  guesses: number;
+  guessesLog10: number;
+  crackTimesSeconds: CrackTimes<number>;
+  /** Crack times in words, e.g. '3 hours' or 'centuries' */
+  crackTimesDisplay: CrackTimes<string>;
+  /** Why the password is weak and how to improve it; empty for scores of 3 and 4 */
+  feedback: { warning: string; suggestions: string[] };
+  /** The patterns the estimate is based on, covering the password from start to end */
+  sequence: PasswordMatch[];
+}
+
+/** Longer passwords are only analysed up to this length; the rest is ignored */
+const MAX_LENGTH = 100;
+
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000;
+const MIN_SUBMATCH_GUESSES_SINGLE_CHAR = 10;
+const MIN_SUBMATCH_GUESSES_MULTI_CHAR = 50;
+const MIN_YEAR_SPACE = 20;
+const MAX_SEQUENCE_DELTA = 5;
+/** Cap on the l33t substitution combinations tried, so '1|1|1|...' stays fast */
+const MAX_L33T_COMBINATIONS = 64;
+
+const L33T_TABLE: Record<string, string[]> = {
+  a: ['4', '@'],
+  b: ['8'],
+  c: ['(', '{', '[', '<'],
+  e: ['3'],
+  g: ['6', '9'],
+  i: ['1', '!', '|'],
+  l: ['1', '|', '7'],
+  o: ['0'],
+  s: ['$', '5'],
+  t: ['+', '7'],
+  x: ['%'],
+  z: ['2']
+};
+
+const DATE_MIN_YEAR = 1000;
+const DATE_MAX_YEAR = 2050;
+/** Where to split digit runs of each length into day, month and year */
+const DATE_SPLITS: Record<number, [number, number][]> = {
+  4: [[1, 2], [2, 3]],
+  5: [[1, 3], [2, 3]],
+  6: [[1, 2], [2, 4], [4, 5]],
+  7: [[1, 3], [2, 3], [4, 5], [4, 6]],
+  8: [[2, 4], [4, 6]]
+};
+
+type RankedDictionary = Map<string, number>;
+
+function rankedDictionary(words: readonly string[], rankOf: (index: number) => number): RankedDictionary {
+  const ranked: RankedDictionary = new Map();
+  words.forEach((word, index) => {
+    const key = word.toLowerCase();
+    if (!ranked.has(key)) ranked.set(key, rankOf(index));
+  });
+  return ranked;
+}
+
+let builtInDictionaries: [PasswordDictionary, RankedDictionary][] | null = null;
+
+function dictionaries(): [PasswordDictionary, RankedDictionary][] {
+  if (!builtInDictionaries) {
+    const english = rankedDictionary(ENGLISH_WORDS, index => index + 1);
+    // The passphrase list is alphabetical, not by frequency: rank its words after the English list
+    const passphraseRank = ENGLISH_WORDS.length + PASSPHRASE_WORDLIST.length;
+    for (const word of PASSPHRASE_WORDLIST) {
+      if (!english.has(word)) english.set(word, passphraseRank);
+    }
+    builtInDictionaries = [
+      ['passwords', rankedDictionary(COMMON_PASSWORDS, index => index + 1)],
+      ['english', english]
+    ];
+  }
+  return builtInDictionaries;
+}
+
+/**
+ * Turns user-specific values into dictionary words: 'jane.doe@example.com' also yields
+ * 'jane.doe', 'jane', 'doe' and 'example'
+ */
+function userInputDictionary(userInputs: string[]): RankedDictionary {
+  const words: string[] = [];
+  for (const input of userInputs) {
+    const value = input.trim().toLowerCase();
+    if (value === '') continue;
+    words.push(value);
+    const [local] = value.split('@');
+    if (local !== undefined && local !== value) words.push(local);
+    words.push(...value.split(/[^\p{L}\p{N}]+/u).filter(part => part.length >= 3));
+  }
+  return rankedDictionary(words, index => index + 1);
+}
+
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+function binomial(n: number, k: number): number {
+  if (k > n) return 0;
+  if (k === 0) return 1;
+  let result = 1;
+  for (let d = 1; d <= k; d++) {
+    result = (result * (n - d + 1)) / d;
+  }
+  return result;
+}
+
+function countMatching(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function uppercaseVariations(token: string): number {
+  if (!/[A-Z]/.test(token) || token.toLowerCase() === token) return 1;
+  // Capitalized, all-uppercase and last-letter-uppercase are what people try first
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || /^[^a-z]+$/.test(token)) return 2;
+  const upper = countMatching(token, /[A-Z]/g);
+  const lower = countMatching(token, /[a-z]/g);
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) variations += binomial(upper + lower, i);
+  return variations;
+}
+
+function l33tVariations(token: string, substitutions: Record<string, string>): number {
+  let variations = 1;
+  const lower = token.toLowerCase();
+  for (const [subbed, letter] of Object.entries(substitutions)) {
+    const subbedCount = lower.split(subbed).length - 1;
+    const unsubbedCount = lower.split(letter).length - 1;
+    if (subbedCount === 0 || unsubbedCount === 0) {
+      variations *= 2;
+    } else {
+      let possibilities = 0;
+      for (let i = 1; i <= Math.min(subbedCount, unsubbedCount); i++) {
+        possibilities += binomial(subbedCount + unsubbedCount, i);
+      }
+      variations *= possibilities;
+    }
+  }
+  return variations;
+}
+
+/**
+ * Lowercases each character whose lowercase form has the same length, so indexes into the
+ * result are indexes into the password ('İ' lowercases to two code units and is kept)
+ */
+function lowercaseInPlace(password: string): string {
+  return [...password]
+    .map(char => {
+      const lower = char.toLowerCase();
+      return lower.length === char.length ? lower : char;
+    })
+    .join('');
+}
+
+function dictionaryMatches(password: string, dicts: [PasswordDictionary, RankedDictionary][]): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const lower = lowercaseInPlace(password);
+  for (const [dictionary, words] of dicts) {
+    for (let i = 0; i < password.length; i++) {
+      for (let j = i; j < password.length; j++) {
+        const word = lower.slice(i, j + 1);
+        const rank = words.get(word);
+        if (rank === undefined) continue;
+        const token = password.slice(i, j + 1);
+        matches.push({
+          pattern: 'dictionary',
+          i,
+          j,
+          token,
+          guesses: rank * uppercaseVariations(token),
+          dictionary,
+          matchedWord: word,
+          rank
+        });
+      }
+    }
+  }
+  return matches;
+}
+
+function reversedDictionaryMatches(password: string, dicts: [PasswordDictionary, RankedDictionary][]): PasswordMatch[] {
+  // Reversed by UTF-16 code unit so that indexes map back like every other match's
+  const reversed = password.split('').reverse().join('');
+  return dictionaryMatches(reversed, dicts)
+    .filter(match => match.token.length > 1)
+    .map(match => ({
+      ...match,
+      i: password.length - 1 - match.j,
+      j: password.length - 1 - match.i,
+      token: password.slice(password.length - 1 - match.j, password.length - match.i),
+      guesses: match.guesses * 2,
+      reversed: true
+    }));
+}
+
+/**
+ * Every way of reading the l33t characters in the password as letters, e.g. '1' as 'i' or 'l'
+ */
+function l33tSubstitutionMaps(password: string): Record<string, string>[] {
+  const candidates = new Map<string, string[]>();
+  for (const [letter, subs] of Object.entries(L33T_TABLE)) {
+    for (const sub of subs) {
+      if (!password.includes(sub)) continue;
+      candidates.set(sub, [...(candidates.get(sub) ?? []), letter]);
+    }
+  }
+  let maps: Record<string, string>[] = [{}];
+  for (const [sub, letters] of candidates) {
+    const next: Record<string, string>[] = [];
+    for (const map of maps) {
+      for (const letter of letters) {
+        if (next.length < MAX_L33T_COMBINATIONS) next.push({ ...map, [sub]: letter });
+      }
+    }
+    maps = next;
+  }
+  return candidates.size === 0 ? [] : maps;
+}
+
+function l33tMatches(password: string, dicts: [PasswordDictionary, RankedDictionary][]): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const seen = new Set<string>();
+  for (const map of l33tSubstitutionMaps(password)) {
+    const translated = [...password].map(char => map[char] ?? char).join('');
+    for (const match of dictionaryMatches(translated, dicts)) {
+      const token = password.slice(match.i, match.j + 1);
+      // Single characters like '4' for 'a' are better explained as bruteforce
+      if (token.toLowerCase() === match.matchedWord || token.length <= 1) continue;
+      const key = `${match.dictionary}:${match.i}:${match.j}:${match.matchedWord}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const substitutions: Record<string, string> = {};
+      for (const char of token) {
+        const letter = map[char];
+        if (letter !== undefined) substitutions[char] = letter;
+      }
+      matches.push({
+        ...match,
+        token,
+        guesses: match.rank! * uppercaseVariations(token) * l33tVariations(token, substitutions),
+        substitutions
+      });
+    }
+  }
+  return matches;
+}
+
+interface KeyboardGraph {
+  name: 'qwerty' | 'keypad';
+  /** Characters reachable in one step from each character, with the direction of the step */
+  steps: Map<string, Map<string, string>>;
+  /** Characters typed with Shift */
+  shifted: Set<string>;
+  startingPositions: number;
+  averageDegree: number;
+}
+
+/**
+ * Builds adjacency from physical key positions: each key is a string of its unshifted and
+ * shifted characters, and each row is offset by its indent in key widths
+ */
+function keyboardGraph(name: KeyboardGraph['name'], rows: string[][], offsets: number[]): KeyboardGraph {
+  const keys: { chars: string; x: number; y: number }[] = [];
+  rows.forEach((row, y) => {
+    row.forEach((chars, column) => {
+      if (chars !== '') keys.push({ chars, x: offsets[y]! + column, y });
+    });
+  });
+
+  const steps = new Map<string, Map<string, string>>();
+  const shifted = new Set<string>();
+  let degrees = 0;
+  for (const key of keys) {
+    const neighbours = new Map<string, string>();
+    for (const other of keys) {
+      const dx = other.x - key.x;
+      const dy = other.y - key.y;
+      if (other === key || Math.abs(dy) > 1 || Math.abs(dx) > 1) continue;
+      degrees++;
+      for (const char of other.chars) neighbours.set(char, `${dy},${Math.sign(dx)}`);
+    }
+    for (const char of key.chars) steps.set(char, neighbours);
+    for (const char of key.chars.slice(1)) shifted.add(char);
+  }
+  return { name, steps, shifted, startingPositions: keys.length, averageDegree: degrees / keys.length };
+}
+
+const KEYBOARD_GRAPHS: KeyboardGraph[] = [
+  keyboardGraph(
+    'qwerty',
+    [
+      ['`~', '1!', '2@', '3#', '4$', '5%', '6^', '7&', '8*', '9(', '0)', '-_', '=+'],
+      ['qQ', 'wW', 'eE', 'rR', 'tT', 'yY', 'uU', 'iI', 'oO', 'pP', '[{', ']}', '\\|'],
+      ['aA', 'sS', 'dD', 'fF', 'gG', 'hH', 'jJ', 'kK', 'lL', ';:', '\'"'],
+      ['zZ', 'xX', 'cC', 'vV', 'bB', 'nN', 'mM', ',<', '.>', '/?']
+    ],
+    [0, 1.5, 1.75, 2.25]
+  ),
+  keyboardGraph(
+    'keypad',
+    [
+      ['', '/', '*', '-'],
+      ['7', '8', '9', '+'],
+      ['4', '5', '6', ''],
+      ['1', '2', '3', ''],
+      ['', '0', '.', '']
+    ],
+    [0, 0, 0, 0, 0]
+  )
+];
+
+function spatialGuesses(graph: KeyboardGraph, length: number, turns: number, shiftedCount: number): number {
+  let guesses = 0;
+  for (let i = 2; i <= length; i++) {
+    for (let j = 1; j <= Math.min(turns, i - 1); j++) {
+      guesses += binomial(i - 1, j - 1) * graph.startingPositions * graph.averageDegree ** j;
+    }
+  }
+  if (shiftedCount > 0) {
+    const unshifted = length - shiftedCount;
+    if (unshifted === 0) {
+      guesses *= 2;
+    } else {
+      let variations = 0;
+      for (let i = 1; i <= Math.min(shiftedCount, unshifted); i++) variations += binomial(length, i);
+      guesses *= variations;
+    }
+  }
+  return guesses;
+}
+
+/**
+ * Keyboard walks of three or more keys, like 'qwerty', 'zxcvbn' or '7896'
+ */
+function spatialMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  for (const graph of KEYBOARD_GRAPHS) {
+    let i = 0;
+    while (i < password.length - 1) {
+      let j = i + 1;
+      let lastDirection: string | null = null;
+      let turns = 0;
+      let shiftedCount = graph.shifted.has(password[i]!) ? 1 : 0;
+      while (j < password.length) {
+        const direction = graph.steps.get(password[j - 1]!)?.get(password[j]!);
+        if (direction === undefined) break;
+        if (graph.shifted.has(password[j]!)) shiftedCount++;
+        if (direction !== lastDirection) {
+          turns++;
+          lastDirection = direction;
+        }
+        j++;
+      }
+      if (j - i > 2) {
+        matches.push({
+          pattern: 'spatial',
+          i,
+          j: j - 1,
+          token: password.slice(i, j),
+          guesses: spatialGuesses(graph, j - i, turns, shiftedCount),
+          graph: graph.name,
+          turns,
+          shiftedCount
+        });
+      }
+      i = j;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Repeated units like 'aaa' or 'abcabc', with guesses for the unit times the repeat count
+ */
+function repeatMatches(password: string, dicts: [PasswordDictionary, RankedDictionary][]): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const greedy = /(.+)\1+/gu;
+  const lazy = /(.+?)\1+/gu;
+  let lastIndex = 0;
+  while (lastIndex < password.length) {
+    greedy.lastIndex = lazy.lastIndex = lastIndex;
+    const greedyMatch = greedy.exec(password);
+    const lazyMatch = lazy.exec(password);
+    if (!greedyMatch || !lazyMatch) break;
+
+    let match: RegExpExecArray;
+    let baseToken: string;
+    if (greedyMatch[0].length > lazyMatch[0].length) {
+      // 'aabaab' is 'aab' twice, not 'a' twice followed by 'baab'
+      match = greedyMatch;
+      baseToken = /^(.+?)\1+$/u.exec(match[0])![1]!;
+    } else {
+      match = lazyMatch;
+      baseToken = match[1]!;
+    }
+    const i = match.index;
+    const j = i + match[0].length - 1;
+    const repeatCount = match[0].length / baseToken.length;
+    const base = mostGuessableSequence(baseToken, omnimatch(baseToken, dicts));
+    matches.push({
+      pattern: 'repeat',
+      i,
+      j,
+      token: match[0],
+      guesses: base.guesses * repeatCount,
+      baseToken,
+      repeatCount
+    });
+    lastIndex = j + 1;
+  }
+  return matches;
+}
+
+/**
+ * Runs of characters with a constant code point step, like 'abcd', '9753' or 'ZYX'
+ */
+function sequenceMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const add = (i: number, j: number, delta: number): void => {
+    const absolute = Math.abs(delta);
+    if ((j - i > 1 || absolute === 1) && absolute > 0 && absolute <= MAX_SEQUENCE_DELTA) {
+      const token = password.slice(i, j + 1);
+      // Sequences starting at an obvious point ('abc', '123', 'zyx') are tried first
+      let base = 'aAzZ019'.includes(token[0]!) ? 4 : /\d/.test(token[0]!) ? 10 : 26;
+      if (delta < 0) base *= 2;
+      matches.push({ pattern: 'sequence', i, j, token, guesses: base * token.length, ascending: delta > 0 });
+    }
+  };
+
+  if (password.length < 2) return matches;
+  let i = 0;
+  let lastDelta: number | null = null;
+  for (let k = 1; k < password.length; k++) {
+    const delta = password.charCodeAt(k) - password.charCodeAt(k - 1);
+    if (lastDelta === null) lastDelta = delta;
+    if (delta === lastDelta) continue;
+    add(i, k - 1, lastDelta);
+    i = k - 1;
+    lastDelta = delta;
+  }
+  add(i, password.length - 1, lastDelta!);
+  return matches;
+}
+
+function yearSpace(year: number): number {
+  return Math.max(Math.abs(year - new Date().getFullYear()), MIN_YEAR_SPACE);
+}
+
+function yearMatches(password: string): PasswordMatch[] {
+  return [...password.matchAll(/19\d\d|20\d\d/g)].map(match => {
+    const year = Number(match[0]);
+    return {
+      pattern: 'year' as const,
+      i: match.index!,
+      j: match.index! + 3,
+      token: match[0],
+      guesses: yearSpace(year),
+      year
+    };
+  });
+}
+
+function dayAndMonth(first: number, second: number): { day: number; month: number } | null {
+  for (const [day, month] of [[first, second], [second, first]] as [number, number][]) {
+    if (day >= 1 && day <= 31 && month >= 1 && month <= 12) return { day, month };
+  }
+  return null;
+}
+
+function twoToFourDigitYear(year: number): number {
+  if (year > 99) return year;
+  // '87' is 1987 and '15' is 2015
+  return year > 50 ? 1900 + year : 2000 + year;
+}
+
+/**
+ * Reads three numbers as a date in any of the usual orders (day-month-year, month-day-year,
+ * year-month-day), preferring four-digit years
+ */
+function numbersToDate(numbers: [number, number, number]): { year: number; month: number; day: number } | null {
+  const [first, middle, last] = numbers;
+  if (middle > 31 || middle <= 0) return null;
+  let over12 = 0;
+  let over31 = 0;
+  let under1 = 0;
+  for (const value of numbers) {
+    if ((value > 99 && value < DATE_MIN_YEAR) || value > DATE_MAX_YEAR) return null;
+    if (value > 31) over31++;
+    if (value > 12) over12++;
+    if (value <= 0) under1++;
+  }
+  if (over31 >= 2 || over12 === 3 || under1 >= 2) return null;
+
+  const splits: [number, [number, number]][] = [[last, [first, middle]], [first, [middle, last]]];
+  for (const [year, rest] of splits) {
+    if (year >= DATE_MIN_YEAR && year <= DATE_MAX_YEAR) {
+      const dayMonth = dayAndMonth(...rest);
+      return dayMonth ? { year, ...dayMonth } : null;
+    }
+  }
+  for (const [year, rest] of splits) {
+    const dayMonth = dayAndMonth(...rest);
+    if (dayMonth) return { year: twoToFourDigitYear(year), ...dayMonth };
+  }
+  return null;
+}
+
+/**
+ * Dates with or without separators: '13.5.1991', '1991-05-13', '130591'
+ */
+function dateMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const reference = new Date().getFullYear();
+
+  for (let i = 0; i <= password.length - 4; i++) {
+    for (let j = i + 3; j <= i + 7 && j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+      if (!/^\d+$/.test(token)) break;
+      const candidates = DATE_SPLITS[token.length]!
+        .map(([k, l]) => numbersToDate([Number(token.slice(0, k)), Number(token.slice(k, l)), Number(token.slice(l))]))
+        .filter((date): date is NonNullable<typeof date> => date !== null);
+      if (candidates.length === 0) continue;
+      // The reading closest to now is the likeliest
+      const best = candidates.reduce((a, b) => (Math.abs(b.year - reference) < Math.abs(a.year - reference) ? b : a));
+      matches.push({ pattern: 'date', i, j, token, guesses: yearSpace(best.year) * 365, separator: '', ...best });
+    }
+  }
+
+  for (let i = 0; i <= password.length - 6; i++) {
+    for (let j = i + 5; j <= i + 9 && j < password.length; j++) {
+      const token = password.slice(i, j + 1);
+      const parts = /^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/.exec(token);
+      if (!parts) continue;
+      const date = numbersToDate([Number(parts[1]), Number(parts[3]), Number(parts[4])]);
+      if (!date) continue;
+      matches.push({ pattern: 'date', i, j, token, guesses: yearSpace(date.year) * 365 * 4, separator: parts[2]!, ...date });
+    }
+  }
+
+  // '1991' inside '13.05.1991' is not worth a match of its own
+  return matches.filter(match => !matches.some(other =>
+    other !== match && other.i <= match.i && other.j >= match.j && other.j - other.i > match.j - match.i
+  ));
+}
+
+function omnimatch(password: string, dicts: [PasswordDictionary, RankedDictionary][]): PasswordMatch[] {
+  return [
+    ...dictionaryMatches(password, dicts),
+    ...reversedDictionaryMatches(password, dicts),
+    ...l33tMatches(password, dicts),
+    ...spatialMatches(password),
+    ...repeatMatches(password, dicts),
+    ...sequenceMatches(password),
+    ...yearMatches(password),
+    ...dateMatches(password)
+  ];
+}
+
+function bruteforceMatch(password: string, i: number, j: number): PasswordMatch {
+  return { pattern: 'bruteforce', i, j, token: password.slice(i, j + 1), guesses: BRUTEFORCE_CARDINALITY ** (j - i + 1) };
+}
+
+/**
+ * Finds the split of the password into matches that an attacker enumerating patterns would
+ * reach first: dynamic programming over the end index and the number of matches, where a
+ * sequence of l matches costs l! * product(guesses) + 10000^(l-1)
+ */
+function mostGuessableSequence(password: string, matches: PasswordMatch[]): { guesses: number; sequence: PasswordMatch[] } {
+  const n = password.length;
+  if (n === 0) return { guesses: 1, sequence: [] };
+
+  const matchesByEnd: PasswordMatch[][] = Array.from({ length: n }, () => []);
+  for (const match of matches) matchesByEnd[match.j]!.push(match);
+  for (const list of matchesByEnd) list.sort((a, b) => a.i - b.i);
+
+  // For each end index k, keyed by sequence length l: the last match, product of guesses and total
+  const best: Map<number, PasswordMatch>[] = Array.from({ length: n }, () => new Map());
+  const products: Map<number, number>[] = Array.from({ length: n }, () => new Map());
+  const totals: Map<number, number>[] = Array.from({ length: n }, () => new Map());
+
+  const minimumGuesses = (match: PasswordMatch): number => {
+    if (match.token.length === n) return 1;
+    return match.token.length === 1 ? MIN_SUBMATCH_GUESSES_SINGLE_CHAR : MIN_SUBMATCH_GUESSES_MULTI_CHAR;
+  };
+
+  const update = (match: PasswordMatch, length: number): void => {
+    const k = match.j;
+    let product = Math.max(match.guesses, minimumGuesses(match));
+    if (length > 1) product *= products[match.i - 1]!.get(length - 1)!;
+    const total = factorial(length) * product + MIN_GUESSES_BEFORE_GROWING_SEQUENCE ** (length - 1);
+    for (const [otherLength, otherTotal] of totals[k]!) {
+      if (otherLength <= length && otherTotal <= total) return;
+    }
+    best[k]!.set(length, match);
+    products[k]!.set(length, product);
+    totals[k]!.set(length, total);
+  };
+
+  const bruteforceUpdate = (k: number): void => {
+    update(bruteforceMatch(password, 0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      const match = bruteforceMatch(password, i, k);
+      for (const [length, previous] of best[i - 1]!) {
+        // Two bruteforce matches in a row are always worse than one covering both
+        if (previous.pattern !== 'bruteforce') update(match, length + 1);
+      }
+    }
+  };
+
+  for (let k = 0; k < n; k++) {
+    for (const match of matchesByEnd[k]!) {
+      if (match.i > 0) {
+        for (const length of [...best[match.i - 1]!.keys()]) update(match, length + 1);
+      } else {
+        update(match, 1);
+      }
+    }
+    bruteforceUpdate(k);
+  }
+
+  let length = 0;
+  let guesses = Infinity;
+  for (const [candidateLength, total] of totals[n - 1]!) {
+    if (total < guesses) {
+      length = candidateLength;
+      guesses = total;
+    }
+  }
+  const sequence: PasswordMatch[] = [];
+  for (let k = n - 1; k >= 0; length--) {
+    const match = best[k]!.get(length)!;
+    const product = Math.max(match.guesses, minimumGuesses(match));
+    sequence.unshift({ ...match, guesses: product });
+    k = match.i - 1;
+  }
+  return { guesses: Math.min(guesses, Number.MAX_VALUE), sequence };
+}
+
+function scoreFor(guesses: number): PasswordScore {
+  // A little slack so that a password needing exactly 10^3 guesses is not scored up
+  const delta = 5;
+  if (guesses < 1e3 + delta) return 0;
+  if (guesses < 1e6 + delta) return 1;
+  if (guesses < 1e8 + delta) return 2;
+  if (guesses < 1e10 + delta) return 3;
+  return 4;
+}
+
+function displayTime(seconds: number): string {
+  const minute = 60;
+  const hour = minute * 60;
+  const day = hour * 24;
+  const month = day * 31;
+  const year = month * 12;
+  const century = year * 100;
+  if (seconds < 1) return 'less than a second';
+  if (seconds >= century) return 'centuries';
+  const [unit, size] = ([
+    ['year', year],
+    ['month', month],
+    ['day', day],
+    ['hour', hour],
+    ['minute', minute]
+  ] as [string, number][]).find(([, size]) => seconds >= size) ?? ['second', 1];
+  const count = Math.round(seconds / size);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+function matchFeedback(match: PasswordMatch, isSoleMatch: boolean): { warning: string; suggestions: string[] } {
+  switch (match.pattern) {
+    case 'dictionary': {
+      let warning = '';
+      if (match.dictionary === 'user_inputs') {
+        warning = 'This contains personal information';
+      } else if (match.dictionary === 'passwords') {
+        if (isSoleMatch && !match.substitutions && !match.reversed) {
+          if (match.rank! <= 10) warning = 'This is a top-10 common password';
+          else if (match.rank! <= 100) warning = 'This is a top-100 common password';
+          else warning = 'This is a very common password';
+        } else {
+          warning = 'This is similar to a commonly used password';
+        }
+      } else if (isSoleMatch) {
+        warning = 'A word by itself is easy to guess';
+      }
+      const suggestions: string[] = [];
+      if (/^[A-Z][^A-Z]+$/.test(match.token)) {
+        suggestions.push('Capitalization doesn\'t help very much');
+      } else if (/^[^a-z]+$/.test(match.token) && match.token.toLowerCase() !== match.token) {
+        suggestions.push('All-uppercase is almost as easy to guess as all-lowercase');
+      }
+      if (match.reversed && match.token.length >= 4) {
+        suggestions.push('Reversed words aren\'t much harder to guess');
+      }
+      if (match.substitutions) {
+        suggestions.push('Predictable substitutions like \'@\' instead of \'a\' don\'t help very much');
+      }
+      return { warning, suggestions };
+    }
+    case 'spatial':
+      return {
+        warning: match.turns === 1 ? 'Straight rows of keys are easy to guess' : 'Short keyboard patterns are easy to guess',
+        suggestions: ['Use a longer keyboard pattern with more turns']
+      };
+    case 'repeat':
+      return {
+        warning: match.baseToken!.length === 1
+          ? 'Repeats like "aaa" are easy to guess'
+          : 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"',
+        suggestions: ['Avoid repeated words and characters']
+      };
+    case 'sequence':
+      return { warning: 'Sequences like abc or 6543 are easy to guess', suggestions: ['Avoid sequences'] };
+    case 'year':
+      return {
+        warning: 'Recent years are easy to guess',
+        suggestions: ['Avoid recent years', 'Avoid years that are associated with you']
+      };
+    case 'date':
+      return { warning: 'Dates are often easy to guess', suggestions: ['Avoid dates and years that are associated with you'] };
+    default:
+      return { warning: '', suggestions: [] };
+  }
+}
+
+function feedbackFor(score: PasswordScore, sequence: PasswordMatch[]): PasswordStrength['feedback'] {
+  if (sequence.length === 0) {
+    return {
+      warning: '',
+      suggestions: ['Use a few words, avoid common phrases', 'No need for symbols, digits, or uppercase letters']
+    };
+  }
+  if (score > 2) return { warning: '', suggestions: [] };
+
+  const longest = sequence.reduce((a, b) => (b.token.length > a.token.length ? b : a));
+  const { warning, suggestions } = matchFeedback(longest, sequence.length === 1);
+  return { warning, suggestions: ['Add another word or two. Uncommon words are better.', ...suggestions] };
+}
+
+function crackTimes<T>(guesses: number, convert: (seconds: number) => T): CrackTimes<T> {
+  return {
+    onlineThrottling: convert(guesses / (100 / 3600)),
+    onlineNoThrottling: convert(guesses / 10),
+    offlineSlowHashing: convert(guesses / 1e4),
+    offlineFastHashing: convert(guesses / 1e10)
+  };
+}
+
+/**
+ * Estimates how hard a password is to guess for an attacker who tries common passwords,
+ * words, names, keyboard walks, repeats, sequences and dates before bruteforce. Character
+ * class rules pass 'Password1'; this scores it 0.
+ * @param password - Password to rate; only the first 100 characters are analysed
+ * @param userInputs - Words an attacker could know about the user (name, email, username,
+ *   site name), treated as the most common dictionary words
+ * @returns Score from 0 to 4, guesses, crack times, feedback and the matched patterns
+ * @example
+ * estimatePasswordStrength('Password1').score // 0
+ * estimatePasswordStrength('correct horse battery staple').score // 4
+ * estimatePasswordStrength('janedoe', ['Jane Doe', 'jane.doe@example.com']).feedback.warning
+ * // 'This contains personal information' (scores 1, against 2 without the user inputs)
+ */
+export function estimatePasswordStrength(password: string, userInputs: string[] = []): PasswordStrength {
+  const analysed = [...password].slice(0, MAX_LENGTH).join('');
+  const dicts: [PasswordDictionary, RankedDictionary][] = [
+    ...dictionaries(),
+    ['user_inputs', userInputDictionary(userInputs)]
+  ];
+  const { guesses, sequence } = mostGuessableSequence(analysed, omnimatch(analysed, dicts));
+  const score = scoreFor(guesses);
+  return {
+    score,
+    guesses,
+    guessesLog10: Math.log10(guesses),
+    crackTimesSeconds: crackTimes(guesses, seconds => seconds),
+    crackTimesDisplay: crackTimes(guesses, displayTime),
+    feedback: feedbackFor(score, sequence),
+    sequence
+  };
+}
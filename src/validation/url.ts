@@ -0,0 +1,154 @@
+/**
+ * URL policies for fetching user-supplied URLs on the server without SSRF exposure
+ */
+
+import { classifyIP, cidrContains, formatIP, IPAddress, parseCIDR, parseIP } from './ip';
+import { createIssue } from './issues';
+
+/**
+ * What a URL may point at. Lists of hosts accept exact names ('example.com'), wildcards
+ * ('*.example.com' for subdomains, '*' for anything), IP addresses and CIDR blocks.
+ */
+export interface UrlPolicy {
+  /** Allowed protocols (default: ['http', 'https']) */
+  protocols?: string[];
+  /** When set, the host must match one of these */
+  allowHosts?: string[];
+  /** Hosts that are always rejected */
+  denyHosts?: string[];
+  /** Accept IP literals in private, loopback, link-local and other non-public ranges (default: false) */
+  allowPrivateIPs?: boolean;
+  /** Allowed ports, with protocol defaults applied when the URL has none (default: any) */
+  ports?: number[];
+  /** Maximum URL length in characters (default: 2048) */
+  maxLength?: number;
+  /** Accept 'user:password@' before the host (default: false) */
+  allowCredentials?: boolean;
+}
+
+/**
+ * Why checkUrl rejected a URL
+ */
+export type UrlRejectionReason =
+  | 'too_long'
+  | 'invalid_format'
+  | 'protocol_not_allowed'
+  | 'credentials_not_allowed'
+  | 'host_not_allowed'
+  | 'blocked_ip'
+  | 'port_not_allowed';
+
+export type UrlCheckResult =
+  | { ok: true; url: URL }
+  | { ok: false; reason: UrlRejectionReason; message: string; params: Record<string, unknown> };
+
+const DEFAULT_PORTS: Record<string, number> = { 'http:': 80, 'https:': 443, 'ws:': 80, 'wss:': 443, 'ftp:': 21 };
+
+/**
+ * Names that resolve to the local machine or a cloud metadata service
+ */
+const LOCAL_HOSTS = ['localhost', '*.localhost', 'metadata.google.internal', 'metadata.goog'];
+
+/**
+ * Reads the IPv4 forms inet_aton accepts and browsers may not normalize for every
+ * protocol: '2130706433', '0x7f.1', '0177.0.0.01'
+ */
+function parseLegacyIPv4(host: string): IPAddress | null {
+  const parts = host.split('.');
+  if (parts.length > 4) return null;
+  const numbers: number[] = [];
+  for (const part of parts) {
+    let value: number;
+    if (/^0x[0-9a-f]*$/i.test(part)) value = part.length === 2 ? 0 : parseInt(part.slice(2), 16);
+    else if (/^0[0-7]+$/.test(part)) value = parseInt(part, 8);
+    else if (/^(?:0|[1-9]\d*)$/.test(part)) value = Number(part);
+    else return null;
+    numbers.push(value);
+  }
+  const last = numbers.pop()!;
+  if (numbers.some(value => value > 255) || last >= 256 ** (4 - numbers.length)) return null;
+  const value = numbers.reduce((total, octet, i) => total + octet * 256 ** (3 - i), 0) + last;
+  return { version: 4, value: BigInt(value) };
+}
+
+function hostAddress(hostname: string): IPAddress | null {
+  return parseIP(hostname) ?? parseLegacyIPv4(hostname);
+}
+
+function matchesHost(pattern: string, hostname: string, address: IPAddress | null): boolean {
+  const rule = pattern.toLowerCase().replace(/\.$/, '');
+  if (rule === '*') return true;
+  if (rule.startsWith('*.')) return hostname.endsWith(rule.slice(1));
+  const block = parseCIDR(rule);
+  if (block) return address !== null && cidrContains(block, address);
+  return hostname === rule;
+}
+
+function reject(reason: UrlRejectionReason, params: Record<string, unknown> = {}): UrlCheckResult {
+  const { message } = createIssue(reason, [], params);
+  return { ok: false, reason, message, params };
+}
+
+/**
+ * Checks a URL against a policy before the server fetches it. IP literals in any form
+ * ('http://2130706433/', 'http://0177.1/', 'http://[::ffff:127.0.0.1]/') are blocked unless
+ * public. Host names are not resolved: also check the address you connect to, or a name
+ * pointing at 127.0.0.1 gets through.
+ * @param url - URL from user input
+ * @param policy - Allowed protocols, hosts, ports and length
+ * @returns The parsed URL, or the reason for rejecting it with a message and params
+ * @example
+ * checkUrl('http://169.254.169.254/latest/meta-data/')
+ * // { ok: false, reason: 'blocked_ip', message: 'Address 169.254.169.254 is in a blocked link-local range', params: { address: '169.254.169.254', range: 'link-local' } }
+ * checkUrl('https://api.example.com/hook', { allowHosts: ['*.example.com'], ports: [443] }).ok // true
+ */
+export function checkUrl(url: string, policy: UrlPolicy = {}): UrlCheckResult {
+  const {
+    protocols = ['http', 'https'],
+    allowHosts,
+    denyHosts = [],
+    allowPrivateIPs = false,
+    ports,
+    maxLength = 2048,
+    allowCredentials = false
+  } = policy;
+
+  if (url.length > maxLength) return reject('too_long', { max: maxLength });
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return reject('invalid_format', { format: 'url' });
+  }
+
+  const protocol = parsed.protocol;
+  if (!protocols.some(allowed => `${allowed.toLowerCase().replace(/:$/, '')}:` === protocol)) {
+    return reject('protocol_not_allowed', { protocol: protocol.slice(0, -1) });
+  }
+  if (!allowCredentials && (parsed.username !== '' || parsed.password !== '')) {
+    return reject('credentials_not_allowed');
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (hostname === '') return reject('host_not_allowed', { host: hostname });
+  const address = hostAddress(hostname);
+  const localNames = allowPrivateIPs ? [] : LOCAL_HOSTS;
+  if ([...denyHosts, ...localNames].some(pattern => matchesHost(pattern, hostname, address))) {
+    return reject('host_not_allowed', { host: hostname });
+  }
+  if (allowHosts && !allowHosts.some(pattern => matchesHost(pattern, hostname, address))) {
+    return reject('host_not_allowed', { host: hostname });
+  }
+  if (address && !allowPrivateIPs) {
+    const range = classifyIP(address);
+    if (range !== 'public') {
+      return reject('blocked_ip', { address: formatIP(address), range });
+    }
+  }
+
+  const port = parsed.port === '' ? DEFAULT_PORTS[protocol] : Number(parsed.port);
+  if (ports && (port === undefined || !ports.includes(port))) {
+    return reject('port_not_allowed', { port: port ?? null });
+  }
+  return { ok: true, url: parsed };
+}
@@ -0,0 +1,504 @@
+/**
+ * Issue-reporting counterparts of the predicates: each validate* function says why a
+ * value failed with stable codes instead of returning a bare boolean
+ */
+
+import { createIssue, PathSegment, ValidationIssue, ValidationResult } from './issues';
+import { CARD_BRANDS, cardExpiryProblem, cvvLengths, detectCardBrand } from './cards';
+import {
+  IdentifierProblem,
+  ibanProblem,
+  isValidBIC,
+  isValidIBAN,
+  isValidRoutingNumber,
+  isValidVATNumber,
+  routingNumberProblem,
+  vatNumberProblem
+} from './financial';
+import { parsePhoneNumber, SUPPORTED_PHONE_COUNTRIES } from './phone';
+import { normalizePostalCode, SUPPORTED_POSTAL_COUNTRIES } from './postal';
+import { gtinProblem, isbnProblem, isValidEAN, isValidGTIN, isValidISBN, isValidISSN, isValidUPC, issnProblem } from './products';
+import { checkUrl, UrlPolicy } from './url';
+import { estimatePasswordStrength, PasswordStrength } from './strength';
+import {
+  isValidDate,
+  isValidEmail,
+  isValidHexColor,
+  isValidIPv4,
+  isValidIPv6,
+  isValidPhoneNumber,
+  isValidPostalCode,
+  isValidSSN,
+  isValidTime,
+  isValidUrl,
+  isValidUUID,
+  isValidCreditCard,
+  isValidJSON,
+  PasswordRequirements,
+  unmetPasswordRequirements
+} from './predicates';
+
+/**
+ * Named string formats backed by the isValid* predicates
+ */
+export type StringFormat =
+  | 'email'
+  | 'url'
+  | 'uuid'
+  | 'ipv4'
+  | 'ipv6'
+  | 'phone'
+  | 'credit-card'
+  | 'postal-code'
+  | 'ssn'
+  | 'date'
+  | 'time'
+  | 'hex-color'
+  | 'json'
+  | 'iban'
+  | 'bic'
+  | 'vat'
+  | 'routing-number'
+  | 'isbn'
+  | 'issn'
+  | 'ean'
+  | 'upc'
+  | 'gtin';
+
+/**
+ * Predicate used for each string format
+ */
+export const STRING_FORMATS: Record<StringFormat, (value: string) => boolean> = {
+  email: isValidEmail,
+  url: isValidUrl,
+  uuid: isValidUUID,
+  ipv4: isValidIPv4,
+  ipv6: isValidIPv6,
+  phone: isValidPhoneNumber,
+  'credit-card': isValidCreditCard,
+  'postal-code': isValidPostalCode,
+  ssn: isValidSSN,
+  date: isValidDate,
+  time: isValidTime,
+  'hex-color': isValidHexColor,
+  json: isValidJSON,
+  iban: isValidIBAN,
+  bic: isValidBIC,
+  vat: isValidVATNumber,
+  'routing-number': isValidRoutingNumber,
+  isbn: isValidISBN,
+  issn: isValidISSN,
+  ean: isValidEAN,
+  upc: isValidUPC,
+  gtin: isValidGTIN
+};
+
+/**
+ * Pushes the issues for a string onto `issues`
+ */
+export type StringRule = (value: string, path: PathSegment[], issues: ValidationIssue[]) => void;
+
+const formatRule = (format: StringFormat): StringRule => (value, path, issues) => {
+  if (!STRING_FORMATS[format](value)) {
+    issues.push(createIssue('invalid_format', path, { format }));
+  }
+};
+
+const creditCardRule: StringRule = (value, path, issues) => {
+  const digits = value.replace(/\s/g, '');
+  const brand = detectCardBrand(digits);
+  if (!/^\d*$/.test(digits)) {
+    issues.push(createIssue('invalid_characters', path, { format: 'credit-card' }));
+  } else if (digits.length < 13 || digits.length > 19) {
+    issues.push(createIssue('invalid_length', path, { format: 'credit-card', min: 13, max: 19 }));
+  } else if (brand && !CARD_BRANDS[brand].lengths.includes(digits.length)) {
+    const { lengths } = CARD_BRANDS[brand];
+    issues.push(createIssue('invalid_length', path, {
+      format: 'credit-card', brand, min: Math.min(...lengths), max: Math.max(...lengths), lengths
+    }));
+  } else if (!isValidCreditCard(digits)) {
+    issues.push(createIssue('invalid_checksum', path, { format: 'credit-card' }));
+  }
+};
+
+const jsonRule: StringRule = (value, path, issues) => {
+  try {
+    JSON.parse(value);
+  } catch (error) {
+    issues.push(createIssue('invalid_json', path, { format: 'json', reason: (error as Error).message }));
+  }
+};
+
+const identifierRule = (diagnose: (value: string) => IdentifierProblem | null): StringRule =>
+  (value, path, issues) => {
+    const problem = diagnose(value);
+    if (problem) issues.push(createIssue(problem.code, path, problem.params));
+  };
+
+/**
+ * Rule checking a phone number against one country's numbering plan
+ */
+export function phoneRule(country: string): StringRule {
+  const expected = country.toUpperCase();
+  if (!SUPPORTED_PHONE_COUNTRIES.includes(expected)) {
+    throw new Error(`Unsupported phone number country: ${country}`);
+  }
+  return (value, path, issues) => {
+    const parsed = parsePhoneNumber(value, expected);
+    if (!parsed || !parsed.valid) {
+      issues.push(createIssue('invalid_format', path, { format: 'phone', country: expected }));
+    } else if (parsed.country !== expected) {
+      issues.push(createIssue('invalid_country', path, { format: 'phone', country: expected, received: parsed.country }));
+    }
+  };
+}
+
+/**
+ * Rule checking a postal code against one country's system
+ */
+export function postalCodeRule(country: string): StringRule {
+  const expected = country.toUpperCase();
+  if (!SUPPORTED_POSTAL_COUNTRIES.includes(expected)) {
+    throw new Error(`Unsupported postal code country: ${country}`);
+  }
+  return (value, path, issues) => {
+    if (normalizePostalCode(value, expected) === null) {
+      issues.push(createIssue('invalid_format', path, { format: 'postal-code', country: expected }));
+    }
+  };
+}
+
+/**
+ * Rule reporting every unmet password requirement
+ */
+export function passwordRule(options: PasswordRequirements = {}): StringRule {
+  const { minLength = 8, minScore, userInputs = [] } = options;
+  const paramsFor = (code: string, strength: PasswordStrength | undefined): Record<string, unknown> => {
+    if (code === 'too_short') return { min: minLength };
+    if (code !== 'too_weak' || !strength) return {};
+    const { score, feedback } = strength;
+    return { minScore, score, warning: feedback.warning, suggestions: feedback.suggestions };
+  };
+  return (value, path, issues) => {
+    const strength = minScore === undefined ? undefined : estimatePasswordStrength(value, userInputs);
+    for (const code of unmetPasswordRequirements(value, options, strength)) {
+      issues.push(createIssue(code, path, paramsFor(code, strength)));
+    }
+  };
+}
+
+/**
+ * Rule used for each string format
+ */
+export const FORMAT_RULES: Record<StringFormat, StringRule> = {
+  email: formatRule('email'),
+  url: formatRule('url'),
+  uuid: formatRule('uuid'),
+  ipv4: formatRule('ipv4'),
+  ipv6: formatRule('ipv6'),
+  phone: formatRule('phone'),
+  'credit-card': creditCardRule,
+  'postal-code': formatRule('postal-code'),
+  ssn: formatRule('ssn'),
+  date: formatRule('date'),
+  time: formatRule('time'),
+  'hex-color': formatRule('hex-color'),
+  json: jsonRule,
+  iban: identifierRule(ibanProblem),
+  bic: formatRule('bic'),
+  vat: identifierRule(vatNumberProblem),
+  'routing-number': identifierRule(routingNumberProblem),
+  isbn: identifierRule(isbnProblem),
+  issn: identifierRule(issnProblem),
+  ean: identifierRule(ean => gtinProblem(ean, 'ean')),
+  upc: identifierRule(upc => gtinProblem(upc, 'upc')),
+  gtin: identifierRule(gtin => gtinProblem(gtin))
+};
+
+function runStringRule(value: unknown, rule: StringRule): ValidationResult<string> {
+  const issues: ValidationIssue[] = [];
+  if (value === undefined || value === null) {
+    issues.push(createIssue('required', []));
+  } else if (typeof value !== 'string') {
+    issues.push(createIssue('invalid_type', [], { expected: 'string', received: Array.isArray(value) ? 'array' : typeof value }));
+  } else {
+    rule(value, [], issues);
+    if (issues.length === 0) return { ok: true, value, issues: [] };
+  }
+  return { ok: false, issues };
+}
+
+/**
+ * Validates an email address
+ * @param value - Value to check
+ * @returns The email, or issues with code 'invalid_format' ({ format: 'email' })
+ * @example
+ * validateEmail('jane@example')
+ * // { ok: false, issues: [{ path: [], code: 'invalid_format', message: 'Must be a valid email', params: { format: 'email' } }] }
+ */
+export function validateEmail(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.email);
+}
+
+/**
+ * Validates a URL
+ * @param value - Value to check
+ * @param policy - When given, the URL must also pass checkUrl with this policy
+ * @returns The URL, or issues with code 'invalid_format' ({ format: 'url' }) or one of
+ *   checkUrl's reasons ('blocked_ip', 'host_not_allowed', ...)
+ */
+export function validateUrl(value: unknown, policy?: UrlPolicy): ValidationResult<string> {
+  if (policy === undefined) return runStringRule(value, FORMAT_RULES.url);
+  return runStringRule(value, (url, path, issues) => {
+    const result = checkUrl(url, policy);
+    if (!result.ok) issues.push(createIssue(result.reason, path, result.params));
+  });
+}
+
+/**
+ * Validates a phone number
+ * @param value - Value to check
+ * @param country - ISO 3166-1 alpha-2 country whose numbering plan applies (default: basic check)
+ * @returns The phone number, or issues with code 'invalid_format' ({ format: 'phone', country })
+ *   or, for a valid number from another country, 'invalid_country' ({ format, country, received })
+ * @throws Error if the country has no phone metadata
+ * @example
+ * validatePhoneNumber('+33 6 12 34 56 78', 'GB').issues[0].code // 'invalid_country'
+ */
+export function validatePhoneNumber(value: unknown, country?: string): ValidationResult<string> {
+  return runStringRule(value, country === undefined ? FORMAT_RULES.phone : phoneRule(country));
+}
+
+/**
+ * Validates a credit card number
+ * @param value - Value to check
+ * @returns The card number, or one issue: 'invalid_characters', 'invalid_length'
+ *   ({ min: 13, max: 19 }) or 'invalid_checksum' (Luhn)
+ * @example
+ * validateCreditCard('4242 4242 4242 4241').issues[0].code // 'invalid_checksum'
+ */
+export function validateCreditCard(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES['credit-card']);
+}
+
+/**
+ * Validates a password, reporting every unmet requirement
+ * @param value - Value to check
+ * @param options - Same requirements as isValidPassword
+ * @returns The password, or issues with codes 'too_short' ({ min }), 'missing_uppercase',
+ *   'missing_lowercase', 'missing_number', 'missing_special_char' and 'too_weak'
+ *   ({ minScore, score, warning, suggestions })
+ * @example
+ * validatePassword('secret').issues.map(issue => issue.code)
+ * // ['too_short', 'missing_uppercase', 'missing_number']
+ */
+export function validatePassword(value: unknown, options: PasswordRequirements = {}): ValidationResult<string> {
+  return runStringRule(value, passwordRule(options));
+}
+
+/**
+ * Validates an IPv4 address
+ * @param value - Value to check
+ * @returns The address, or issues with code 'invalid_format' ({ format: 'ipv4' })
+ */
+export function validateIPv4(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.ipv4);
+}
+
+/**
+ * Validates an IPv6 address
+ * @param value - Value to check
+ * @returns The address, or issues with code 'invalid_format' ({ format: 'ipv6' })
+ */
+export function validateIPv6(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.ipv6);
+}
+
+/**
+ * Validates a postal code
+ * @param value - Value to check
+ * @param country - ISO 3166-1 alpha-2 country (default: strict US ZIP check)
+ * @returns The postal code as given, or issues with code 'invalid_format' ({ format: 'postal-code', country })
+ * @throws Error if the country has no postal code rules
+ */
+export function validatePostalCode(value: unknown, country?: string): ValidationResult<string> {
+  return runStringRule(value, country === undefined ? FORMAT_RULES['postal-code'] : postalCodeRule(country));
+}
+
+/**
+ * Validates a social security number
+ * @param value - Value to check
+ * @returns The SSN, or issues with code 'invalid_format' ({ format: 'ssn' })
+ */
+export function validateSSN(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.ssn);
+}
+
+/**
+ * Validates a date string
+ * @param value - Value to check
+ * @returns The date string, or issues with code 'invalid_format' ({ format: 'date' })
+ */
+export function validateDate(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.date);
+}
+
+/**
+ * Validates a time string (HH:MM)
+ * @param value - Value to check
+ * @returns The time string, or issues with code 'invalid_format' ({ format: 'time' })
+ */
+export function validateTime(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.time);
+}
+
+/**
+ * Validates a hexadecimal color code
+ * @param value - Value to check
+ * @returns The color, or issues with code 'invalid_format' ({ format: 'hex-color' })
+ */
+export function validateHexColor(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES['hex-color']);
+}
+
+/**
+ * Validates a JSON string
+ * @param value - Value to check
+ * @returns The JSON string, or issues with code 'invalid_json' ({ reason } holds the parser error)
+ */
+export function validateJSON(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.json);
+}
+
+/**
+ * Validates a UUID
+ * @param value - Value to check
+ * @returns The UUID, or issues with code 'invalid_format' ({ format: 'uuid' })
+ */
+export function validateUUID(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.uuid);
+}
+
+/**
+ * Validates a card expiry date ('MM/YY', 'MM/YYYY', 'MM-YY' or 'MMYY')
+ * @param value - Value to check
+ * @param now - Reference date (default: now)
+ * @returns The expiry date, or issues with code 'invalid_format' ({ format: 'card-expiry' }) or 'expired'
+ */
+export function validateCardExpiry(value: unknown, now: Date = new Date()): ValidationResult<string> {
+  return runStringRule(value, (expiry, path, issues) => {
+    const code = cardExpiryProblem(expiry, now);
+    if (code) issues.push(createIssue(code, path, { format: 'card-expiry' }));
+  });
+}
+
+/**
+ * Validates a card security code against the card's brand
+ * @param value - Value to check
+ * @param cardNumberOrBrand - Card number or brand; without it, 3 or 4 digits are accepted
+ * @returns The CVV, or one issue: 'invalid_characters' or 'invalid_length' ({ min, max })
+ * @example
+ * validateCVV('123', 'amex').issues[0].params // { format: 'cvv', min: 4, max: 4 }
+ */
+export function validateCVV(value: unknown, cardNumberOrBrand?: string): ValidationResult<string> {
+  return runStringRule(value, (cvv, path, issues) => {
+    const { min, max } = cvvLengths(cardNumberOrBrand);
+    if (!/^\d*$/.test(cvv)) {
+      issues.push(createIssue('invalid_characters', path, { format: 'cvv' }));
+    } else if (cvv.length < min || cvv.length > max) {
+      issues.push(createIssue('invalid_length', path, { format: 'cvv', min, max }));
+    }
+  });
+}
+
+/**
+ * Validates an IBAN
+ * @param value - Value to check
+ * @returns The IBAN, or one issue: 'invalid_characters', 'invalid_format' (unknown country),
+ *   'invalid_length' ({ country, min, max }) or 'invalid_checksum' (mod 97)
+ * @example
+ * validateIBAN('DE89 3704 0044 0532 0130').issues[0].params // { format: 'iban', country: 'DE', min: 22, max: 22 }
+ */
+export function validateIBAN(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.iban);
+}
+
+/**
+ * Validates a BIC (SWIFT code)
+ * @param value - Value to check
+ * @returns The BIC, or issues with code 'invalid_format' ({ format: 'bic' })
+ */
+export function validateBIC(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.bic);
+}
+
+/**
+ * Validates an EU VAT number
+ * @param value - Value to check
+ * @param country - VAT prefix when the value has none
+ * @returns The VAT number, or one issue: 'invalid_format' ({ format: 'vat', country }) or
+ *   'invalid_checksum' ({ format: 'vat', country })
+ */
+export function validateVATNumber(value: unknown, country?: string): ValidationResult<string> {
+  return runStringRule(value, country === undefined ? FORMAT_RULES.vat : identifierRule(vat => vatNumberProblem(vat, country)));
+}
+
+/**
+ * Validates a US ABA routing number
+ * @param value - Value to check
+ * @returns The routing number, or one issue: 'invalid_characters', 'invalid_length'
+ *   ({ min: 9, max: 9 }), 'invalid_format' (unassigned prefix) or 'invalid_checksum'
+ */
+export function validateRoutingNumber(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES['routing-number']);
+}
+
+/**
+ * Validates an ISBN-10 or ISBN-13
+ * @param value - Value to check
+ * @returns The ISBN, or one issue: 'invalid_characters', 'invalid_length' ({ lengths: [10, 13] }),
+ *   'invalid_format' (ISBN-13 outside 978/979) or 'invalid_checksum'
+ */
+export function validateISBN(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.isbn);
+}
+
+/**
+ * Validates an ISSN
+ * @param value - Value to check
+ * @returns The ISSN, or one issue: 'invalid_characters', 'invalid_length' ({ min: 8, max: 8 })
+ *   or 'invalid_checksum'
+ */
+export function validateISSN(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.issn);
+}
+
+/**
+ * Validates an EAN-8 or EAN-13 barcode number
+ * @param value - Value to check
+ * @returns The EAN, or one issue: 'invalid_characters', 'invalid_length' ({ lengths: [8, 13] })
+ *   or 'invalid_checksum'
+ */
+export function validateEAN(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.ean);
+}
+
+/**
+ * Validates a UPC-A or UPC-E barcode number
+ * @param value - Value to check
+ * @returns The UPC, or one issue: 'invalid_characters', 'invalid_length' ({ lengths: [8, 12] }),
+ *   'invalid_format' (UPC-E with a number system other than 0 or 1) or 'invalid_checksum'
+ */
+export function validateUPC(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.upc);
+}
+
+/**
+ * Validates a GTIN-8, GTIN-12, GTIN-13 or GTIN-14
+ * @param value - Value to check
+ * @returns The GTIN, or one issue: 'invalid_characters', 'invalid_length'
+ *   ({ lengths: [8, 12, 13, 14] }) or 'invalid_checksum'
+ */
+export function validateGTIN(value: unknown): ValidationResult<string> {
+  return runStringRule(value, FORMAT_RULES.gtin);
+}